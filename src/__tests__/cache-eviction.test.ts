@@ -0,0 +1,77 @@
+import { Cache } from '../core/cache';
+import { TestUtils } from './test-utils';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+describe('Cache eviction', () => {
+  let cache: Cache;
+  let tempDir: string;
+
+  const addPackage = async (name: string, sizeInBytes: number) => {
+    const filePath = path.join(tempDir, `${name}.tgz`);
+    await fs.writeFile(filePath, name.padEnd(sizeInBytes, 'x'));
+    await cache.add(TestUtils.createTestPackageInfo(name, '1.0.0'), filePath);
+  };
+
+  beforeEach(async () => {
+    tempDir = await TestUtils.createTempDir('zembil-cache-eviction');
+    cache = new Cache(path.join(tempDir, 'cache'));
+    await cache.initialize();
+
+    await addPackage('alpha', 100);
+    await TestUtils.wait(5);
+    await addPackage('beta', 100);
+    await TestUtils.wait(5);
+    await addPackage('gamma', 100);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test('should evict least recently used packages first', async () => {
+    await cache.recordAccess('alpha', '1.0.0');
+
+    const evicted = await cache.evict(200, 'lru');
+
+    expect(evicted.map(pkg => pkg.name)).toEqual(['beta']);
+    expect(await cache.getSize()).toBe(200);
+  });
+
+  test('should evict least frequently used packages first', async () => {
+    await cache.recordAccess('alpha', '1.0.0');
+    await cache.recordAccess('alpha', '1.0.0');
+    await cache.recordAccess('beta', '1.0.0');
+
+    const evicted = await cache.evict(100, 'lfu');
+
+    expect(evicted.map(pkg => pkg.name)).toEqual(['gamma', 'beta']);
+  });
+
+  test('should evict the oldest packages first', async () => {
+    await cache.recordAccess('alpha', '1.0.0');
+
+    const evicted = await cache.evict(200, 'oldest');
+
+    expect(evicted.map(pkg => pkg.name)).toEqual(['alpha']);
+  });
+
+  test('should never evict pinned packages', async () => {
+    expect(await cache.pin('alpha', '1.0.0')).toBe(true);
+
+    const evicted = await cache.evict(0, 'oldest');
+
+    expect(evicted.map(pkg => pkg.name)).toEqual(['beta', 'gamma']);
+    expect(await cache.exists('alpha', '1.0.0')).toBe(true);
+  });
+
+  test('should keep pin state and hit count when a package is re-cached', async () => {
+    await cache.pin('alpha', '1.0.0');
+    await cache.recordAccess('alpha', '1.0.0');
+    await addPackage('alpha', 100);
+
+    const cached = await cache.get('alpha', '1.0.0');
+    expect(cached?.pinned).toBe(true);
+    expect(cached?.hitCount).toBe(1);
+  });
+});
@@ -0,0 +1,207 @@
+import { Cache } from '../core/cache';
+import { IntegrityUtils } from '../utils/integrity';
+import { TestUtils } from './test-utils';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+describe('Cache blob store', () => {
+  let cache: Cache;
+  let tempDir: string;
+  let cacheDir: string;
+  let packagePath: string;
+
+  beforeEach(async () => {
+    tempDir = await TestUtils.createTempDir('zembil-cache-store');
+    cacheDir = path.join(tempDir, 'cache');
+    cache = new Cache(cacheDir);
+    await cache.initialize();
+    packagePath = await TestUtils.createTestPackage(tempDir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test('should store identical artifacts once', async () => {
+    await cache.add(TestUtils.createTestPackageInfo('one', '1.0.0', 'npm'), packagePath);
+    await cache.add(TestUtils.createTestPackageInfo('two', '2.0.0', 'pip'), packagePath);
+
+    const one = await cache.get('one', '1.0.0');
+    const two = await cache.get('two', '2.0.0');
+
+    expect(one!.localPath).toBe(two!.localPath);
+    expect(path.basename(one!.localPath)).toBe(one!.checksum);
+    expect(await cache.getSize()).toBe(one!.size);
+  });
+
+  test('should record the registry a package came from', async () => {
+    await cache.add({ ...TestUtils.createTestPackageInfo('@corp/ui', '1.0.0'), registry: 'https://npm.corp.com' }, packagePath);
+    await cache.add(TestUtils.createTestPackageInfo('left-pad', '1.3.0'), packagePath);
+
+    expect((await cache.get('@corp/ui', '1.0.0'))!.registry).toBe('https://npm.corp.com');
+    expect((await cache.get('left-pad', '1.3.0'))!.registry).toBeUndefined();
+  });
+
+  test('should keep a shared blob until the last reference is removed', async () => {
+    await cache.add(TestUtils.createTestPackageInfo('one', '1.0.0'), packagePath);
+    await cache.add(TestUtils.createTestPackageInfo('two', '1.0.0'), packagePath);
+    const blobPath = (await cache.get('one', '1.0.0'))!.localPath;
+
+    await cache.remove('one', '1.0.0');
+    expect(await fs.pathExists(blobPath)).toBe(true);
+
+    await cache.remove('two', '1.0.0');
+    expect(await fs.pathExists(blobPath)).toBe(false);
+  });
+
+  test('should release the old blob when a version is re-cached with new content', async () => {
+    await cache.add(TestUtils.createTestPackageInfo('one', '1.0.0'), packagePath);
+    const oldBlob = (await cache.get('one', '1.0.0'))!.localPath;
+
+    const updatedPath = await TestUtils.createTestPackage(tempDir, 'updated.tar.gz');
+    await cache.add(TestUtils.createTestPackageInfo('one', '1.0.0'), updatedPath);
+
+    expect((await cache.get('one', '1.0.0'))!.localPath).not.toBe(oldBlob);
+    expect(await fs.pathExists(oldBlob)).toBe(false);
+  });
+
+  test('should delete unreferenced blobs on cleanup', async () => {
+    await cache.add(TestUtils.createTestPackageInfo('one', '1.0.0'), packagePath);
+    const kept = (await cache.get('one', '1.0.0'))!.localPath;
+    const orphan = path.join(cacheDir, 'blobs', 'sha256', 'ff', 'f'.repeat(64));
+    await fs.outputFile(orphan, 'orphaned');
+
+    await cache.cleanup();
+
+    expect(await fs.pathExists(orphan)).toBe(false);
+    expect(await fs.pathExists(kept)).toBe(true);
+  });
+});
+
+describe('Cache verification', () => {
+  let cache: Cache;
+  let tempDir: string;
+  let cacheDir: string;
+  let packagePath: string;
+
+  beforeEach(async () => {
+    tempDir = await TestUtils.createTempDir('zembil-cache-verify');
+    cacheDir = path.join(tempDir, 'cache');
+    cache = new Cache(cacheDir);
+    await cache.initialize();
+    packagePath = await TestUtils.createTestPackage(tempDir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test('should report an intact cache as valid', async () => {
+    const integrity = `sha256-${crypto.createHash('sha256').update(await fs.readFile(packagePath)).digest('base64')}`;
+    await cache.add({ ...TestUtils.createTestPackageInfo('one', '1.0.0'), integrity }, packagePath);
+
+    const report = await cache.verify();
+
+    expect(report).toEqual({ checked: 1, valid: 1, issues: [] });
+  });
+
+  test('should find corrupt, missing and orphaned files', async () => {
+    await cache.add(TestUtils.createTestPackageInfo('corrupt', '1.0.0'), packagePath);
+    await fs.writeFile((await cache.get('corrupt', '1.0.0'))!.localPath, 'tampered');
+
+    const otherPath = await TestUtils.createTestPackage(tempDir, 'other.tgz');
+    await cache.add(TestUtils.createTestPackageInfo('missing', '1.0.0'), otherPath);
+    await fs.remove((await cache.get('missing', '1.0.0'))!.localPath);
+
+    const orphan = path.join(cacheDir, 'packages', 'orphan.tar.gz');
+    await fs.writeFile(orphan, 'orphaned');
+
+    const report = await cache.verify();
+
+    expect(report.valid).toBe(0);
+    expect(report.issues).toHaveLength(3);
+    expect(report.issues.map(issue => [issue.type, issue.name || issue.path])).toEqual(expect.arrayContaining([
+      ['checksum-mismatch', 'corrupt'],
+      ['missing-file', 'missing'],
+      ['orphaned-file', orphan]
+    ]));
+  });
+
+  test('should flag files that do not match upstream integrity data', async () => {
+    await cache.add({ ...TestUtils.createTestPackageInfo('one', '1.0.0'), integrity: IntegrityUtils.fromHex('sha1', '0'.repeat(40)) }, packagePath);
+
+    const report = await cache.verify();
+
+    expect(report.issues.map(issue => issue.type)).toEqual(['integrity-mismatch']);
+  });
+
+  test('should move quarantined files out of the blob store', async () => {
+    await cache.add(TestUtils.createTestPackageInfo('one', '1.0.0'), packagePath);
+    const blobPath = (await cache.get('one', '1.0.0'))!.localPath;
+
+    expect(await cache.quarantine('one', '1.0.0')).toBe(true);
+
+    expect(await cache.get('one', '1.0.0')).toBeNull();
+    expect(await fs.pathExists(blobPath)).toBe(false);
+    expect(await fs.readdir(path.join(cacheDir, 'quarantine'))).toHaveLength(1);
+  });
+});
+
+describe('Cache artifacts', () => {
+  let cache: Cache;
+  let tempDir: string;
+  let packagePath: string;
+  let wheelPath: string;
+
+  beforeEach(async () => {
+    tempDir = await TestUtils.createTempDir('zembil-cache-artifacts');
+    cache = new Cache(path.join(tempDir, 'cache'));
+    await cache.initialize();
+    packagePath = await TestUtils.createTestPackage(tempDir);
+    wheelPath = path.join(tempDir, 'demo-1.0.0-py3-none-win_amd64.whl');
+    await fs.writeFile(wheelPath, 'windows wheel');
+    await cache.add(TestUtils.createTestPackageInfo('demo', '1.0.0', 'pip'), packagePath);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test('should store artifacts alongside the primary file', async () => {
+    const artifact = await cache.addArtifact('demo', '1.0.0', {
+      type: 'wheel',
+      filename: path.basename(wheelPath),
+      platform: 'win_amd64',
+      path: wheelPath
+    });
+
+    const artifacts = await cache.getArtifacts('demo', '1.0.0');
+    expect(artifacts).toHaveLength(1);
+    expect(artifacts[0]).toMatchObject({ filename: path.basename(wheelPath), platform: 'win_amd64', type: 'wheel' });
+    expect(await cache.verifyChecksum(artifact)).toBe(true);
+    expect(await cache.getSize()).toBe((await cache.get('demo', '1.0.0'))!.size + artifact.size);
+    expect((await cache.verify()).checked).toBe(2);
+  });
+
+  test('should release artifact blobs when the package is removed', async () => {
+    const artifact = await cache.addArtifact('demo', '1.0.0', {
+      type: 'wheel',
+      filename: path.basename(wheelPath),
+      path: wheelPath
+    });
+
+    await cache.remove('demo', '1.0.0');
+
+    expect(await fs.pathExists(artifact.localPath)).toBe(false);
+    expect(await cache.getArtifacts('demo', '1.0.0')).toEqual([]);
+  });
+
+  test('should reject artifacts for packages that are not cached', async () => {
+    await expect(cache.addArtifact('missing', '1.0.0', {
+      type: 'wheel',
+      filename: path.basename(wheelPath),
+      path: wheelPath
+    })).rejects.toThrow('is not cached');
+  });
+});
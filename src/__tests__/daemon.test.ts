@@ -0,0 +1,127 @@
+import { Zembil } from '../zembil';
+import { Daemon } from '../core/daemon';
+import { SyncResult } from '../types';
+import { TestUtils } from './test-utils';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+describe('Daemon', () => {
+  let tempDir: string;
+  let zembil: Zembil;
+  let sync: jest.SpyInstance<Promise<SyncResult>>;
+  let connected: boolean;
+  let daemon: Daemon;
+  let running: Promise<void> | undefined;
+
+  const waitFor = async (condition: () => boolean | Promise<boolean>) => {
+    for (let i = 0; i < 200 && !await condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(await condition()).toBe(true);
+  };
+  const stateIs = (state: string) => async () => (await Daemon.getStatus(tempDir)).state === state;
+
+  beforeEach(async () => {
+    tempDir = await TestUtils.createTempDir('zembil-daemon');
+    zembil = new Zembil(tempDir);
+    await zembil.initialize();
+    sync = jest.spyOn(zembil, 'sync').mockResolvedValue({
+      success: true, downloaded: 2, skipped: 1, failed: 0, errors: [], totalSize: 0, bytesUsed: 2048, deferred: 0
+    });
+
+    connected = false;
+    daemon = new Daemon(zembil, { checkInterval: 5, isConnected: async () => connected });
+    running = undefined;
+  });
+
+  afterEach(async () => {
+    daemon.stop();
+    await running;
+    await fs.remove(tempDir);
+  });
+
+  test('should sync as soon as the network comes up and report its status', async () => {
+    running = daemon.run();
+    await waitFor(stateIs('offline'));
+    expect(sync).not.toHaveBeenCalled();
+
+    connected = true;
+    await waitFor(() => sync.mock.calls.length === 1);
+    await waitFor(stateIs('waiting'));
+    const status = await Daemon.getStatus(tempDir);
+    expect(status).toMatchObject({
+      running: true,
+      pid: process.pid,
+      online: true,
+      syncs: 1,
+      lastResult: { downloaded: 2, skipped: 1, failed: 0, bytesUsed: 2048 }
+    });
+    expect(status.nextSyncAt!.getTime() - status.lastSyncAt!.getTime()).toBe(60 * 60 * 1000);
+
+    daemon.stop();
+    await running;
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(await Daemon.getStatus(tempDir)).toMatchObject({ running: false, state: 'stopped' });
+    expect(await fs.pathExists(path.join(tempDir, 'daemon.pid'))).toBe(false);
+
+    const log = await fs.readFile(path.join(tempDir, 'daemon.log'), 'utf8');
+    expect(log).toContain('Network is down');
+    expect(log).toContain('Sync finished: 2 downloaded, 1 already cached, 0 failed, 2048 bytes used');
+  });
+
+  test('should sync again when the network returns and on every interval', async () => {
+    connected = true;
+    running = daemon.run();
+    await waitFor(() => sync.mock.calls.length === 1);
+
+    connected = false;
+    await waitFor(stateIs('offline'));
+    connected = true;
+    await waitFor(() => sync.mock.calls.length === 2);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(sync).toHaveBeenCalledTimes(2);
+
+    daemon.stop();
+    await running;
+
+    await zembil.setSyncInterval(0);
+    daemon = new Daemon(zembil, { checkInterval: 5, isConnected: async () => true });
+    running = daemon.run();
+    await waitFor(() => sync.mock.calls.length >= 5);
+  });
+
+  test('should ignore a pid file left by a process that is gone', async () => {
+    await fs.writeFile(path.join(tempDir, 'daemon.pid'), '999999');
+    expect((await Daemon.getStatus(tempDir)).running).toBe(false);
+
+    running = daemon.run();
+    await waitFor(async () => (await Daemon.getStatus(tempDir)).pid === process.pid);
+  });
+
+  test('should not take a live process without a recent heartbeat for the daemon', async () => {
+    // The pid was reused after a crash: the process is alive, but the status is from long ago
+    await fs.writeFile(path.join(tempDir, 'daemon.pid'), String(process.pid));
+    await fs.writeJson(path.join(tempDir, 'daemon.json'), {
+      running: true, pid: process.pid, state: 'syncing', heartbeatAt: new Date(Date.now() - 60 * 60 * 1000)
+    });
+    const kill = jest.spyOn(process, 'kill');
+
+    expect(await Daemon.getStatus(tempDir)).toMatchObject({ running: false, state: 'stopped' });
+    expect(await Daemon.stop(tempDir)).toEqual({ stopped: true });
+    expect(kill).not.toHaveBeenCalledWith(process.pid, 'SIGTERM');
+    kill.mockRestore();
+  });
+
+  test('should rotate the log while running', async () => {
+    const logPath = path.join(tempDir, 'daemon.log');
+    running = daemon.run();
+    await waitFor(stateIs('offline'));
+
+    await fs.appendFile(logPath, 'x'.repeat(1024 * 1024 + 1));
+    connected = true;
+    await waitFor(() => sync.mock.calls.length === 1);
+
+    expect((await fs.stat(`${logPath}.1`)).size).toBeGreaterThan(1024 * 1024);
+    expect((await fs.stat(logPath)).size).toBeLessThan(1024);
+  });
+});
@@ -0,0 +1,76 @@
+import { Database } from '../core/database';
+import { MIGRATIONS } from '../core/migrations';
+import { TestUtils } from './test-utils';
+import * as sqlite3 from 'sqlite3';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+describe('Database migrations', () => {
+  let tempDir: string;
+  let dbPath: string;
+  let database: Database;
+
+  const latestVersion = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+  beforeEach(async () => {
+    tempDir = await TestUtils.createTempDir('zembil-database');
+    dbPath = path.join(tempDir, 'cache.db');
+  });
+
+  afterEach(async () => {
+    database?.close();
+    await fs.remove(tempDir);
+  });
+
+  test('should apply all migrations to a new database', async () => {
+    database = new Database(dbPath);
+    await database.initialize();
+
+    const status = await database.getMigrationStatus();
+    expect(status.currentVersion).toBe(latestVersion);
+    expect(status.applied.map(migration => migration.version)).toEqual(MIGRATIONS.map(migration => migration.version));
+    expect(status.pending).toEqual([]);
+  });
+
+  test('should upgrade an unversioned cache and back it up first', async () => {
+    const legacy = new sqlite3.Database(dbPath);
+    await new Promise<void>((resolve, reject) => {
+      legacy.exec(`
+        CREATE TABLE packages (
+          id TEXT PRIMARY KEY, name TEXT NOT NULL, version TEXT NOT NULL, manager TEXT NOT NULL,
+          description TEXT, homepage TEXT, repository TEXT, license TEXT, dependencies TEXT,
+          devDependencies TEXT, peerDependencies TEXT, cachedAt TEXT NOT NULL, size INTEGER NOT NULL,
+          checksum TEXT NOT NULL, localPath TEXT NOT NULL, documentationPath TEXT, examplesPath TEXT,
+          UNIQUE(name, version)
+        );
+        INSERT INTO packages (id, name, version, manager, cachedAt, size, checksum, localPath)
+        VALUES ('abc', 'lodash', '4.17.21', 'npm', '2024-01-01T00:00:00.000Z', 10, 'hash', '/tmp/lodash');
+      `, (err) => (err ? reject(err) : resolve()));
+    });
+    await new Promise<void>(resolve => legacy.close(() => resolve()));
+
+    database = new Database(dbPath);
+    expect((await database.getMigrationStatus()).pending).toHaveLength(MIGRATIONS.length);
+
+    await database.initialize();
+
+    const cached = await database.getPackage('lodash', '4.17.21');
+    expect(cached?.hitCount).toBe(0);
+    expect(cached?.pinned).toBe(false);
+    expect((await database.getMigrationStatus()).currentVersion).toBe(latestVersion);
+
+    const backups = (await fs.readdir(tempDir)).filter(file => file.endsWith('.bak'));
+    expect(backups).toHaveLength(1);
+  });
+
+  test('should not back up or migrate an up-to-date database again', async () => {
+    database = new Database(dbPath);
+    await database.initialize();
+    database.close();
+
+    database = new Database(dbPath);
+    await database.initialize();
+
+    expect((await fs.readdir(tempDir)).filter(file => file.endsWith('.bak'))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,222 @@
+import { LockfileParser } from '../lockfiles';
+import { Cache } from '../core/cache';
+import { Queue } from '../core/queue';
+import { TestUtils } from './test-utils';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+describe('LockfileParser', () => {
+  let tempDir: string;
+
+  const parse = async (filename: string, content: string) => {
+    const filePath = path.join(tempDir, filename);
+    await fs.outputFile(filePath, content);
+    const { entries } = await LockfileParser.parse(filePath);
+    return entries.map(entry => `${entry.name}@${entry.version}${entry.dev ? ' (dev)' : ''}${entry.unpinned ? ' (unpinned)' : ''}`);
+  };
+
+  beforeEach(async () => {
+    tempDir = await TestUtils.createTempDir('zembil-lockfiles');
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test('should read package-lock.json v3 and v1', async () => {
+    expect(await parse('package-lock.json', JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', version: '1.0.0' },
+        'node_modules/express': { version: '4.18.2' },
+        'node_modules/express/node_modules/debug': { version: '2.6.9' },
+        'node_modules/jest': { version: '29.7.0', dev: true },
+        'node_modules/local': { link: true },
+        'node_modules/fork': { version: 'git+https://github.com/user/fork.git' }
+      }
+    }))).toEqual(['express@4.18.2', 'debug@2.6.9', 'jest@29.7.0 (dev)']);
+
+    expect(await parse('npm-shrinkwrap.json', JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: {
+        lodash: { version: '4.17.21' },
+        alias: { version: 'npm:underscore@1.13.6', dependencies: { nested: { version: '1.0.0', dev: true } } }
+      }
+    }))).toEqual(['lodash@4.17.21', 'underscore@1.13.6', 'nested@1.0.0 (dev)']);
+  });
+
+  test('should read yarn.lock v1 and berry', async () => {
+    expect(await parse('yarn.lock', [
+      '# yarn lockfile v1',
+      '',
+      '"@babel/core@^7.0.0", "@babel/core@^7.1.0":',
+      '  version "7.23.0"',
+      '  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.23.0.tgz"',
+      '',
+      'lodash@^4.17.21:',
+      '  version "4.17.21"'
+    ].join('\n'))).toEqual(['@babel/core@7.23.0', 'lodash@4.17.21']);
+
+    expect(await parse('yarn.lock', [
+      '__metadata:',
+      '  version: 8',
+      '',
+      '"app@workspace:.":',
+      '  version: 0.0.0-use.local',
+      '',
+      '"react@npm:^18.2.0":',
+      '  version: 18.2.0'
+    ].join('\n'))).toEqual(['react@18.2.0']);
+  });
+
+  test('should read pnpm-lock.yaml v5 and v9 keys', async () => {
+    expect(await parse('pnpm-lock.yaml', [
+      'lockfileVersion: 5.4',
+      'packages:',
+      '  /@types/node/20.8.0:',
+      '    dev: true',
+      '  /react-dom/18.2.0_react@18.2.0:',
+      '    dev: false'
+    ].join('\n'))).toEqual(['@types/node@20.8.0 (dev)', 'react-dom@18.2.0']);
+
+    expect(await parse('pnpm-lock.yaml', [
+      "lockfileVersion: '9.0'",
+      'importers:',
+      '  .:',
+      '    dependencies: {}',
+      'packages:',
+      "  '@babel/core@7.23.0(supports-color@8.1.1)':",
+      '    resolution: {integrity: sha512-abc}',
+      '  lodash@4.17.21:',
+      '    resolution: {integrity: sha512-def}',
+      'snapshots:',
+      '  lodash@4.17.21: {}'
+    ].join('\n'))).toEqual(['@babel/core@7.23.0', 'lodash@4.17.21']);
+  });
+
+  test('should read requirements.txt with includes, hashes and unpinned lines', async () => {
+    await fs.outputFile(path.join(tempDir, 'base.txt'), 'six==1.16.0\n');
+    expect(await parse('requirements-dev.txt', [
+      '-r base.txt',
+      '--index-url https://pypi.org/simple',
+      'requests[socks]==2.31.0 ; python_version >= "3.8" \\',
+      '    --hash=sha256:abc',
+      'flask>=2.0  # web',
+      '-e git+https://github.com/user/repo.git#egg=repo'
+    ].join('\n'))).toEqual(['six@1.16.0', 'requests@2.31.0', 'flask@>=2.0 (unpinned)']);
+  });
+
+  test('should read poetry.lock and Pipfile.lock', async () => {
+    expect(await parse('poetry.lock', [
+      '[[package]]',
+      'name = "requests"',
+      'version = "2.31.0"',
+      'category = "main"',
+      '',
+      '[package.dependencies]',
+      'certifi = ">=2017.4.17"',
+      '',
+      '[[package]]',
+      'name = "pytest"',
+      'version = "7.4.2"',
+      'category = "dev"',
+      '',
+      '[[package]]',
+      'name = "local-lib"',
+      'version = "0.1.0"',
+      '',
+      '[package.source]',
+      'type = "directory"',
+      'url = "../local-lib"'
+    ].join('\n'))).toEqual(['requests@2.31.0', 'pytest@7.4.2 (dev)']);
+
+    expect(await parse('Pipfile.lock', JSON.stringify({
+      _meta: {},
+      default: { django: { version: '==4.2.5' }, repo: { git: 'https://github.com/user/repo.git' } },
+      develop: { black: { version: '==23.9.1' } }
+    }))).toEqual(['django@4.2.5', 'black@23.9.1 (dev)']);
+  });
+
+  test('should read pom.xml dependencies, properties and managed versions', async () => {
+    expect(await parse('pom.xml', `
+      <project>
+        <groupId>com.example</groupId>
+        <artifactId>app</artifactId>
+        <version>1.0.0</version>
+        <properties><slf4j.version>2.0.9</slf4j.version></properties>
+        <dependencyManagement>
+          <dependencies>
+            <dependency><groupId>com.google.guava</groupId><artifactId>guava</artifactId><version>32.1.2-jre</version></dependency>
+          </dependencies>
+        </dependencyManagement>
+        <dependencies>
+          <dependency><groupId>org.slf4j</groupId><artifactId>slf4j-api</artifactId><version>\${slf4j.version}</version></dependency>
+          <dependency><groupId>com.google.guava</groupId><artifactId>guava</artifactId></dependency>
+          <dependency><groupId>com.example</groupId><artifactId>core</artifactId><version>\${project.version}</version></dependency>
+          <dependency><groupId>junit</groupId><artifactId>junit</artifactId><version>4.13.2</version><scope>test</scope></dependency>
+          <dependency><groupId>org.ranged</groupId><artifactId>lib</artifactId><version>[1.0,2.0)</version></dependency>
+          <dependency><groupId>org.optional</groupId><artifactId>lib</artifactId><version>1.0</version><optional>true</optional></dependency>
+        </dependencies>
+      </project>
+    `)).toEqual([
+      'org.slf4j:slf4j-api@2.0.9',
+      'com.google.guava:guava@32.1.2-jre',
+      'com.example:core@1.0.0',
+      'org.ranged:lib@[1.0,2.0) (unpinned)',
+      'junit:junit@4.13.2 (dev)'
+    ]);
+  });
+
+  test('should reject unknown files', async () => {
+    await expect(parse('Gemfile.lock', '')).rejects.toThrow('Unsupported lockfile: Gemfile.lock');
+  });
+});
+
+describe('Queue lockfile import', () => {
+  let tempDir: string;
+  let cache: Cache;
+  let queue: Queue;
+  let lockfile: string;
+
+  beforeEach(async () => {
+    tempDir = await TestUtils.createTempDir('zembil-import');
+    const cacheDir = path.join(tempDir, 'cache');
+    cache = new Cache(cacheDir);
+    await cache.initialize();
+    queue = new Queue(cacheDir, cache);
+    await queue.initialize();
+
+    lockfile = path.join(tempDir, 'Pipfile.lock');
+    await fs.writeJson(lockfile, {
+      default: { django: { version: '==4.2.5' }, requests: { version: '==2.31.0' } },
+      develop: { black: { version: '==23.9.1' } }
+    });
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test('should queue pinned packages and skip cached, queued and dev ones', async () => {
+    const packagePath = await TestUtils.createTestPackage(tempDir);
+    await cache.add(TestUtils.createTestPackageInfo('django', '4.2.5', 'pip'), packagePath);
+
+    const first = await queue.importLockfile(lockfile, { includeDev: false });
+    expect(first.format).toBe('Pipfile.lock');
+    expect(first.queued.map(entry => entry.name)).toEqual(['requests']);
+    expect(first.skipped.map(({ entry, reason }) => `${entry.name}: ${reason}`)).toEqual([
+      'django: already cached',
+      'black: dev dependency'
+    ]);
+
+    const second = await queue.importLockfile(lockfile);
+    expect(second.queued.map(entry => entry.name)).toEqual(['black']);
+    expect(second.skipped.map(({ reason }) => reason)).toContain('already queued');
+
+    const items = await queue.list();
+    expect(items.map(item => `${item.manager}:${item.packageName}@${item.version}`).sort()).toEqual([
+      'pip:black@23.9.1',
+      'pip:requests@2.31.0'
+    ]);
+  });
+});
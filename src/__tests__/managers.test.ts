@@ -0,0 +1,581 @@
+import fetch from 'node-fetch';
+import * as crypto from 'crypto';
+import * as tar from 'tar';
+import archiver from 'archiver';
+import { CargoManager } from '../managers/cargo';
+import { GoManager } from '../managers/go';
+import { ComposerManager } from '../managers/composer';
+import { NpmManager } from '../managers/npm';
+import { PipManager } from '../managers/pip';
+import { MavenManager } from '../managers/maven';
+import { PackageManagerFactory } from '../managers';
+import { PluginLoader } from '../managers/plugins';
+import { VersionSchemeFactory, MavenScheme } from '../versions';
+import { NetworkUtils } from '../utils/network';
+import { IntegrityUtils } from '../utils/integrity';
+import { RegistryUtils } from '../utils/registries';
+import { TestUtils } from './test-utils';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+jest.mock('node-fetch', () => {
+  const mock = jest.fn();
+  return Object.assign(mock, { __esModule: true, default: mock });
+});
+
+const mockFetch = fetch as unknown as jest.Mock;
+
+/**
+ * Answers fetch calls from a map of URL to body; other URLs get a 404.
+ */
+function serve(routes: Record<string, string | object>, headers: Record<string, Record<string, string>> = {}): void {
+  mockFetch.mockImplementation(async (url: string) => {
+    const body = routes[url];
+    return {
+      ok: body !== undefined,
+      status: body !== undefined ? 200 : 404,
+      statusText: body !== undefined ? 'OK' : 'Not Found',
+      url,
+      headers: { get: (name: string) => headers[url]?.[name.toLowerCase()] ?? null },
+      text: async () => (typeof body === 'string' ? body : JSON.stringify(body)),
+      json: async () => (typeof body === 'string' ? JSON.parse(body) : body)
+    };
+  });
+}
+
+/**
+ * Writes a zip with the given entries.
+ */
+function createZip(zipPath: string, entries: Record<string, string>): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const archive = archiver('zip');
+    const output = fs.createWriteStream(zipPath);
+    output.on('close', () => resolve());
+    archive.on('error', reject);
+    archive.pipe(output);
+    for (const [name, content] of Object.entries(entries)) {
+      archive.append(content, { name });
+    }
+    archive.finalize();
+  });
+}
+
+describe('CargoManager', () => {
+  const cksum = 'ab'.repeat(32);
+  const index = [
+    { name: 'demo', vers: '0.9.0', deps: [], cksum, features: {}, yanked: true },
+    {
+      name: 'demo',
+      vers: '1.0.0',
+      deps: [
+        { name: 'serde', req: '^1.0', features: [], optional: false, default_features: true, target: null, kind: 'normal' },
+        { name: 'rand', req: '0.8', features: [], optional: true, default_features: true, target: null, kind: 'normal' },
+        { name: 'log', req: '0.4', features: [], optional: true, default_features: true, target: null, kind: 'normal' },
+        { name: 'cc', req: '1.0', features: [], optional: false, default_features: true, target: null, kind: 'build' },
+        { name: 'tokio', req: '1', features: [], optional: false, default_features: true, target: null, kind: 'dev' },
+        { name: 'fut', package: 'futures', req: '0.3', features: [], optional: false, default_features: true, target: 'cfg(unix)', kind: 'normal' },
+        { name: 'internal', req: '2', features: [], optional: false, default_features: true, target: null, kind: 'normal', registry: 'https://git.example/index' }
+      ],
+      cksum,
+      features: { default: ['std'], logging: ['dep:log'] },
+      features2: { std: ['dep:rand', 'serde?/std'] },
+      yanked: false
+    }
+  ].map(entry => JSON.stringify(entry)).join('\n');
+
+  let manager: CargoManager;
+
+  beforeEach(() => {
+    manager = new CargoManager();
+    serve({
+      'https://index.crates.io/de/mo/demo': index,
+      'https://crates.io/api/v1/crates/demo/1.0.0': { version: { license: 'MIT OR Apache-2.0', crate_size: 1234, description: 'A demo crate' } },
+      'https://index.crates.io/config.json': { dl: 'https://static.crates.io/crates', api: 'https://crates.io' }
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockFetch.mockReset();
+  });
+
+  test('should read versions, dependencies and features from the sparse index', async () => {
+    expect(await manager.listVersions('demo')).toEqual(['1.0.0']);
+
+    const info = await manager.getPackageInfo('demo', '1.0.0');
+    expect(info).toMatchObject({
+      name: 'demo',
+      version: '1.0.0',
+      manager: 'cargo',
+      license: 'MIT OR Apache-2.0',
+      description: 'A demo crate',
+      size: 1234,
+      integrity: IntegrityUtils.fromHex('sha256', cksum),
+      features: { default: ['std'], logging: ['dep:log'], std: ['dep:rand', 'serde?/std'] }
+    });
+    // rand is enabled by the default feature, log is not; the other registry's crate is left out
+    expect(info.dependencies).toEqual({ serde: '^1.0', rand: '0.8', cc: '1.0', futures: '0.3' });
+    expect(info.devDependencies).toEqual({ tokio: '1' });
+    expect(info.yanked).toBeUndefined();
+
+    expect((await manager.getPackageInfo('demo', '0.9.0')).yanked).toBe(true);
+    await expect(manager.getPackageInfo('demo', '2.0.0')).rejects.toThrow('Package not found: demo@2.0.0');
+  });
+
+  test('should build download URLs from the index configuration', async () => {
+    const download = jest.spyOn(NetworkUtils, 'downloadToFile').mockImplementation(async (_url, filePath) => filePath);
+
+    expect(await manager.downloadPackage('demo', '1.0.0', { tempDir: '/tmp/zembil' })).toBe(path.join('/tmp/zembil', 'demo-1.0.0.crate'));
+    expect(download.mock.calls[0][0]).toBe('https://static.crates.io/crates/demo/1.0.0/download');
+
+    serve({
+      'https://index.crates.io/de/mo/demo': index,
+      'https://index.crates.io/config.json': { dl: 'https://mirror.example/{lowerprefix}/{crate}/{crate}-{version}.crate?sum={sha256-checksum}' }
+    });
+    await new CargoManager().downloadPackage('demo', '1.0.0');
+    expect(download.mock.calls[1][0]).toBe(`https://mirror.example/de/mo/demo/demo-1.0.0.crate?sum=${cksum}`);
+  });
+
+  test('should install crates as vendored sources with checksums', async () => {
+    const tempDir = await TestUtils.createTempDir('zembil-cargo');
+    try {
+      await fs.outputFile(path.join(tempDir, 'src', 'demo-1.0.0', 'Cargo.toml'), '[package]\nname = "demo"\n');
+      await fs.outputFile(path.join(tempDir, 'src', 'demo-1.0.0', 'src', 'lib.rs'), 'pub fn demo() {}\n');
+      const cratePath = path.join(tempDir, 'demo-1.0.0.crate');
+      await tar.create({ gzip: true, file: cratePath, cwd: path.join(tempDir, 'src') }, ['demo-1.0.0']);
+
+      const project = path.join(tempDir, 'project');
+      await manager.installFromFile(cratePath, 'demo', '1.0.0', project);
+
+      const crateDir = path.join(project, 'vendor', 'demo-1.0.0');
+      const sha256 = (content: string | Buffer) => crypto.createHash('sha256').update(content).digest('hex');
+      expect(await fs.readJson(path.join(crateDir, '.cargo-checksum.json'))).toEqual({
+        files: {
+          'Cargo.toml': sha256('[package]\nname = "demo"\n'),
+          'src/lib.rs': sha256('pub fn demo() {}\n')
+        },
+        package: sha256(await fs.readFile(cratePath))
+      });
+      const config = await fs.readFile(path.join(project, '.cargo', 'config.toml'), 'utf8');
+      expect(config).toContain('replace-with = "vendored-sources"');
+      expect(config).toContain('directory = "vendor"');
+
+      // A project that configures Cargo itself keeps its configuration
+      await fs.outputFile(path.join(project, '.cargo', 'config.toml'), '# custom\n');
+      await manager.installFromFile(cratePath, 'demo', '1.0.0', project);
+      expect(await fs.readFile(path.join(project, '.cargo', 'config.toml'), 'utf8')).toBe('# custom\n');
+    } finally {
+      await fs.remove(tempDir);
+    }
+  });
+});
+
+describe('GoManager', () => {
+  const proxy = 'https://proxy.example';
+  const goMod = [
+    'module github.com/Demo/lib',
+    '',
+    'go 1.21',
+    '',
+    'require golang.org/x/text v0.14.0',
+    '',
+    'require (',
+    '\tgithub.com/BurntSushi/toml v1.3.2 // indirect',
+    '\t"example.com/quoted" v0.0.0-20191109021931-daa7c04131f5',
+    ')',
+    '',
+    'replace golang.org/x/text => ../text',
+    ''
+  ].join('\n');
+
+  let manager: GoManager;
+
+  beforeEach(() => {
+    manager = new GoManager(`${proxy}/`);
+    serve({
+      [`${proxy}/github.com/!demo/lib/@v/list`]: 'v1.1.0\nv1.0.0\nv1.2.0-rc.1\n',
+      [`${proxy}/github.com/!demo/lib/@latest`]: { Version: 'v1.1.0' },
+      [`${proxy}/github.com/!demo/lib/@v/v1.1.0.info`]: { Version: 'v1.1.0', Time: '2024-01-02T03:04:05Z', Origin: { VCS: 'git', URL: 'https://github.com/Demo/lib' } },
+      [`${proxy}/github.com/!demo/lib/@v/v1.1.0.mod`]: goMod
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockFetch.mockReset();
+  });
+
+  test('should read versions and go.mod requirements from the proxy', async () => {
+    expect(await manager.listVersions('github.com/Demo/lib')).toEqual(['v1.0.0', 'v1.1.0', 'v1.2.0-rc.1']);
+    expect(await manager.getDistTags('github.com/Demo/lib')).toEqual({ latest: 'v1.1.0' });
+
+    const info = await manager.getPackageInfo('github.com/Demo/lib', 'v1.1.0');
+    expect(info).toEqual({
+      name: 'github.com/Demo/lib',
+      version: 'v1.1.0',
+      manager: 'go',
+      repository: 'https://github.com/Demo/lib',
+      dependencies: {
+        'golang.org/x/text': 'v0.14.0',
+        'github.com/BurntSushi/toml': 'v1.3.2',
+        'example.com/quoted': 'v0.0.0-20191109021931-daa7c04131f5'
+      }
+    });
+    await expect(manager.getPackageInfo('github.com/Demo/lib', 'v9.0.0')).rejects.toThrow('Package not found: github.com/Demo/lib@v9.0.0');
+  });
+
+  test('should download the zip, .info and .mod files from escaped paths', async () => {
+    const download = jest.spyOn(NetworkUtils, 'downloadToFile').mockImplementation(async (_url, filePath) => filePath);
+
+    expect(await manager.downloadPackage('github.com/Demo/lib', 'v1.1.0', { tempDir: '/tmp/zembil' }))
+      .toBe(path.join('/tmp/zembil', 'github.com_Demo_lib@v1.1.0.zip'));
+    expect(download.mock.calls[0][0]).toBe(`${proxy}/github.com/!demo/lib/@v/v1.1.0.zip`);
+
+    const artifacts = await manager.downloadArtifacts('github.com/Demo/lib', 'v1.1.0', manager.defaultArtifacts, { tempDir: '/tmp/zembil' });
+    expect(artifacts).toEqual([
+      { type: 'info', filename: 'v1.1.0.info', path: path.join('/tmp/zembil', 'artifacts', 'github.com_Demo_lib@v1.1.0.info') },
+      { type: 'mod', filename: 'v1.1.0.mod', path: path.join('/tmp/zembil', 'artifacts', 'github.com_Demo_lib@v1.1.0.mod') }
+    ]);
+    expect(download.mock.calls.slice(1).map(call => call[0])).toEqual([
+      `${proxy}/github.com/!demo/lib/@v/v1.1.0.info`,
+      `${proxy}/github.com/!demo/lib/@v/v1.1.0.mod`
+    ]);
+  });
+
+  test('should install modules as a GOMODCACHE download tree', async () => {
+    const tempDir = await TestUtils.createTempDir('zembil-go');
+    try {
+      const zipPath = path.join(tempDir, 'lib.zip');
+      await createZip(zipPath, {
+        'github.com/Demo/lib@v1.1.0/go.mod': goMod,
+        'github.com/Demo/lib@v1.1.0/lib.go': 'package lib\n'
+      });
+
+      const project = path.join(tempDir, 'project');
+      const versionDir = path.join(project, 'go', 'pkg', 'mod', 'cache', 'download', 'github.com', '!demo', 'lib', '@v');
+
+      // Without cached artifacts the .mod file comes from the zip
+      await manager.installFromFile(zipPath, 'github.com/Demo/lib', 'v1.1.0', project);
+      expect(await fs.readFile(path.join(versionDir, 'v1.1.0.mod'), 'utf8')).toBe(goMod);
+      expect(await fs.readJson(path.join(versionDir, 'v1.1.0.info'))).toEqual({ Version: 'v1.1.0' });
+      expect(await fs.readFile(path.join(versionDir, 'v1.1.0.zip'))).toEqual(await fs.readFile(zipPath));
+
+      const infoPath = path.join(tempDir, 'v1.0.0.info');
+      await fs.writeJson(infoPath, { Version: 'v1.0.0', Time: '2023-01-01T00:00:00Z' });
+      const artifact = { id: 'a', packageId: 'p', type: 'info', filename: 'v1.0.0.info', size: 0, checksum: '', localPath: infoPath };
+      await manager.installArtifacts(zipPath, [artifact], 'github.com/Demo/lib', 'v1.0.0', project);
+      expect(await fs.readJson(path.join(versionDir, 'v1.0.0.info'))).toEqual({ Version: 'v1.0.0', Time: '2023-01-01T00:00:00Z' });
+
+      // Pseudo-versions are cached but not listed
+      await manager.installFromFile(zipPath, 'github.com/Demo/lib', 'v0.0.0-20191109021931-daa7c04131f5', project);
+      expect(await fs.readFile(path.join(versionDir, 'list'), 'utf8')).toBe('v1.0.0\nv1.1.0\n');
+    } finally {
+      await fs.remove(tempDir);
+    }
+  });
+});
+
+describe('ComposerManager', () => {
+  const shasum = 'cd'.repeat(20);
+  const metadata = {
+    minified: 'composer/2.0',
+    packages: {
+      'acme/log': [
+        {
+          name: 'acme/log',
+          version: 'v2.0.0',
+          description: 'Logging for PHP',
+          license: ['MIT'],
+          source: { type: 'git', url: 'https://github.com/acme/log.git', reference: 'abc' },
+          dist: { type: 'zip', url: 'https://api.github.com/repos/acme/log/zipball/abc', reference: 'abc', shasum },
+          require: { php: '>=8.1', 'ext-json': '*', 'psr/log': '^3.0' },
+          'require-dev': { 'phpunit/phpunit': '^10.0' }
+        },
+        {
+          version: 'v1.5.0',
+          dist: { type: 'zip', url: 'https://api.github.com/repos/acme/log/zipball/def', reference: 'def', shasum: '' },
+          require: { php: '>=7.4', 'psr/log': '^1.0 || ^2.0' },
+          'require-dev': '__unset'
+        }
+      ]
+    }
+  };
+
+  let manager: ComposerManager;
+
+  beforeEach(() => {
+    manager = new ComposerManager();
+    serve({ 'https://repo.packagist.org/p2/acme/log.json': metadata });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockFetch.mockReset();
+  });
+
+  test('should expand minified p2 metadata and leave out platform requirements', async () => {
+    expect(await manager.listVersions('acme/log')).toEqual(['v1.5.0', 'v2.0.0']);
+
+    expect(await manager.getPackageInfo('acme/log', 'v2.0.0')).toEqual({
+      name: 'acme/log',
+      version: 'v2.0.0',
+      manager: 'composer',
+      description: 'Logging for PHP',
+      homepage: undefined,
+      repository: 'https://github.com/acme/log.git',
+      license: 'MIT',
+      dependencies: { 'psr/log': '^3.0' },
+      devDependencies: { 'phpunit/phpunit': '^10.0' },
+      integrity: IntegrityUtils.fromHex('sha1', shasum)
+    });
+
+    // Fields carry over from the previous version unless they are replaced or unset
+    const older = await manager.getPackageInfo('acme/log', 'v1.5.0');
+    expect(older).toMatchObject({ description: 'Logging for PHP', dependencies: { 'psr/log': '^1.0 || ^2.0' }, integrity: undefined });
+    expect(older.devDependencies).toBeUndefined();
+
+    const download = jest.spyOn(NetworkUtils, 'downloadToFile').mockImplementation(async (_url, filePath) => filePath);
+    expect(await manager.downloadPackage('acme/log', 'v1.5.0', { tempDir: '/tmp/zembil' })).toBe(path.join('/tmp/zembil', 'acme-log-v1.5.0.zip'));
+    expect(download.mock.calls[0][0]).toBe('https://api.github.com/repos/acme/log/zipball/def');
+    await expect(manager.getPackageInfo('acme/log', 'v3.0.0')).rejects.toThrow('Package not found: acme/log@v3.0.0');
+  });
+
+  test('should install into vendor/ and record the package in installed.json', async () => {
+    const tempDir = await TestUtils.createTempDir('zembil-composer');
+    try {
+      const composerJson = { name: 'acme/log', type: 'library', autoload: { 'psr-4': { 'Acme\\Log\\': 'src/' } } };
+      const zipPath = path.join(tempDir, 'log.zip');
+      await createZip(zipPath, {
+        'acme-log-abc/composer.json': JSON.stringify(composerJson),
+        'acme-log-abc/src/Logger.php': '<?php\n'
+      });
+      const otherZip = path.join(tempDir, 'other.zip');
+      await createZip(otherZip, { 'composer.json': JSON.stringify({ name: 'psr/log' }) });
+
+      const project = path.join(tempDir, 'project');
+      await manager.installFromFile(zipPath, 'acme/log', 'v2.0.0', project);
+      await manager.installFromFile(otherZip, 'psr/log', '3.0.0', project);
+      await manager.installFromFile(zipPath, 'acme/log', 'v2.0.0', project);
+
+      expect(await fs.readFile(path.join(project, 'vendor', 'acme', 'log', 'src', 'Logger.php'), 'utf8')).toBe('<?php\n');
+      expect(await fs.pathExists(path.join(project, 'vendor', 'psr', 'log', 'composer.json'))).toBe(true);
+      expect(await fs.readJson(path.join(project, 'vendor', 'composer', 'installed.json'))).toEqual({
+        packages: [
+          { ...composerJson, version: 'v2.0.0', version_normalized: '2.0.0.0', 'install-path': '../acme/log' },
+          { name: 'psr/log', version: '3.0.0', version_normalized: '3.0.0.0', 'install-path': '../psr/log' }
+        ],
+        dev: true,
+        'dev-package-names': []
+      });
+      expect((await fs.readdir(path.join(project, 'vendor'))).sort()).toEqual(['acme', 'composer', 'psr']);
+    } finally {
+      await fs.remove(tempDir);
+    }
+  });
+});
+
+describe('NpmManager', () => {
+  afterEach(() => {
+    mockFetch.mockReset();
+  });
+
+  test('should read dist-tags from the packument it lists versions from', async () => {
+    const manager = new NpmManager();
+    serve({
+      'https://registry.npmjs.org/@corp/ui': {
+        name: '@corp/ui',
+        'dist-tags': { latest: '1.0.0', next: '2.0.0-rc.1' },
+        versions: { '1.0.0': {}, '2.0.0-rc.1': {} }
+      }
+    });
+
+    expect(await manager.listVersions('@corp/ui')).toEqual(['1.0.0', '2.0.0-rc.1']);
+    expect(await manager.getDistTags('@corp/ui')).toEqual({ latest: '1.0.0', next: '2.0.0-rc.1' });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should size packages by their tarball, not their unpacked size', async () => {
+    const manager = new NpmManager();
+    const tarball = 'https://registry.npmjs.org/left-pad/-/left-pad-1.3.0.tgz';
+    serve({
+      'https://registry.npmjs.org/left-pad/1.3.0': { name: 'left-pad', version: '1.3.0', dist: { tarball, unpackedSize: 50000 } },
+      [tarball]: ''
+    }, { [tarball]: { 'content-length': '5200' } });
+
+    expect((await manager.getPackageInfo('left-pad', '1.3.0')).size).toBe(5200);
+    expect(mockFetch).toHaveBeenCalledWith(tarball, expect.objectContaining({ method: 'HEAD' }));
+
+    // Without a Content-Length the size is unknown and the data budget meters the download
+    serve({ 'https://registry.npmjs.org/left-pad/1.3.0': { name: 'left-pad', version: '1.3.0', dist: { tarball, unpackedSize: 50000 } }, [tarball]: '' });
+    expect((await manager.getPackageInfo('left-pad', '1.3.0')).size).toBeUndefined();
+  });
+});
+
+describe('Configured registries', () => {
+  const headersFor = (url: string) => mockFetch.mock.calls.find(([called]) => called === url)?.[1]?.headers;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockFetch.mockReset();
+  });
+
+  test('npm should fetch scoped packages from their registry with its token', async () => {
+    const manager = new NpmManager({ scopes: { '@corp': { url: 'https://npm.corp.com', token: 'abc' } } });
+    serve({
+      'https://npm.corp.com/@corp/ui/1.0.0': { name: '@corp/ui', version: '1.0.0', dist: { tarball: 'https://npm.corp.com/@corp/ui/-/ui-1.0.0.tgz' } },
+      'https://registry.npmjs.org/left-pad/1.3.0': { name: 'left-pad', version: '1.3.0' }
+    });
+
+    expect(await manager.getPackageInfo('@corp/ui', '1.0.0')).toMatchObject({ name: '@corp/ui', registry: 'https://npm.corp.com' });
+    expect(headersFor('https://npm.corp.com/@corp/ui/1.0.0')).toEqual({ Authorization: 'Bearer abc' });
+
+    expect(await manager.getPackageInfo('left-pad', '1.3.0')).toMatchObject({ registry: 'https://registry.npmjs.org' });
+    expect(headersFor('https://registry.npmjs.org/left-pad/1.3.0')).toEqual({});
+  });
+
+  test('pip should fall back to the extra indexes when the index does not have a package', async () => {
+    const extraIndex = { url: 'https://pypi.corp.com/pypi', username: 'bob', password: 'pw' };
+    const manager = new PipManager({ extraIndexes: [extraIndex] });
+    serve({ 'https://pypi.corp.com/pypi/corp-utils/2.0.0/json': { info: { name: 'corp-utils', version: '2.0.0' }, urls: [] } });
+
+    expect(await manager.getPackageInfo('corp-utils', '2.0.0')).toMatchObject({ name: 'corp-utils', registry: extraIndex.url });
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://pypi.org/pypi/corp-utils/2.0.0/json',
+      'https://pypi.corp.com/pypi/corp-utils/2.0.0/json'
+    ]);
+    expect(headersFor('https://pypi.corp.com/pypi/corp-utils/2.0.0/json')).toEqual(RegistryUtils.getHeaders(extraIndex));
+  });
+
+  test('pip should read simple API indexes in PEP 691 JSON, with PEP 658 metadata', async () => {
+    const extraIndex = { url: 'https://pypi.corp.com/simple', username: 'bob', password: 'pw' };
+    const manager = new PipManager({ extraIndexes: [extraIndex] });
+    const wheelUrl = 'https://pypi.corp.com/files/corp_utils-2.0.0-py3-none-any.whl';
+    const page = 'https://pypi.corp.com/simple/corp-utils/';
+    serve({
+      [page]: {
+        name: 'corp-utils',
+        files: [
+          { filename: 'corp_utils-1.0.0.tar.gz', url: '../../files/corp_utils-1.0.0.tar.gz', hashes: {} },
+          { filename: 'corp_utils-2.0.0-py3-none-any.whl', url: '../../files/corp_utils-2.0.0-py3-none-any.whl', hashes: { sha256: 'ab'.repeat(32) }, size: 1234, 'core-metadata': { sha256: 'cd'.repeat(32) } }
+        ]
+      },
+      [`${wheelUrl}.metadata`]: [
+        'Metadata-Version: 2.1',
+        'Name: Corp_Utils',
+        'Version: 2.0.0',
+        'Summary: Shared helpers',
+        'Requires-Dist: requests (>=2.31)',
+        'Project-URL: Source, https://git.corp.com/utils',
+        '',
+        '# Corp Utils'
+      ].join('\n')
+    }, { [page]: { 'content-type': 'application/vnd.pypi.simple.v1+json' } });
+
+    expect(await manager.listVersions('Corp_Utils')).toEqual(['1.0.0', '2.0.0']);
+    expect(await manager.getPackageInfo('Corp_Utils', '2.0.0')).toMatchObject({
+      name: 'Corp_Utils',
+      description: 'Shared helpers',
+      repository: 'https://git.corp.com/utils',
+      dependencies: { requests: ' (>=2.31)' },
+      integrity: IntegrityUtils.fromHex('sha256', 'ab'.repeat(32)),
+      size: 1234,
+      registry: extraIndex.url
+    });
+    expect(await manager.getDocumentation('Corp_Utils', '2.0.0')).toBe('# Corp Utils');
+    expect(headersFor(page)).toMatchObject({ ...RegistryUtils.getHeaders(extraIndex), Accept: expect.stringContaining('application/vnd.pypi.simple.v1+json') });
+    expect(headersFor(`${wheelUrl}.metadata`)).toEqual(RegistryUtils.getHeaders(extraIndex));
+  });
+
+  test('pip should read PEP 503 HTML pages from an index at any URL', async () => {
+    const manager = new PipManager({ index: { url: 'https://pkgs.corp.com/python' } });
+    serve({
+      'https://pkgs.corp.com/python/corp-utils/': [
+        '<!DOCTYPE html><html><body>',
+        `<a href="/files/corp_utils-2.0.0-py3-none-any.whl#sha256=${'ab'.repeat(32)}" data-requires-python="&gt;=3.8">corp_utils-2.0.0-py3-none-any.whl</a>`,
+        '<a href="https://cdn.corp.com/corp-utils-2.1.0.tar.gz">corp-utils-2.1.0.tar.gz</a>',
+        '</body></html>'
+      ].join('\n')
+    }, { 'https://pkgs.corp.com/python/corp-utils/': { 'content-type': 'text/html' } });
+
+    expect(await manager.listVersions('corp-utils')).toEqual(['2.0.0', '2.1.0']);
+    expect(await manager.getPackageInfo('corp-utils', '2.0.0')).toMatchObject({
+      name: 'corp-utils',
+      version: '2.0.0',
+      integrity: IntegrityUtils.fromHex('sha256', 'ab'.repeat(32)),
+      registry: 'https://pkgs.corp.com/python'
+    });
+    await expect(manager.getPackageInfo('corp-utils', '3.0.0')).rejects.toThrow('Package not found: corp-utils@3.0.0');
+    expect(mockFetch).not.toHaveBeenCalledWith(expect.stringContaining('pypi.org'), expect.anything());
+  });
+
+  test('maven should use the mirror and the first repository that has a version', async () => {
+    const manager = new MavenManager({
+      mirror: { url: 'https://maven.corp.com/central' },
+      repositories: [{ url: 'https://maven.corp.com/releases', token: 'abc' }]
+    });
+    const versionDir = 'https://maven.corp.com/releases/com/corp/core/1.0.0';
+    serve({
+      [`${versionDir}/core-1.0.0.pom`]: '<project><description>Corp core</description></project>',
+      [`${versionDir}/core-1.0.0.jar.sha1`]: 'ab'.repeat(20),
+      'https://maven.corp.com/releases/com/corp/core/maven-metadata.xml': '<metadata><versioning><versions><version>1.0.0</version></versions></versioning></metadata>'
+    });
+
+    expect(await manager.getPackageInfo('com.corp:core', '1.0.0')).toMatchObject({
+      description: 'Corp core',
+      integrity: IntegrityUtils.fromHex('sha1', 'ab'.repeat(20)),
+      registry: 'https://maven.corp.com/releases'
+    });
+    expect(headersFor(`${versionDir}/core-1.0.0.jar.sha1`)).toEqual({ Authorization: 'Bearer abc' });
+    expect(await manager.listVersions('com.corp:core')).toEqual(['1.0.0']);
+    expect(mockFetch).toHaveBeenCalledWith('https://maven.corp.com/central/com/corp/core/1.0.0/core-1.0.0.pom', expect.objectContaining({ method: 'HEAD' }));
+    expect(mockFetch).not.toHaveBeenCalledWith(expect.stringContaining('repo1.maven.org'), expect.anything());
+  });
+});
+
+describe('PluginLoader', () => {
+  const plugin = (name: string) => `
+    module.exports = {
+      managers: [{
+        name: '${name}',
+        description: 'Packages from ${name}',
+        installHint: 'Run ${name} --offline',
+        create: () => ({ name: '${name}', listVersions: async () => ['1.0.0'] })
+      }]
+    };
+  `;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should register managers from configured plugins and node_modules', async () => {
+    const tempDir = await TestUtils.createTempDir('zembil-plugins');
+    try {
+      await fs.outputFile(path.join(tempDir, 'plugins', 'local.js'), plugin('local-pm'));
+      await fs.outputFile(path.join(tempDir, 'node_modules', 'zembil-plugin-gems', 'index.js'), plugin('gems'));
+      await fs.outputJson(path.join(tempDir, 'node_modules', 'zembil-plugin-gems', 'package.json'), { name: 'zembil-plugin-gems', main: 'index.js' });
+      await fs.outputFile(path.join(tempDir, 'node_modules', '@corp', 'zembil-plugin-hex', 'index.js'),
+        `exports.default = { managers: [{ name: 'hex', create: () => ({ name: 'hex' }), versionScheme: new (require(${JSON.stringify(require.resolve('../versions/maven'))}).MavenScheme)() }] };`);
+      await fs.outputFile(path.join(tempDir, 'node_modules', 'zembil-plugin-broken', 'index.js'), 'module.exports = {};');
+      await fs.outputFile(path.join(tempDir, 'node_modules', 'unrelated', 'index.js'), plugin('unrelated'));
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const registered = PluginLoader.load(['./plugins/local.js', 'zembil-plugin-missing'], [tempDir]);
+      expect(registered.sort()).toEqual(['gems', 'hex', 'local-pm']);
+      expect(warn).toHaveBeenCalledWith('Failed to find plugin zembil-plugin-missing:', expect.anything());
+      expect(warn).toHaveBeenCalledWith(`Failed to load plugin ${path.join(tempDir, 'node_modules', 'zembil-plugin-broken', 'index.js')}:`, expect.anything());
+
+      expect(PackageManagerFactory.getSupportedManagers()).toEqual(expect.arrayContaining(['npm', 'composer', 'gems', 'hex', 'local-pm']));
+      expect(PackageManagerFactory.getSupportedManagers()).not.toContain('unrelated');
+      expect(PackageManagerFactory.getRegistration('gems')).toMatchObject({ description: 'Packages from gems', installHint: 'Run gems --offline' });
+      expect(await PackageManagerFactory.getManager('gems').listVersions('rails')).toEqual(['1.0.0']);
+      expect(VersionSchemeFactory.getScheme('hex')).toBeInstanceOf(MavenScheme);
+
+      // Modules are loaded once, and names cannot be taken twice
+      expect(PluginLoader.load(['./plugins/local.js'], [tempDir])).toEqual([]);
+      expect(() => PackageManagerFactory.register({ name: 'npm', create: () => new CargoManager() })).toThrow('Package manager npm is already registered');
+    } finally {
+      await fs.remove(tempDir);
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { NetworkUtils } from '../utils/network';
+import { Throttle } from '../utils/bandwidth';
+import { PartialDownload } from '../types';
+import { TestUtils } from './test-utils';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+describe('NetworkUtils.downloadToFile', () => {
+  let tempDir: string;
+  let server: http.Server;
+  let url: string;
+  let content: Buffer;
+  let etag: string;
+  let cutAfter: number | undefined;
+  let requests: http.IncomingHttpHeaders[];
+
+  beforeEach(async () => {
+    tempDir = await TestUtils.createTempDir('zembil-network');
+    content = Buffer.from('0123456789'.repeat(100));
+    etag = '"v1"';
+    cutAfter = undefined;
+    requests = [];
+
+    server = http.createServer((req, res) => {
+      requests.push(req.headers);
+      const range = /^bytes=(\d+)-$/.exec(req.headers.range || '');
+      const start = range && req.headers['if-range'] === etag ? parseInt(range[1], 10) : 0;
+
+      if (cutAfter !== undefined) {
+        // Simulate the link dropping part way through a chunked body
+        res.writeHead(200, { ETag: etag });
+        const cut = cutAfter;
+        let closed = false;
+        res.on('close', () => { closed = true; });
+        res.write(content.subarray(0, cut), async () => {
+          // Drop the link once the client has the chunk on disk, or has hung up itself
+          const partPath = path.join(tempDir, 'pkg.tgz.part');
+          while (!closed && !(await fs.pathExists(partPath) && (await fs.stat(partPath)).size >= cut)) {
+            await new Promise(resolve => setImmediate(resolve));
+          }
+          res.destroy();
+        });
+        return;
+      }
+      res.writeHead(start > 0 ? 206 : 200, {
+        ETag: etag,
+        'Content-Length': content.length - start,
+        ...(start > 0 ? { 'Content-Range': `bytes ${start}-${content.length - 1}/${content.length}` } : {})
+      });
+      res.end(content.subarray(start));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/pkg.tgz`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.remove(tempDir);
+  });
+
+  const interrupt = async (filePath: string): Promise<PartialDownload> => {
+    cutAfter = 400;
+    let partial: PartialDownload | undefined;
+    await expect(NetworkUtils.downloadToFile(url, filePath, { onPartial: p => { partial = { ...p }; } }, 1)).rejects.toThrow();
+    cutAfter = undefined;
+    return partial!;
+  };
+
+  test('should resume an interrupted download from the partial file', async () => {
+    const filePath = path.join(tempDir, 'pkg.tgz');
+    const partial = await interrupt(filePath);
+
+    expect(partial).toEqual({ url, path: `${filePath}.part`, offset: 400, etag: '"v1"', total: undefined });
+    expect((await fs.stat(partial.path)).size).toBe(400);
+
+    expect(await NetworkUtils.downloadToFile(url, filePath, { partials: [partial] }, 1)).toBe(filePath);
+    expect(requests[1]).toMatchObject({ range: 'bytes=400-', 'if-range': '"v1"' });
+    expect(await fs.readFile(filePath)).toEqual(content);
+    expect(await fs.pathExists(partial.path)).toBe(false);
+  });
+
+  test('should send extra headers, on resumed requests too', async () => {
+    const filePath = path.join(tempDir, 'pkg.tgz');
+    const partial = await interrupt(filePath);
+
+    await NetworkUtils.downloadToFile(url, filePath, { partials: [partial], headers: { Authorization: 'Bearer secret' } }, 1);
+    expect(requests[1]).toMatchObject({ authorization: 'Bearer secret', range: 'bytes=400-' });
+  });
+
+  test('should start over when the file changed on the server', async () => {
+    const filePath = path.join(tempDir, 'pkg.tgz');
+    const partial = await interrupt(filePath);
+
+    etag = '"v2"';
+    content = Buffer.from('abcdefghij'.repeat(80));
+
+    await NetworkUtils.downloadToFile(url, filePath, { partials: [partial] }, 1);
+    expect(await fs.readFile(filePath)).toEqual(content);
+  });
+
+  test('should stop without retrying and keep the partial file when onData throws', async () => {
+    const filePath = path.join(tempDir, 'pkg.tgz');
+    const stop = Object.assign(new Error('Data budget used up'), { code: 'EBUDGET' });
+    const onPartial = jest.fn();
+
+    await expect(NetworkUtils.downloadToFile(url, filePath, { onPartial, onData: () => { throw stop; } }, 3)).rejects.toBe(stop);
+    expect(requests).toHaveLength(1);
+    expect(await fs.pathExists(`${filePath}.part`)).toBe(true);
+    expect(onPartial).toHaveBeenLastCalledWith(expect.objectContaining({ etag: '"v1"', offset: 0 }));
+  });
+
+  test('should stop without retrying and keep the partial file when the signal is aborted', async () => {
+    const filePath = path.join(tempDir, 'pkg.tgz');
+    const controller = new AbortController();
+    cutAfter = 400;
+
+    await expect(NetworkUtils.downloadToFile(url, filePath, { signal: controller.signal, onData: () => controller.abort() }, 3)).rejects.toThrow();
+    expect(requests).toHaveLength(1);
+    expect(await fs.pathExists(`${filePath}.part`)).toBe(true);
+  });
+});
+
+describe('Throttle', () => {
+  test('should hold downloads that share it to the rate', async () => {
+    const throttle = new Throttle(10000);
+    const started = Date.now();
+
+    // Two downloads of 2500 bytes in 500 byte chunks; each chunk gets a 50 ms slot, so the last one waits 450 ms
+    await Promise.all([0, 1].map(async () => {
+      for (let chunk = 0; chunk < 5; chunk++) {
+        await throttle.consume(500);
+      }
+    }));
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(440);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
@@ -0,0 +1,459 @@
+import { Cache } from '../core/cache';
+import { Queue } from '../core/queue';
+import { Database } from '../core/database';
+import { PackageManagerFactory } from '../managers';
+import { DownloadOptions, PackageManagerInterface } from '../types';
+import { PoolUtils } from '../utils/pool';
+import { ProgressBars } from '../utils/progress';
+import { HttpError, NetworkUtils } from '../utils/network';
+import { TestUtils } from './test-utils';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('PoolUtils', () => {
+  test('should cap total and per-group concurrency', async () => {
+    const items = ['a1', 'a2', 'a3', 'b1', 'b2', 'c1'];
+    let running = 0;
+    let maxRunning = 0;
+    const perGroup = new Map<string, number>();
+    const maxPerGroup = new Map<string, number>();
+    const done: string[] = [];
+
+    await PoolUtils.run(items, {
+      concurrency: 3,
+      groupOf: item => item[0],
+      groupLimit: group => (group === 'a' ? 1 : 2)
+    }, async (item) => {
+      const group = item[0];
+      running++;
+      perGroup.set(group, (perGroup.get(group) || 0) + 1);
+      maxRunning = Math.max(maxRunning, running);
+      maxPerGroup.set(group, Math.max(maxPerGroup.get(group) || 0, perGroup.get(group)!));
+
+      await delay(5);
+
+      running--;
+      perGroup.set(group, perGroup.get(group)! - 1);
+      done.push(item);
+    });
+
+    expect(done.sort()).toEqual([...items].sort());
+    expect(maxRunning).toBe(3);
+    expect(maxPerGroup.get('a')).toBe(1);
+    expect(maxPerGroup.get('b')).toBe(2);
+  });
+});
+
+describe('ProgressBars', () => {
+  test('should render size, speed and time left', () => {
+    expect(ProgressBars.render({ label: 'react@18.2.0', received: 512 * 1024, total: 2 * 1024 * 1024, bytesPerSecond: 100 * 1024, eta: 15.4 }))
+      .toBe('react@18.2.0  [█████░░░░░░░░░░░░░░░]  25%  512.0 KB/2.0 MB  100.0 KB/s  ETA 16s');
+    expect(ProgressBars.render({ label: 'lodash@4.17.21', received: 300, bytesPerSecond: 0 }))
+      .toBe('lodash@4.17.21  300 B  0 B/s');
+  });
+});
+
+describe('Queue processing', () => {
+  let tempDir: string;
+  let cache: Cache;
+  let queue: Queue;
+  let cwd: string;
+
+  beforeEach(async () => {
+    tempDir = await TestUtils.createTempDir('zembil-queue');
+    cwd = process.cwd();
+    process.chdir(tempDir);
+
+    const cacheDir = path.join(tempDir, 'cache');
+    cache = new Cache(cacheDir);
+    await cache.initialize();
+    queue = new Queue(cacheDir, cache);
+    await queue.initialize();
+
+    const manager = {
+      name: 'npm',
+      getPackageInfo: async (name: string, version: string) => ({
+        name,
+        version,
+        manager: 'npm',
+        integrity: name === 'corrupt' ? 'sha256-AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=' : undefined,
+        size: name === 'huge' ? 20000 : name === 'unsized' ? undefined : 4000,
+        registry: 'https://registry.test'
+      }),
+      listVersions: async () => ['0.9.0', '1.0.0', '2.0.0-beta.1'],
+      downloadPackage: async (name: string, version: string, options?: DownloadOptions) => {
+        if (name === 'broken') throw new Error('Failed to download package: Not Found');
+        if (name === 'flaky') throw new HttpError(503, 'HTTP 503 Service Unavailable');
+        if (name === 'slow') {
+          // Writes part of the file, then runs until it is stopped
+          const partial = { url: `https://registry.test/${name}`, path: path.join(tempDir, `${name}.part`), offset: 0, etag: '"1"' };
+          await fs.writeFile(partial.path, 'part');
+          await options?.onPartial?.(partial);
+          return new Promise<string>((_, reject) => {
+            const signal = options!.signal!;
+            signal.aborted ? reject(new Error('aborted')) : signal.addEventListener('abort', () => reject(new Error('aborted')));
+          });
+        }
+        await delay(5);
+        // Every download arrives as four 1000 byte chunks
+        for (let chunk = 0; chunk < 4; chunk++) {
+          await options?.onData?.(1000);
+        }
+        return TestUtils.createTestPackage(tempDir, `${name}-${version}.tgz`);
+      },
+      getDocumentation: async () => '',
+      getExamples: async () => []
+    } as unknown as PackageManagerInterface;
+    jest.spyOn(PackageManagerFactory, 'getManager').mockReturnValue(manager);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    process.chdir(cwd);
+    await fs.remove(tempDir);
+  });
+
+  test('should process items concurrently and keep every status update', async () => {
+    const names = ['one', 'two', 'three', 'four', 'five', 'broken'];
+    for (const name of names) {
+      await queue.add(name, '1.0.0', 'npm');
+    }
+
+    const result = await queue.process({ concurrency: 3 });
+
+    expect(result.downloaded).toBe(5);
+    expect(result.failed).toBe(1);
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['broken@1.0.0: Failed to download package: Not Found']);
+    expect(result.totalSize).toBeGreaterThan(0);
+
+    const items = await queue.list();
+    expect(items.filter(item => item.status === 'completed')).toHaveLength(5);
+    expect(items.find(item => item.packageName === 'broken')!.status).toBe('failed');
+    expect(await cache.list()).toHaveLength(5);
+    expect((await cache.get('one', '1.0.0'))!.registry).toBe('https://registry.test');
+  });
+
+  test('should cap concurrency per registry host, falling back to the manager\'s cap', async () => {
+    const manager = PackageManagerFactory.getManager('npm');
+    const download = manager.downloadPackage.bind(manager);
+    const running = new Map<string, number>();
+    const maxRunning = new Map<string, number>();
+    const hostOf = (name: string) => (name.startsWith('corp-') ? 'npm.corp.com' : 'registry.npmjs.org');
+    Object.assign(manager, {
+      getRegistryUrl: (name: string) => `https://${hostOf(name)}`,
+      downloadPackage: async (name: string, version: string, options?: DownloadOptions) => {
+        const host = hostOf(name);
+        running.set(host, (running.get(host) || 0) + 1);
+        maxRunning.set(host, Math.max(maxRunning.get(host) || 0, running.get(host)!));
+        try {
+          return await download(name, version, options);
+        } finally {
+          running.set(host, running.get(host)! - 1);
+        }
+      }
+    });
+    for (const name of ['corp-a', 'corp-b', 'corp-c', 'one', 'two', 'three']) {
+      await queue.add(name, '1.0.0', 'npm');
+    }
+
+    const result = await queue.process({ concurrency: 4, registryConcurrency: { 'npm.corp.com': 1, npm: 3 } });
+
+    expect(result.downloaded).toBe(6);
+    expect(maxRunning.get('npm.corp.com')).toBe(1);
+    expect(maxRunning.get('registry.npmjs.org')).toBe(3);
+  });
+
+  test('should schedule transient failures for a later retry and fail permanent ones', async () => {
+    await queue.add('flaky', '1.0.0', 'npm');
+    await queue.add('broken', '1.0.0', 'npm');
+    const retry = { maxAttempts: 2, baseDelay: 60000, maxDelay: 60000 };
+
+    const first = await queue.process({ retry });
+    expect(first.failed).toBe(2);
+
+    const findItem = async (name: string) => (await queue.list()).find(item => item.packageName === name)!;
+    let flaky = await findItem('flaky');
+    const broken = await findItem('broken');
+    expect(flaky).toMatchObject({ status: 'pending', attempts: 1, failureKind: 'transient' });
+    expect(flaky.nextRetryAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(broken).toMatchObject({ status: 'failed', attempts: 1, failureKind: 'permanent' });
+
+    // Not due yet, so nothing is attempted
+    expect((await queue.process({ retry })).failed).toBe(0);
+
+    // Retried straight away; with attempts exhausted the failure becomes final
+    expect(await queue.retry(flaky.id)).toBe(1);
+    await queue.process({ retry: { ...retry, maxAttempts: 1 } });
+    flaky = await findItem('flaky');
+    expect(flaky).toMatchObject({ status: 'failed', attempts: 1 });
+
+    expect(await queue.retry()).toBe(2);
+    expect((await queue.list()).every(item => item.status === 'pending' && item.attempts === 0)).toBe(true);
+  });
+
+  test('should skip packages that are already cached unless forced', async () => {
+    const packagePath = await TestUtils.createTestPackage(tempDir, 'old.tgz');
+    await cache.add(TestUtils.createTestPackageInfo('one', '1.0.0', 'npm'), packagePath);
+    const download = jest.spyOn(PackageManagerFactory.getManager('npm'), 'downloadPackage');
+
+    await queue.add('one', '1.0.0', 'npm');
+    const skipped = await queue.process();
+    expect(skipped).toMatchObject({ downloaded: 0, skipped: 1, failed: 0 });
+    expect(download).not.toHaveBeenCalled();
+    expect((await queue.list())[0]).toMatchObject({ status: 'completed', attempts: 0 });
+
+    await queue.clear();
+    await queue.add('one', '1.0.0', 'npm');
+    const forced = await queue.process({ force: true });
+    expect(forced).toMatchObject({ downloaded: 1, skipped: 0 });
+    expect(download).toHaveBeenCalledTimes(1);
+    expect(await fs.readFile((await cache.get('one', '1.0.0'))!.localPath, 'utf8')).toBe('test package content for one-1.0.0.tgz');
+  });
+
+  test('should emit events for each item and for the sync', async () => {
+    const packagePath = await TestUtils.createTestPackage(tempDir, 'old.tgz');
+    await cache.add(TestUtils.createTestPackageInfo('cached', '1.0.0', 'npm'), packagePath);
+    await queue.add('one', '1.0.0', 'npm', 2);
+    await queue.add('broken', '1.0.0', 'npm', 1);
+    await queue.add('cached', '1.0.0', 'npm', 0);
+
+    const events: string[] = [];
+    let speed = 0;
+    queue.on('sync:start', ({ items }) => events.push(`start ${items}`));
+    queue.on('download:start', ({ item, size }) => events.push(`${item.packageName} start ${size}`));
+    queue.on('download:progress', ({ item, received, bytesPerSecond }) => {
+      events.push(`${item.packageName} ${received}`);
+      speed = bytesPerSecond;
+    });
+    queue.on('download:complete', ({ item }) => events.push(`${item.packageName} complete`));
+    queue.on('download:skip', ({ item, reason }) => events.push(`${item.packageName} skip ${reason}`));
+    queue.on('download:error', ({ item, error, willRetry }) => events.push(`${item.packageName} error: ${error.message}, retry ${willRetry}`));
+    queue.on('sync:complete', result => events.push(`complete ${result.downloaded}/${result.skipped}/${result.failed}`));
+
+    await queue.process();
+    expect(events).toEqual([
+      'start 3',
+      'one start 4000', 'one 1000', 'one 2000', 'one 3000', 'one 4000', 'one complete',
+      'broken start 4000', 'broken error: Failed to download package: Not Found, retry false',
+      'cached skip cached',
+      'complete 1/1/1'
+    ]);
+    expect(speed).toBeGreaterThan(0);
+  });
+
+  test('should fill the data budget by priority and leave the rest for later', async () => {
+    await queue.add('unsized', '1.0.0', 'npm', 0);
+    await queue.add('mid', '1.0.0', 'npm', 3);
+    await queue.add('high', '1.0.0', 'npm', 5);
+    await queue.add('huge', '1.0.0', 'npm', 10);
+    const statusOf = async () => Object.fromEntries((await queue.list()).map(item => [item.packageName, `${item.status}/${item.attempts}`]));
+
+    // huge does not fit, high and mid do, and unsized is stopped when it runs over
+    const first = await queue.process({ dataBudget: { session: 9000 } });
+    expect(first).toMatchObject({ downloaded: 2, deferred: 2, failed: 0, bytesUsed: 10000, budgetReached: 'session' });
+    expect(await statusOf()).toEqual({ huge: 'pending/0', high: 'completed/1', mid: 'completed/1', unsized: 'pending/0' });
+
+    // The first sync counts against today's budget
+    const second = await queue.process({ dataBudget: { daily: 10000 } });
+    expect(second).toMatchObject({ downloaded: 0, deferred: 2, bytesUsed: 0, budgetReached: 'daily' });
+
+    const third = await queue.process();
+    expect(third).toMatchObject({ downloaded: 2, deferred: 0, bytesUsed: 8000 });
+    expect(third.budgetReached).toBeUndefined();
+  });
+
+  test('should stop when the signal is aborted and keep the partial download', async () => {
+    const slowId = await queue.add('slow', '1.0.0', 'npm', 1);
+    await queue.add('one', '1.0.0', 'npm', 0);
+    const controller = new AbortController();
+    const skipped: string[] = [];
+    queue.on('download:start', () => controller.abort());
+    queue.on('download:skip', ({ item, reason }) => skipped.push(`${item.packageName} ${reason}`));
+
+    const result = await queue.process({ signal: controller.signal });
+    expect(result).toMatchObject({ downloaded: 0, failed: 0, stopped: 'interrupted' });
+    expect(skipped).toEqual(['slow interrupted']);
+
+    const items = await queue.list();
+    expect(items.find(item => item.id === slowId)).toMatchObject({ status: 'pending', attempts: 0, partials: [expect.objectContaining({ etag: '"1"' })] });
+    expect(items.find(item => item.packageName === 'one')).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(await fs.pathExists(path.join(tempDir, 'slow.part'))).toBe(true);
+  });
+
+  test('should pause, resume and cancel items, and pause the whole queue', async () => {
+    const id = await queue.add('slow', '1.0.0', 'npm');
+    const partPath = path.join(tempDir, 'slow.part');
+
+    const pauseOnStart = () => queue.pause(id);
+    queue.on('download:start', pauseOnStart);
+    expect((await queue.process()).stopped).toBeUndefined();
+    queue.off('download:start', pauseOnStart);
+    expect((await queue.list())[0].status).toBe('paused');
+    expect(await fs.pathExists(partPath)).toBe(true);
+
+    // A paused item is left alone until it is resumed
+    expect((await queue.process()).downloaded).toBe(0);
+    expect(await queue.resume(id)).toBe(true);
+    expect(await queue.resume(id)).toBe(false);
+
+    queue.on('download:start', () => queue.cancel(id));
+    await queue.process();
+    expect((await queue.list())[0]).toMatchObject({ status: 'cancelled', partials: undefined });
+    expect(await fs.pathExists(partPath)).toBe(false);
+    expect(await queue.cancel(id)).toBe(false);
+
+    await queue.add('one', '1.0.0', 'npm');
+    expect(await queue.pause()).toBe(true);
+    expect(await queue.pause()).toBe(false);
+    expect(await queue.process()).toMatchObject({ downloaded: 0, stopped: 'paused' });
+    expect(await queue.resume()).toBe(true);
+    expect(await queue.process()).toMatchObject({ downloaded: 1 });
+    expect(await queue.getStatus()).toMatchObject({ pending: 0, completed: 1, paused: 0, cancelled: 1 });
+  });
+
+  test('should stop a download cancelled by another process', async () => {
+    const id = await queue.add('slow', '1.0.0', 'npm');
+    const other = new Queue(path.join(tempDir, 'cache'), cache);
+    await other.initialize();
+    const warn = jest.spyOn(console, 'warn');
+    queue.on('download:start', () => other.cancel(id));
+
+    await queue.process();
+    expect((await queue.list())[0].status).toBe('cancelled');
+    expect(await fs.pathExists(path.join(tempDir, 'slow.part'))).toBe(false);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test('should record the requested spec and resolve offline additions when processing', async () => {
+    await queue.add('one', 'latest', 'npm');
+    expect((await queue.list())[0]).toMatchObject({ version: '1.0.0', requested: 'latest' });
+    await queue.clear();
+
+    const manager = PackageManagerFactory.getManager('npm');
+    const listVersions = jest.spyOn(manager, 'listVersions')
+      .mockRejectedValueOnce(Object.assign(new Error('getaddrinfo ENOTFOUND registry.npmjs.org'), { code: 'ENOTFOUND' }));
+    await queue.add('one', 'latest:2', 'npm');
+    expect((await queue.list())[0]).toMatchObject({ version: 'latest:2', requested: 'latest:2', unresolved: true });
+
+    const result = await queue.process();
+    expect(listVersions).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ downloaded: 2, failed: 0 });
+    expect((await queue.list()).map(item => `${item.version} (${item.requested})`).sort()).toEqual(['0.9.0 (latest:2)', '1.0.0 (latest:2)']);
+    expect((await cache.list()).map(pkg => pkg.version).sort()).toEqual(['0.9.0', '1.0.0']);
+  });
+
+  test('should discard a download that fails verification and retry it', async () => {
+    await queue.add('corrupt', '1.0.0', 'npm');
+
+    const result = await queue.process();
+    expect(result.errors[0]).toContain('Integrity check failed for corrupt@1.0.0');
+
+    const [item] = await queue.list();
+    expect(item).toMatchObject({ status: 'pending', failureKind: 'transient' });
+    expect(await fs.pathExists(path.join(tempDir, 'corrupt-1.0.0.tgz'))).toBe(false);
+  });
+});
+
+describe('Queue storage', () => {
+  let tempDir: string;
+  let cacheDir: string;
+  let cache: Cache;
+
+  const createQueue = async () => {
+    const queue = new Queue(cacheDir, cache);
+    await queue.initialize();
+    return queue;
+  };
+
+  beforeEach(async () => {
+    tempDir = await TestUtils.createTempDir('zembil-queue-storage');
+    cacheDir = path.join(tempDir, 'cache');
+    cache = new Cache(cacheDir);
+    await cache.initialize();
+    jest.spyOn(PackageManagerFactory, 'getManager').mockReturnValue({
+      name: 'npm',
+      listVersions: async () => ['4.17.20', '4.17.21']
+    } as unknown as PackageManagerInterface);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(tempDir);
+  });
+
+  test('should let two processes share the queue without downloading an item twice', async () => {
+    const downloads: string[] = [];
+    jest.spyOn(PackageManagerFactory, 'getManager').mockReturnValue({
+      name: 'npm',
+      getPackageInfo: async (name: string, version: string) => ({ name, version, manager: 'npm' }),
+      listVersions: async () => ['1.0.0'],
+      downloadPackage: async (name: string, version: string) => {
+        downloads.push(name);
+        await delay(5);
+        return TestUtils.createTestPackage(tempDir, `${name}-${version}.tgz`);
+      },
+      getDocumentation: async () => '',
+      getExamples: async () => []
+    } as unknown as PackageManagerInterface);
+
+    const [first, second] = [await createQueue(), await createQueue()];
+    const names = ['a', 'b', 'c', 'd', 'e', 'f'];
+    await Promise.all(names.map((name, i) => (i % 2 ? first : second).add(name, '1.0.0', 'npm')));
+    await expect(second.add('a', '1.0.0', 'npm')).rejects.toThrow('already queued');
+
+    const results = await Promise.all([first.process({ concurrency: 2 }), second.process({ concurrency: 2 })]);
+
+    expect(results[0].downloaded + results[1].downloaded).toBe(names.length);
+    expect(downloads.sort()).toEqual(names);
+    expect(await first.getStatus()).toEqual({ pending: 0, downloading: 0, completed: 6, failed: 0, paused: 0, cancelled: 0 });
+  });
+
+  test('should return items with an abandoned lease to pending', async () => {
+    const queue = await createQueue();
+    const id = await queue.add('lodash', '4.17.21', 'npm');
+
+    // A process that claimed the item and then died without renewing its lease
+    const db = new Database(path.join(cacheDir, 'cache.db'));
+    expect(await db.claimQueueItem(id, 'crashed', new Date(Date.now() - 1000))).toMatchObject({ status: 'downloading', attempts: 1 });
+    expect(await db.claimQueueItem(id, 'other', new Date(Date.now() + 60000))).toBeNull();
+    db.close();
+
+    const [item] = await queue.list();
+    expect(item).toMatchObject({ id, status: 'pending', attempts: 1 });
+    expect(item.leaseOwner).toBeUndefined();
+  });
+
+  test('should import an existing queue.json once', async () => {
+    await fs.writeJson(path.join(cacheDir, 'queue.json'), [
+      { id: 'npm-lodash', packageName: 'lodash', version: '4.17.21', manager: 'npm', priority: 1, queuedAt: '2024-01-01T00:00:00.000Z', status: 'downloading' },
+      { id: 'pip-requests', packageName: 'requests', version: '2.31.0', manager: 'pip', priority: 0, queuedAt: '2024-01-02T00:00:00.000Z', status: 'failed', error: 'Not Found', attempts: 2 }
+    ]);
+
+    const queue = await createQueue();
+    await createQueue();
+
+    expect(await queue.list()).toEqual([
+      expect.objectContaining({ id: 'npm-lodash', status: 'pending', queuedAt: new Date('2024-01-01T00:00:00.000Z') }),
+      expect.objectContaining({ id: 'pip-requests', status: 'failed', error: 'Not Found', attempts: 2 })
+    ]);
+    expect(await fs.pathExists(path.join(cacheDir, 'queue.json'))).toBe(false);
+    expect(await fs.pathExists(path.join(cacheDir, 'queue.json.migrated'))).toBe(true);
+  });
+});
+
+describe('NetworkUtils.isTransientError', () => {
+  test('should tell transient failures from permanent ones', () => {
+    expect(NetworkUtils.isTransientError(new HttpError(503, 'unavailable'))).toBe(true);
+    expect(NetworkUtils.isTransientError(new HttpError(429, 'too many requests'))).toBe(true);
+    expect(NetworkUtils.isTransientError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(NetworkUtils.isTransientError(Object.assign(new Error('gave up'), { cause: new HttpError(502, 'bad gateway') }))).toBe(true);
+
+    expect(NetworkUtils.isTransientError(new HttpError(404, 'Package not found: nope@1.0.0'))).toBe(false);
+    expect(NetworkUtils.isTransientError(new Error('Invalid Maven coordinates'))).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import { RegistryUtils } from '../utils/registries';
+import { TestUtils } from './test-utils';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+describe('RegistryUtils', () => {
+  let home: string;
+  let cwd: string;
+
+  beforeEach(async () => {
+    home = await TestUtils.createTempDir('zembil-home');
+    cwd = await TestUtils.createTempDir('zembil-project');
+  });
+
+  afterEach(async () => {
+    await fs.remove(home);
+    await fs.remove(cwd);
+  });
+
+  test('should parse registries and credentials from .npmrc', () => {
+    const npmrc = RegistryUtils.parseNpmrc([
+      'registry=https://npm.corp.com/',
+      '@corp:registry=https://npm.corp.com/private/',
+      '//npm.corp.com/private/:_authToken=${NPM_TOKEN}',
+      `//npm.corp.com/:_auth=${Buffer.from('alice:s3cret').toString('base64')}`,
+      '; a comment'
+    ].join('\n'), { NPM_TOKEN: 'abc' });
+
+    expect(npmrc).toEqual({
+      registry: 'https://npm.corp.com/',
+      scopes: { '@corp': 'https://npm.corp.com/private/' },
+      auth: {
+        '//npm.corp.com/private/': { token: 'abc' },
+        '//npm.corp.com/': { username: 'alice', password: 's3cret' }
+      }
+    });
+  });
+
+  test('should parse indexes from pip.conf, with install settings winning', () => {
+    const pipConf = RegistryUtils.parsePipConf([
+      '[global]',
+      'index-url = https://pypi.corp.com/simple',
+      '[install]',
+      'extra-index-url =',
+      '    https://one.example.com/simple',
+      '    https://two.example.com/simple'
+    ].join('\n'));
+
+    expect(pipConf).toEqual({
+      indexUrl: 'https://pypi.corp.com/simple',
+      extraIndexUrls: ['https://one.example.com/simple', 'https://two.example.com/simple']
+    });
+  });
+
+  test('should parse servers and mirrors from settings.xml', () => {
+    const settings = RegistryUtils.parseMavenSettings(`
+      <settings>
+        <servers>
+          <server>
+            <id>corp</id>
+            <username>deploy</username>
+            <password>\${env.MAVEN_PASSWORD}</password>
+          </server>
+        </servers>
+        <mirrors>
+          <mirror>
+            <id>corp</id>
+            <mirrorOf>central</mirrorOf>
+            <url>https://maven.corp.com/central</url>
+          </mirror>
+        </mirrors>
+      </settings>
+    `, { MAVEN_PASSWORD: 'hunter2' });
+
+    expect(settings).toEqual({
+      servers: { corp: { username: 'deploy', password: 'hunter2' } },
+      mirrors: [{ id: 'corp', url: 'https://maven.corp.com/central', mirrorOf: 'central' }]
+    });
+  });
+
+  test('should complete the configuration from the package managers\' own files', async () => {
+    await fs.writeFile(path.join(home, '.npmrc'), '//npm.corp.com/:_authToken=home-token\n');
+    await fs.writeFile(path.join(cwd, '.npmrc'), '@corp:registry=https://npm.corp.com/\n');
+    await fs.outputFile(path.join(home, '.config', 'pip', 'pip.conf'), '[global]\nextra-index-url = https://bob:pw@pypi.corp.com/simple/\n');
+    await fs.outputFile(path.join(home, '.m2', 'settings.xml'), `
+      <settings>
+        <servers><server><id>corp</id><username>deploy</username><password>pw</password></server></servers>
+        <mirrors><mirror><id>corp</id><mirrorOf>*</mirrorOf><url>https://maven.corp.com/all/</url></mirror></mirrors>
+      </settings>
+    `);
+
+    const registries = await RegistryUtils.load({
+      maven: { repositories: [{ id: 'corp', url: 'https://maven.corp.com/releases' }] }
+    }, { home, cwd, env: {} });
+
+    expect(registries).toEqual({
+      npm: { registry: undefined, scopes: { '@corp': { url: 'https://npm.corp.com', token: 'home-token' } } },
+      pip: { index: undefined, extraIndexes: [{ url: 'https://pypi.corp.com/simple', username: 'bob', password: 'pw' }] },
+      maven: {
+        mirror: { id: 'corp', url: 'https://maven.corp.com/all', username: 'deploy', password: 'pw' },
+        repositories: [{ id: 'corp', url: 'https://maven.corp.com/releases', username: 'deploy', password: 'pw' }]
+      }
+    });
+  });
+
+  test('should prefer the Zembil configuration and environment variables', async () => {
+    await fs.writeFile(path.join(home, '.npmrc'), 'registry=https://npm.corp.com/\n');
+
+    const registries = await RegistryUtils.load({
+      npm: { scopes: { '@corp': { url: 'https://npm.corp.com/', token: '${CORP_TOKEN}' } } }
+    }, { home, cwd, env: { NPM_CONFIG_REGISTRY: 'https://mirror.example.com', PIP_INDEX_URL: 'https://pypi.example.com/simple', CORP_TOKEN: 'abc' } });
+
+    expect(registries).toEqual({
+      npm: { registry: { url: 'https://mirror.example.com' }, scopes: { '@corp': { url: 'https://npm.corp.com', token: 'abc' } } },
+      pip: { index: { url: 'https://pypi.example.com/simple' }, extraIndexes: undefined }
+    });
+  });
+
+  test('should use credentials for registry.npmjs.org from an .npmrc with only an auth line', async () => {
+    await fs.writeFile(path.join(home, '.npmrc'), '//registry.npmjs.org/:_authToken=npm-token\n');
+
+    expect(await RegistryUtils.load({}, { home, cwd, env: {} })).toEqual({
+      npm: { registry: { url: 'https://registry.npmjs.org', token: 'npm-token' }, scopes: undefined }
+    });
+  });
+
+  test('should leave out managers that are not configured', async () => {
+    expect(await RegistryUtils.load({}, { home, cwd, env: {} })).toEqual({});
+  });
+
+  test('should only send credentials to the registry\'s origin', () => {
+    const registry = { url: 'https://npm.corp.com/private', username: 'alice', password: 's3cret' };
+
+    expect(RegistryUtils.getHeaders(registry)).toEqual({ Authorization: `Basic ${Buffer.from('alice:s3cret').toString('base64')}` });
+    expect(RegistryUtils.getHeaders(registry, 'https://npm.corp.com/private/pkg/-/pkg-1.0.0.tgz')).toHaveProperty('Authorization');
+    expect(RegistryUtils.getHeaders(registry, 'https://cdn.example.com/pkg-1.0.0.tgz')).toEqual({});
+    expect(RegistryUtils.getHeaders({ url: 'https://npm.corp.com', token: 'abc' })).toEqual({ Authorization: 'Bearer abc' });
+    expect(RegistryUtils.getHeaders({ url: 'https://registry.npmjs.org' })).toEqual({});
+  });
+});
@@ -0,0 +1,108 @@
+import { DependencyResolver } from '../core/resolver';
+import { PackageManagerFactory } from '../managers';
+import { PackageInfo, PackageManagerInterface } from '../types';
+
+type Registry = Record<string, Record<string, Partial<PackageInfo>>>;
+
+/**
+ * Creates a fake npm manager that answers from an in-memory registry.
+ */
+function createManager(registry: Registry): PackageManagerInterface {
+  return {
+    name: 'npm',
+    listVersions: async (name: string) => {
+      if (!registry[name]) throw new Error(`Package not found: ${name}`);
+      return Object.keys(registry[name]);
+    },
+    getDistTags: async (name: string) => (name === 'lib' ? { latest: '1.4.0', next: '2.0.0' } : {}),
+    getPackageInfo: async (name: string, version: string) => ({
+      name,
+      version,
+      manager: 'npm',
+      ...registry[name][version]
+    })
+  } as unknown as PackageManagerInterface;
+}
+
+describe('DependencyResolver', () => {
+  const registry: Registry = {
+    app: {
+      '1.0.0': {
+        dependencies: { lib: '^1.0.0', util: '~2.1.0' },
+        devDependencies: { tester: '*' },
+        size: 100
+      }
+    },
+    lib: {
+      '1.0.0': { dependencies: { util: '^2.0.0' }, size: 10 },
+      '1.4.0': { dependencies: { util: '^2.0.0', app: '1.0.0' }, size: 20 },
+      '2.0.0': { size: 30 }
+    },
+    util: {
+      '2.1.0': { size: 5 },
+      '2.1.3': { size: 6 },
+      '2.2.0': { size: 7 }
+    },
+    tester: {
+      '3.0.0': { dependencies: { missing: '^1.0.0' } }
+    }
+  };
+
+  beforeEach(() => {
+    jest.spyOn(PackageManagerFactory, 'getManager').mockReturnValue(createManager(registry));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should pick the highest version satisfying each range', async () => {
+    const tree = await new DependencyResolver().resolve('app', 'latest', 'npm');
+    const nodes = DependencyResolver.flatten(tree).map(node => `${node.name}@${node.version}`);
+
+    expect(nodes).toEqual(['app@1.0.0', 'lib@1.4.0', 'util@2.2.0', 'util@2.1.3']);
+  });
+
+  test('should mark cycles and stop expanding them', async () => {
+    const tree = await new DependencyResolver().resolve('app', '1.0.0', 'npm');
+    const lib = tree.dependencies.find(node => node.name === 'lib')!;
+    const cycle = lib.dependencies.find(node => node.name === 'app')!;
+
+    expect(cycle.circular).toBe(true);
+    expect(cycle.dependencies).toEqual([]);
+  });
+
+  test('should include dev dependencies only when asked and keep unresolved nodes', async () => {
+    const withoutDev = await new DependencyResolver().resolve('app', '1.0.0', 'npm');
+    expect(withoutDev.dependencies.map(node => node.name)).not.toContain('tester');
+
+    const withDev = await new DependencyResolver().resolve('app', '1.0.0', 'npm', { includeDev: true });
+    const tester = withDev.dependencies.find(node => node.name === 'tester')!;
+    expect(tester.version).toBe('3.0.0');
+    expect(tester.dependencies[0].error).toContain('missing');
+    expect(DependencyResolver.flatten(withDev).map(node => node.name)).not.toContain('missing');
+  });
+
+  test('should respect the maximum depth', async () => {
+    const tree = await new DependencyResolver().resolve('app', '1.0.0', 'npm', { maxDepth: 1 });
+
+    expect(tree.dependencies).toHaveLength(2);
+    expect(tree.dependencies.every(node => node.dependencies.length === 0)).toBe(true);
+  });
+
+  test('should fail when the root package cannot be resolved', async () => {
+    await expect(new DependencyResolver().resolve('app', '^9.0.0', 'npm')).rejects.toThrow('No version of app matches ^9.0.0');
+  });
+
+  test('should resolve dist-tags, ranges and the newest n versions', async () => {
+    const resolver = new DependencyResolver();
+
+    expect(await resolver.resolveVersions('lib', 'latest', 'npm')).toEqual(['1.4.0']);
+    expect(await resolver.resolveVersions('lib', 'next', 'npm')).toEqual(['2.0.0']);
+    expect(await resolver.resolveVersions('util', 'latest', 'npm')).toEqual(['2.2.0']);
+    expect(await resolver.resolveVersions('util', '~2.1.0', 'npm')).toEqual(['2.1.3']);
+    expect(await resolver.resolveVersions('util', 'latest:2', 'npm')).toEqual(['2.2.0', '2.1.3']);
+    await expect(resolver.resolveVersions('util', 'beta', 'npm')).rejects.toThrow('No version of util matches beta');
+  });
+});
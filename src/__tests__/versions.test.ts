@@ -0,0 +1,101 @@
+import { VersionSchemeFactory } from '../versions';
+
+describe('Version schemes', () => {
+  describe('semver (npm)', () => {
+    const scheme = VersionSchemeFactory.getScheme('npm');
+
+    test('should order numerically and put prereleases first', () => {
+      expect(scheme.sort(['1.10.0', '1.9.0', '1.10.0-rc.1', '1.2.3'])).toEqual(['1.2.3', '1.9.0', '1.10.0-rc.1', '1.10.0']);
+    });
+
+    test('should resolve caret and compound ranges', () => {
+      const versions = ['4.16.0', '4.17.0', '4.17.21', '5.0.0'];
+      expect(scheme.maxSatisfying(versions, '^4.17')).toBe('4.17.21');
+      expect(scheme.maxSatisfying(versions, '>=4.16 <4.17')).toBe('4.16.0');
+      expect(scheme.maxSatisfying(versions, '^6')).toBeNull();
+    });
+
+    test('should prefer the newest stable version as latest', () => {
+      expect(scheme.latest(['1.0.0', '2.0.0-beta.1'])).toBe('1.0.0');
+      expect(scheme.latest(['2.0.0-beta.1'])).toBe('2.0.0-beta.1');
+    });
+  });
+
+  describe('PEP 440 (pip)', () => {
+    const scheme = VersionSchemeFactory.getScheme('pip');
+
+    test('should order dev, pre, final, post and epoch releases', () => {
+      const ordered = ['1.0.dev0', '1.0a1', '1.0b2', '1.0rc1', '1.0', '1.0.post1', '1.1', '1!0.1'];
+      expect(scheme.sort([...ordered].reverse())).toEqual(ordered);
+    });
+
+    test('should treat normalized spellings as equal', () => {
+      expect(scheme.compare('1.0', '1.0.0')).toBe(0);
+      expect(scheme.compare('1.0-alpha-1', '1.0a1')).toBe(0);
+      expect(scheme.compare('1.0-1', '1.0.post1')).toBe(0);
+    });
+
+    test('should resolve specifier sets', () => {
+      const versions = ['1.9', '2.0', '2.5.1', '3.0rc1', '3.0'];
+      expect(scheme.maxSatisfying(versions, '>=2,<3')).toBe('2.5.1');
+      expect(scheme.maxSatisfying(versions, '~=2.0')).toBe('2.5.1');
+      expect(scheme.maxSatisfying(versions, '==2.*')).toBe('2.5.1');
+      expect(scheme.maxSatisfying(versions, '>=2,!=2.5.1,<3')).toBe('2.0');
+      expect(scheme.maxSatisfying(versions, '<3')).toBe('2.5.1');
+      expect(scheme.maxSatisfying(versions, '>=3.0rc1')).toBe('3.0');
+    });
+  });
+
+  describe('Maven ComparableVersion', () => {
+    const scheme = VersionSchemeFactory.getScheme('maven');
+
+    test('should order qualifiers like Maven does', () => {
+      const ordered = ['1.0-alpha-1', '1.0-beta-1', '1.0-M1', '1.0-RC1', '1.0-SNAPSHOT', '1.0', '1.0-sp1', '1.0.1', '1.10'];
+      expect(scheme.sort([...ordered].reverse())).toEqual(ordered);
+    });
+
+    test('should treat release aliases and trailing zeros as equal', () => {
+      expect(scheme.compare('1.0.0', '1')).toBe(0);
+      expect(scheme.compare('1.0-GA', '1.0.Final')).toBe(0);
+      expect(scheme.compare('1.0-CR1', '1.0-rc1')).toBe(0);
+    });
+
+    test('should resolve version ranges', () => {
+      const versions = ['0.9', '1.0', '1.5', '2.0', '3.1'];
+      expect(scheme.maxSatisfying(versions, '[1.0,2.0)')).toBe('1.5');
+      expect(scheme.maxSatisfying(versions, '(,1.0]')).toBe('1.0');
+      expect(scheme.maxSatisfying(versions, '[1.0,1.5),[3,4)')).toBe('3.1');
+      expect(scheme.maxSatisfying(versions, '[2.0]')).toBe('2.0');
+    });
+  });
+
+  describe('Cargo requirements', () => {
+    const scheme = VersionSchemeFactory.getScheme('cargo');
+
+    test('should read bare versions as caret requirements and commas as and', () => {
+      const versions = ['0.3.1', '0.3.9', '0.4.0', '1.2.0', '1.4.2', '1.5.0', '2.0.0'];
+      expect(scheme.maxSatisfying(versions, '1.2')).toBe('1.5.0');
+      expect(scheme.maxSatisfying(versions, '0.3.1')).toBe('0.3.9');
+      expect(scheme.maxSatisfying(versions, '>=1.2, <1.5')).toBe('1.4.2');
+      expect(scheme.maxSatisfying(versions, '=1.2.0')).toBe('1.2.0');
+      expect(scheme.maxSatisfying(versions, '~1.4')).toBe('1.4.2');
+    });
+  });
+
+  describe('Composer constraints', () => {
+    const scheme = VersionSchemeFactory.getScheme('composer');
+
+    test('should read tilde, or, and and stability flags like Composer', () => {
+      const versions = ['v0.2.0', 'v0.9.1', 'v1.2.0', 'v1.4.2', 'v1.5.0', 'v2.0.0', 'v2.1.0-beta1', 'v3.0.0'];
+      expect(scheme.maxSatisfying(versions, '~1.2')).toBe('v1.5.0');
+      expect(scheme.maxSatisfying(versions, '~0.2')).toBe('v0.9.1');
+      expect(scheme.maxSatisfying(versions, '~1.4.0')).toBe('v1.4.2');
+      expect(scheme.maxSatisfying(versions, '^1.2 | ^0.2')).toBe('v1.5.0');
+      expect(scheme.maxSatisfying(versions, '>=1.2, <1.5 || >= 3.0')).toBe('v3.0.0');
+      expect(scheme.maxSatisfying(versions, '>=1.2,<1.5')).toBe('v1.4.2');
+      expect(scheme.maxSatisfying(versions, 'v2.0.0@stable')).toBe('v2.0.0');
+      expect(scheme.maxSatisfying(versions, '1.2 - 1.4.2')).toBe('v1.4.2');
+      expect(scheme.maxSatisfying(versions, '@dev')).toBe('v3.0.0');
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { Zembil } from '../zembil';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as os from 'os';
+import * as tar from 'tar';
 
 describe('Zembil', () => {
   let zembil: Zembil;
@@ -104,4 +105,90 @@ describe('Zembil', () => {
     expect(config.offlineMode).toBe(true);
     expect(config.syncInterval).toBe(30);
   });
+
+  describe('offline install', () => {
+    let tarballPath: string;
+
+    beforeEach(async () => {
+      await zembil.initialize();
+
+      const sourceDir = path.join(tempDir, 'source', 'package');
+      await fs.ensureDir(sourceDir);
+      await fs.writeFile(path.join(sourceDir, 'package.json'), '{"name":"left-pad","version":"1.3.0"}');
+      tarballPath = path.join(tempDir, 'source', 'left-pad-1.3.0.tgz');
+      await tar.create({ gzip: true, file: tarballPath, cwd: path.dirname(sourceDir) }, ['package']);
+
+      await zembil.cache.add({ name: 'left-pad', version: '1.3.0', manager: 'npm' }, tarballPath);
+    });
+
+    test('should unpack the cached artifact into node_modules', async () => {
+      const targetDir = path.join(tempDir, 'project');
+      await zembil.install('left-pad', targetDir);
+
+      const manifest = await fs.readJson(path.join(targetDir, 'node_modules', 'left-pad', 'package.json'));
+      expect(manifest.version).toBe('1.3.0');
+    });
+
+    test('should refuse to install a corrupt artifact', async () => {
+      const cached = await zembil.cache.get('left-pad', '1.3.0');
+      await fs.writeFile(cached!.localPath, 'corrupted');
+
+      await expect(zembil.install('left-pad', path.join(tempDir, 'project'))).rejects.toThrow('Checksum mismatch');
+    });
+
+    test('should fail clearly when the cached file is missing', async () => {
+      const cached = await zembil.cache.get('left-pad', '1.3.0');
+      await fs.remove(cached!.localPath);
+
+      await expect(zembil.install('left-pad', path.join(tempDir, 'project'))).rejects.toThrow('is missing');
+    });
+  });
+
+  test('should pick cached versions by ecosystem ordering and ranges', async () => {
+    await zembil.initialize();
+    const packagePath = path.join(tempDir, 'pkg.tgz');
+    await fs.writeFile(packagePath, 'content');
+
+    for (const version of ['1.9.0', '1.10.0', '2.0.0-beta.1']) {
+      await zembil.cache.add({ name: 'lib', version, manager: 'npm' }, packagePath);
+    }
+
+    expect((await zembil.findCachedPackage('lib'))?.version).toBe('1.10.0');
+    expect((await zembil.findCachedPackage('lib', '~1.9'))?.version).toBe('1.9.0');
+    expect(await zembil.findCachedPackage('lib', '^3')).toBeNull();
+  });
+
+  describe('search', () => {
+    beforeEach(async () => {
+      await zembil.initialize();
+      const packagePath = path.join(tempDir, 'pkg.tgz');
+      await fs.writeFile(packagePath, 'content');
+      const docsPath = path.join(tempDir, 'README.md');
+      await fs.writeFile(docsPath, 'Parse and dump documents with a safe loader.');
+
+      await zembil.cache.add({ name: 'js-yaml', version: '4.1.0', manager: 'npm', description: 'YAML 1.2 parser and serializer', license: 'MIT' }, packagePath, docsPath);
+      await zembil.cache.add({ name: 'PyYAML', version: '6.0.1', manager: 'pip', description: 'YAML parser and emitter for Python', license: 'MIT' }, packagePath);
+      await zembil.cache.add({ name: 'lodash', version: '4.17.21', manager: 'npm', description: 'Lodash modular utilities', license: 'MIT' }, packagePath);
+    });
+
+    test('should rank matching packages and return snippets', async () => {
+      const results = await zembil.search('yaml library');
+
+      expect(results.map(result => result.package.name).sort()).toEqual(['PyYAML', 'js-yaml']);
+      expect(results[0].snippet).toContain('**');
+    });
+
+    test('should search cached documentation', async () => {
+      const results = await zembil.search('loader');
+
+      expect(results.map(result => result.package.name)).toEqual(['js-yaml']);
+    });
+
+    test('should filter by manager and drop removed packages', async () => {
+      expect((await zembil.search('yaml', { manager: 'pip' })).map(result => result.package.name)).toEqual(['PyYAML']);
+
+      await zembil.cache.remove('PyYAML', '6.0.1');
+      expect(await zembil.search('yaml', { manager: 'pip' })).toEqual([]);
+    });
+  });
 });
@@ -6,9 +6,81 @@ import ora from 'ora';
 import * as path from 'path';
 import * as os from 'os';
 import { Zembil } from './zembil';
+import { DependencyResolver } from './core/resolver';
+import { Daemon } from './core/daemon';
+import { PackageManagerFactory } from './managers';
+import { DependencyNode, QueueItem } from './types';
+import { ProgressBars, formatBytes } from './utils/progress';
 
 const program = new Command();
 
+/**
+ * Splits a `name@version` argument, leaving scoped npm names like `@scope/pkg` intact.
+ */
+function parsePackageSpec(spec: string): { name: string; version?: string } {
+  const at = spec.lastIndexOf('@');
+  if (at <= 0) {
+    return { name: spec };
+  }
+  return { name: spec.slice(0, at), version: spec.slice(at + 1) || undefined };
+}
+
+/**
+ * Throws unless a package manager is built in or registered by a plugin.
+ */
+function checkManager(manager: string): void {
+  const supported = PackageManagerFactory.getSupportedManagers();
+  if (!supported.includes(manager)) {
+    throw new Error(`Unknown package manager: ${manager} (supported: ${supported.join(', ')})`);
+  }
+}
+
+/**
+ * Splits a comma-separated option value, returning undefined when it is empty.
+ */
+function parseList(value?: string): string[] | undefined {
+  const items = (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Parses a byte count with an optional K, M or G suffix (powers of 1024), e.g. `500K` or `1.5G`.
+ */
+function parseSize(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([kmg]?)i?b?$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid size: ${value}`);
+  }
+  const exponent = ' kmg'.indexOf((match[2] || ' ').toLowerCase());
+  return Math.floor(parseFloat(match[1]) * 1024 ** exponent);
+}
+
+/**
+ * Prints a resolved dependency tree followed by the package count and estimated download size.
+ */
+function printDependencyTree(tree: DependencyNode): void {
+  const printNode = (node: DependencyNode, prefix: string, isLast: boolean, isRoot: boolean) => {
+    const label = node.error
+      ? chalk.red(`${node.name}@${node.requested} ✗ ${node.error}`)
+      : `${node.name}@${node.version}` +
+        (node.circular ? chalk.yellow(' (circular)') : node.deduped ? chalk.gray(' (deduped)') : '');
+    console.log(isRoot ? chalk.bold(label) : `${prefix}${isLast ? '└── ' : '├── '}${label}`);
+
+    const childPrefix = isRoot ? '' : prefix + (isLast ? '    ' : '│   ');
+    node.dependencies.forEach((child, index) => {
+      printNode(child, childPrefix, index === node.dependencies.length - 1, false);
+    });
+  };
+  printNode(tree, '', true, true);
+
+  const packages = DependencyResolver.flatten(tree);
+  const sized = packages.filter(pkg => pkg.size !== undefined);
+  const totalSize = sized.reduce((sum, pkg) => sum + pkg.size!, 0);
+  const unknown = packages.length - sized.length;
+  console.log(`\n📦 ${packages.length} packages, ~${(totalSize / 1024 / 1024).toFixed(2)} MB` +
+    (unknown > 0 ? chalk.gray(` (size unknown for ${unknown})`) : ''));
+}
+
 program
   .name('zembil')
   .description('Offline Package & Docs Cache for developers with unreliable internet')
@@ -39,27 +111,119 @@ const queueCommand = program
 queueCommand
   .command('add <package>')
   .description('Add package to download queue')
-  .option('-v, --version <version>', 'Package version', 'latest')
-  .option('-m, --manager <manager>', 'Package manager (npm, pip, maven)', 'npm')
+  .option('-v, --version <version>', 'Version, range, dist-tag (next, beta), latest or latest:<n> for the n newest versions', 'latest')
+  .option('-m, --manager <manager>', 'Package manager (see `zembil managers`)', 'npm')
   .option('-p, --priority <priority>', 'Download priority (higher = more important)', '0')
+  .option('--platforms <platforms>', 'Extra wheel platforms to cache, comma separated (e.g. manylinux*,win_amd64,sdist)')
+  .option('--classifiers <classifiers>', 'Extra Maven classifiers to cache, comma separated (e.g. sources,javadoc)')
+  .option('-d, --with-deps', 'Also queue the transitive dependencies')
+  .option('--dev', 'Include dev dependencies of the package (with --with-deps)')
+  .option('--peer', 'Include peer dependencies (with --with-deps)')
+  .option('--max-depth <depth>', 'Maximum dependency depth (with --with-deps)')
+  .option('--dry-run', 'Show the dependency tree without queueing (with --with-deps)')
   .action(async (packageName, options) => {
     const spinner = ora(`Adding ${packageName} to queue...`).start();
     try {
       const zembil = new Zembil();
       await zembil.initialize();
+      checkManager(options.manager);
+      const platforms = parseList(options.platforms);
+      const classifiers = parseList(options.classifiers);
+      const artifacts = platforms || classifiers ? { platforms, classifiers } : undefined;
+
+      if (options.withDeps) {
+        spinner.text = `Resolving dependencies of ${packageName}...`;
+        const tree = await zembil.queue.resolveDependencies(packageName, options.version, options.manager, {
+          includeDev: !!options.dev,
+          includePeer: !!options.peer,
+          maxDepth: options.maxDepth !== undefined ? parseInt(options.maxDepth) : undefined
+        });
+        spinner.stop();
+        printDependencyTree(tree);
+
+        if (options.dryRun) {
+          return;
+        }
+
+        const ids = await zembil.queue.addTree(tree, parseInt(options.priority), { artifacts });
+        console.log(chalk.green(`\n✅ Queued ${ids.length} packages (root ID: ${ids[0]})`));
+
+        const cached: string[] = [];
+        for (const node of DependencyResolver.flatten(tree)) {
+          if (await zembil.cache.exists(node.name, node.version)) {
+            cached.push(`${node.name}@${node.version}`);
+          }
+        }
+        if (cached.length > 0) {
+          console.log(chalk.yellow(`${cached.length} of these are already cached and will be skipped by \`zembil sync\` unless it is run with --force: ${cached.join(', ')}`));
+        }
+        return;
+      }
+
+      const queuedSince = new Date();
       const id = await zembil.queue.add(
         packageName, 
         options.version, 
         options.manager, 
-        parseInt(options.priority)
+        parseInt(options.priority),
+        { artifacts }
+      );
+      const added = (await zembil.queue.list()).filter(item =>
+        item.packageName === packageName && item.manager === options.manager && item.queuedAt >= queuedSince
       );
-      spinner.succeed(`Added ${packageName}@${options.version} to queue (ID: ${id})`);
+      const versions = added.map(item => item.version).join(', ');
+      const label = added.some(item => item.unresolved)
+        ? `${packageName}@${options.version} (resolved when online)`
+        : versions === options.version ? `${packageName}@${versions}` : `${packageName}@${versions} (${options.version})`;
+
+      const cached: string[] = [];
+      for (const item of added.filter(item => !item.unresolved)) {
+        if (await zembil.cache.exists(packageName, item.version)) {
+          cached.push(item.version);
+        }
+      }
+      if (cached.length > 0) {
+        spinner.warn(`Added ${label} to queue (ID: ${id}), but ${cached.join(', ')} ${cached.length === 1 ? 'is' : 'are'} already cached; \`zembil sync\` will skip cached versions unless run with --force`);
+      } else {
+        spinner.succeed(`Added ${label} to queue (ID: ${id})`);
+      }
     } catch (error) {
       spinner.fail(`Failed to add package: ${error}`);
       process.exit(1);
     }
   });
 
+queueCommand
+  .command('import <file>')
+  .description('Queue the pinned versions from a lockfile or manifest (package-lock.json, yarn.lock, pnpm-lock.yaml, requirements.txt, poetry.lock, Pipfile.lock, pom.xml)')
+  .option('--no-dev', 'Skip dev dependencies')
+  .option('-p, --priority <priority>', 'Download priority (higher = more important)', '0')
+  .action(async (file, options) => {
+    const spinner = ora(`Importing ${file}...`).start();
+    try {
+      const zembil = new Zembil();
+      await zembil.initialize();
+      const result = await zembil.queue.importLockfile(path.resolve(file), {
+        includeDev: options.dev,
+        priority: parseInt(options.priority)
+      });
+      spinner.succeed(`Queued ${result.queued.length} packages from ${result.format}`);
+
+      const reasons = new Map<string, number>();
+      result.skipped.forEach(({ reason }) => reasons.set(reason, (reasons.get(reason) || 0) + 1));
+      reasons.forEach((count, reason) => console.log(chalk.gray(`   Skipped ${count} (${reason})`)));
+
+      const unpinned = result.skipped.filter(({ reason }) => reason === 'not pinned to an exact version');
+      if (unpinned.length > 0) {
+        console.log(chalk.yellow('\nNot pinned; queue these with `zembil queue add` or pin them first:'));
+        unpinned.forEach(({ entry }) => console.log(chalk.yellow(`   ${entry.name} ${entry.version}`)));
+      }
+    } catch (error) {
+      spinner.fail(`Failed to import ${file}: ${error}`);
+      process.exit(1);
+    }
+  });
+
 queueCommand
   .command('list')
   .description('List queued packages')
@@ -81,14 +245,23 @@ queueCommand
         const status = item.status === 'pending' ? chalk.yellow('⏳') :
                      item.status === 'downloading' ? chalk.blue('⬇️') :
                      item.status === 'completed' ? chalk.green('✅') :
+                     item.status === 'paused' ? chalk.yellow('⏸️') :
+                     item.status === 'cancelled' ? chalk.gray('🚫') :
                      chalk.red('❌');
         
-        console.log(`${status} ${item.packageName}@${item.version} (${item.manager})`);
+        const requested = item.requested && item.requested !== item.version ? `, requested ${item.requested}` : '';
+        console.log(`${status} ${item.packageName}@${item.version} (${item.manager}${requested})`);
         console.log(`   ID: ${item.id}`);
         console.log(`   Priority: ${item.priority}`);
         console.log(`   Queued: ${item.queuedAt.toLocaleString()}`);
+        if (item.attempts) {
+          console.log(`   Attempts: ${item.attempts} (last ${item.lastAttemptAt?.toLocaleString()})`);
+        }
         if (item.error) {
-          console.log(chalk.red(`   Error: ${item.error}`));
+          console.log(chalk.red(`   Error${item.failureKind ? ` (${item.failureKind})` : ''}: ${item.error}`));
+        }
+        if (item.nextRetryAt) {
+          console.log(chalk.yellow(`   Next retry: ${item.nextRetryAt.toLocaleString()}`));
         }
         console.log('');
       });
@@ -98,6 +271,33 @@ queueCommand
     }
   });
 
+queueCommand
+  .command('retry [id]')
+  .description('Queue failed packages for another attempt')
+  .option('-a, --all', 'Retry every failed package')
+  .action(async (id, options) => {
+    if (!id && !options.all) {
+      console.error(chalk.red('Specify a queue item ID or --all'));
+      process.exit(1);
+    }
+
+    const spinner = ora('Requeueing failed packages...').start();
+    try {
+      const zembil = new Zembil();
+      await zembil.initialize();
+      const count = await zembil.queue.retry(options.all ? undefined : id);
+
+      if (count > 0) {
+        spinner.succeed(`Requeued ${count} package${count === 1 ? '' : 's'}; run 'zembil sync' to download`);
+      } else {
+        spinner.fail(id && !options.all ? 'No failed package with that ID in queue' : 'No failed packages in queue');
+      }
+    } catch (error) {
+      spinner.fail(`Failed to retry: ${error}`);
+      process.exit(1);
+    }
+  });
+
 queueCommand
   .command('remove <id>')
   .description('Remove package from queue')
@@ -135,6 +335,66 @@ queueCommand
     }
   });
 
+queueCommand
+  .command('cancel <id>')
+  .description('Cancel a queued package, stopping its download if one is running')
+  .action(async (id) => {
+    const spinner = ora('Cancelling package...').start();
+    try {
+      const zembil = new Zembil();
+      await zembil.initialize();
+
+      if (await zembil.queue.cancel(id)) {
+        spinner.succeed("Package cancelled; use 'zembil queue retry' to queue it again");
+      } else {
+        spinner.fail('No pending, paused or downloading package with that ID in queue');
+      }
+    } catch (error) {
+      spinner.fail(`Failed to cancel: ${error}`);
+      process.exit(1);
+    }
+  });
+
+queueCommand
+  .command('pause [id]')
+  .description('Pause a queued package, or the whole queue; downloads in progress keep their partial files')
+  .action(async (id) => {
+    const spinner = ora('Pausing...').start();
+    try {
+      const zembil = new Zembil();
+      await zembil.initialize();
+
+      if (await zembil.queue.pause(id)) {
+        spinner.succeed(id ? 'Package paused' : "Queue paused; running syncs will stop, run 'zembil queue resume' to continue");
+      } else {
+        spinner.fail(id ? 'No pending or downloading package with that ID in queue' : 'Queue is already paused');
+      }
+    } catch (error) {
+      spinner.fail(`Failed to pause: ${error}`);
+      process.exit(1);
+    }
+  });
+
+queueCommand
+  .command('resume [id]')
+  .description('Resume a paused package, or the whole queue')
+  .action(async (id) => {
+    const spinner = ora('Resuming...').start();
+    try {
+      const zembil = new Zembil();
+      await zembil.initialize();
+
+      if (await zembil.queue.resume(id)) {
+        spinner.succeed(id ? "Package resumed; run 'zembil sync' to download" : "Queue resumed; run 'zembil sync' to download");
+      } else {
+        spinner.fail(id ? 'No paused package with that ID in queue' : 'Queue is not paused');
+      }
+    } catch (error) {
+      spinner.fail(`Failed to resume: ${error}`);
+      process.exit(1);
+    }
+  });
+
 queueCommand
   .command('status')
   .description('Show queue status')
@@ -150,6 +410,11 @@ queueCommand
       console.log(`⬇️  Downloading: ${status.downloading}`);
       console.log(`✅ Completed: ${status.completed}`);
       console.log(`❌ Failed: ${status.failed}`);
+      console.log(`⏸️  Paused: ${status.paused}`);
+      console.log(`🚫 Cancelled: ${status.cancelled}`);
+      if (await zembil.queue.isPaused()) {
+        console.log(chalk.yellow("\nThe queue is paused; run 'zembil queue resume' to download again"));
+      }
     } catch (error) {
       console.error(chalk.red(`Failed to get status: ${error}`));
       process.exit(1);
@@ -160,35 +425,197 @@ queueCommand
 program
   .command('sync')
   .description('Download queued packages (requires internet)')
-  .option('-f, --force', 'Force download even if package exists in cache')
+  .option('-f, --force', 'Download packages again even if they are already cached')
+  .option('-c, --concurrency <count>', 'Number of parallel downloads (default from config)')
+  .option('--limit-rate <rate>', 'Maximum download rate in bytes per second, e.g. 200K (default from config)')
+  .option('--max-data <size>', 'Stop after downloading this much data, e.g. 500M (default from config)')
   .action(async (options) => {
     const spinner = ora('Syncing packages...').start();
+    const bars = new ProgressBars();
     try {
       const zembil = new Zembil();
       await zembil.initialize();
+
+      const label = (item: QueueItem) => `${item.packageName}@${item.version}`;
+      zembil.on('sync:start', ({ items }) => {
+        spinner.stop();
+        bars.log(chalk.blue(`Syncing ${items} packages...`));
+      });
+      zembil.on('download:start', ({ item }) => bars.update(item.id, { label: label(item), received: 0, bytesPerSecond: 0 }));
+      zembil.on('download:progress', progress => bars.update(progress.item.id, { ...progress, label: label(progress.item) }));
+      zembil.on('download:complete', ({ item, bytes }) => {
+        bars.remove(item.id);
+        bars.log(`${chalk.green('✔')} ${label(item)} ${chalk.gray(formatBytes(bytes))}`);
+      });
+      zembil.on('download:skip', ({ item, reason }) => {
+        bars.remove(item.id);
+        if (reason === 'cached') {
+          bars.log(chalk.gray(`• ${label(item)} already cached`));
+        } else if (reason === 'budget') {
+          bars.log(chalk.yellow(`⏸ ${label(item)} left for a later sync (data budget)`));
+        } else if (reason === 'paused' || reason === 'cancelled') {
+          bars.log(chalk.yellow(`⏸ ${label(item)} ${reason}`));
+        }
+      });
+      zembil.on('download:error', ({ item, error, willRetry }) => {
+        bars.remove(item.id);
+        bars.log(chalk.red(`✖ ${label(item)}: ${error.message}`) +
+          (willRetry && item.nextRetryAt ? chalk.gray(` (attempt ${item.attempts}, will retry after ${item.nextRetryAt.toLocaleString()})`) : ''));
+      });
+
+      // The first Ctrl+C stops the sync and keeps partial downloads, a second one exits at once
+      const controller = new AbortController();
+      process.on('SIGINT', () => {
+        if (controller.signal.aborted) {
+          process.exit(130);
+        }
+        controller.abort();
+        bars.log(chalk.yellow('Stopping; partial downloads are kept for the next sync. Press Ctrl+C again to quit now.'));
+      });
       
-      const result = await zembil.sync();
+      const result = await zembil.sync({
+        concurrency: options.concurrency !== undefined ? parseInt(options.concurrency) : undefined,
+        force: !!options.force,
+        rateLimit: options.limitRate !== undefined ? parseSize(options.limitRate) : undefined,
+        dataBudget: options.maxData !== undefined ? { session: parseSize(options.maxData) } : undefined,
+        signal: controller.signal
+      });
+      bars.stop();
+      const used = `${formatBytes(result.bytesUsed)} used`;
       
-      if (result.success) {
-        spinner.succeed(`Sync completed: ${result.downloaded} downloaded, ${result.failed} failed`);
-        if (result.errors.length > 0) {
-          console.log(chalk.red('\nErrors:'));
-          result.errors.forEach(error => console.log(`  • ${error}`));
-        }
+      if (result.stopped) {
+        spinner.warn(`Sync ${result.stopped === 'paused' ? 'stopped because the queue is paused' : 'interrupted'}: ` +
+          `${result.downloaded} downloaded, ${result.skipped} already cached, ${result.failed} failed, ${used}`);
+        process.exitCode = result.stopped === 'interrupted' ? 130 : 0;
+      } else if (result.success) {
+        spinner.succeed(`Sync completed: ${result.downloaded} downloaded, ${result.skipped} already cached, ${result.failed} failed, ${used}`);
       } else {
-        spinner.fail(`Sync failed: ${result.failed} packages failed to download`);
-        result.errors.forEach(error => console.log(chalk.red(`  • ${error}`)));
+        spinner.fail(`Sync failed: ${result.failed} packages failed to download, ${used}`);
+      }
+
+      if (result.deferred > 0) {
+        const reason = result.budgetReached === 'daily' ? "today's data budget is used up"
+          : result.budgetReached === 'session' ? 'the data budget for this sync is used up'
+          : 'they did not fit in the remaining data budget';
+        console.log(chalk.yellow(`\n${result.deferred} packages left in the queue because ${reason}`));
+      }
+
+      if (result.evicted && result.evicted.length > 0) {
+        console.log(chalk.yellow(`\nEvicted ${result.evicted.length} packages to stay under the cache size limit:`));
+        result.evicted.forEach(spec => console.log(`  • ${spec}`));
       }
     } catch (error) {
+      bars.stop();
       spinner.fail(`Sync failed: ${error}`);
       process.exit(1);
     }
   });
 
+// Daemon commands
+const daemonCommand = program
+  .command('daemon')
+  .description('Sync in the background whenever the network is available');
+
+daemonCommand
+  .command('start')
+  .description('Start the background sync daemon')
+  .action(async () => {
+    const spinner = ora('Starting daemon...').start();
+    try {
+      const zembil = new Zembil();
+      await zembil.initialize();
+      const pid = await Daemon.start(zembil.getCacheDir(), [...process.execArgv, process.argv[1], 'daemon', 'run']);
+      spinner.succeed(`Daemon started (pid ${pid}), syncing every ${zembil.getConfig().syncInterval} minutes while online`);
+      console.log(chalk.gray(`Log: ${path.join(zembil.getCacheDir(), 'daemon.log')}`));
+    } catch (error) {
+      spinner.fail(`Failed to start daemon: ${error}`);
+      process.exit(1);
+    }
+  });
+
+daemonCommand
+  .command('stop')
+  .description('Stop the background sync daemon')
+  .action(async () => {
+    const spinner = ora('Stopping daemon...').start();
+    try {
+      const { pid, stopped } = await Daemon.stop(new Zembil().getCacheDir());
+      if (pid === undefined) {
+        spinner.info('Daemon is not running');
+      } else if (stopped) {
+        spinner.succeed(`Daemon stopped (pid ${pid})`);
+      } else {
+        spinner.warn(`Daemon (pid ${pid}) is still stopping its current sync`);
+      }
+    } catch (error) {
+      spinner.fail(`Failed to stop daemon: ${error}`);
+      process.exit(1);
+    }
+  });
+
+daemonCommand
+  .command('status')
+  .description('Show what the background sync daemon is doing')
+  .action(async () => {
+    try {
+      const zembil = new Zembil();
+      const status = await Daemon.getStatus(zembil.getCacheDir());
+
+      console.log(chalk.blue('\n🛰️  Daemon Status:'));
+      console.log('─'.repeat(40));
+      console.log(status.running ? chalk.green(`Running (pid ${status.pid}), ${status.state}`) : chalk.gray('Not running'));
+      if (status.online !== undefined) {
+        console.log(`🌐 Network: ${status.online ? 'online' : 'offline'}${status.lastCheckAt ? ` (checked ${status.lastCheckAt.toLocaleString()})` : ''}`);
+      }
+      if (status.lastSyncAt) {
+        const result = status.lastResult;
+        console.log(`🔄 Last sync: ${status.lastSyncAt.toLocaleString()}` +
+          (result ? ` — ${result.downloaded} downloaded, ${result.skipped} already cached, ${result.failed} failed` : ''));
+      }
+      if (status.running && status.nextSyncAt) {
+        console.log(`⏭️  Next sync: ${status.nextSyncAt.toLocaleString()} or when the network returns`);
+      }
+      if (status.lastError) {
+        console.log(chalk.red(`❌ Last error: ${status.lastError}`));
+      }
+      console.log(chalk.gray(`Log: ${path.join(zembil.getCacheDir(), 'daemon.log')}`));
+    } catch (error) {
+      console.error(chalk.red(`Failed to get daemon status: ${error}`));
+      process.exit(1);
+    }
+  });
+
+daemonCommand
+  .command('run')
+  .description('Run the sync daemon in the foreground (used by daemon start)')
+  .action(async () => {
+    try {
+      const zembil = new Zembil();
+      await zembil.initialize();
+      const daemon = new Daemon(zembil);
+
+      // The first signal stops the current sync and keeps partial downloads, a second one exits at once
+      let signals = 0;
+      const shutdown = () => {
+        if (++signals > 1) {
+          process.exit(1);
+        }
+        daemon.stop();
+      };
+      process.on('SIGTERM', shutdown);
+      process.on('SIGINT', shutdown);
+
+      await daemon.run();
+    } catch (error) {
+      console.error(chalk.red(`Daemon failed: ${error}`));
+      process.exit(1);
+    }
+  });
+
 // Install command
 program
   .command('install <packages...>')
-  .description('Install packages from cache (works offline)')
+  .description('Install packages from cache (works offline, accepts name@version)')
   .option('-d, --dir <path>', 'Installation directory', process.cwd())
   .action(async (packages, options) => {
     const spinner = ora('Installing packages from cache...').start();
@@ -196,11 +623,20 @@ program
       const zembil = new Zembil();
       await zembil.initialize();
       
-      for (const packageName of packages) {
-        await zembil.install(packageName, options.dir);
+      const managers = new Set<string>();
+      for (const spec of packages) {
+        const { name, version } = parsePackageSpec(spec);
+        spinner.text = `Installing ${spec} from cache...`;
+        managers.add((await zembil.install(name, options.dir, version)).manager);
       }
       
       spinner.succeed(`Installed ${packages.length} packages from cache`);
+      for (const manager of managers) {
+        const hint = PackageManagerFactory.getRegistration(manager)?.installHint;
+        if (hint) {
+          console.log(chalk.gray(`${manager}: ${hint}`));
+        }
+      }
     } catch (error) {
       spinner.fail(`Installation failed: ${error}`);
       process.exit(1);
@@ -230,7 +666,7 @@ cacheCommand
       console.log('─'.repeat(80));
       
       packages.forEach(pkg => {
-        console.log(`📦 ${pkg.name}@${pkg.version} (${pkg.manager})`);
+        console.log(`📦 ${pkg.name}@${pkg.version} (${pkg.manager})${pkg.pinned ? ' 📌' : ''}`);
         console.log(`   Size: ${(pkg.size / 1024 / 1024).toFixed(2)} MB`);
         console.log(`   Cached: ${pkg.cachedAt.toLocaleString()}`);
         if (pkg.description) {
@@ -265,6 +701,82 @@ cacheCommand
     }
   });
 
+cacheCommand
+  .command('verify')
+  .description('Check cached files against their checksums and upstream integrity data')
+  .option('--requeue', 'Remove broken entries and queue them for download again')
+  .option('--quarantine', 'Move broken entries to the quarantine directory')
+  .action(async (options) => {
+    const spinner = ora('Verifying cache...').start();
+    try {
+      if (options.requeue && options.quarantine) {
+        throw new Error('Use either --requeue or --quarantine, not both');
+      }
+
+      const zembil = new Zembil();
+      await zembil.initialize();
+      const repair = options.requeue ? 'requeue' : options.quarantine ? 'quarantine' : undefined;
+      const report = await zembil.verifyCache(repair);
+
+      if (report.issues.length === 0) {
+        spinner.succeed(`Cache verified: ${report.valid} of ${report.checked} packages intact`);
+        return;
+      }
+
+      spinner.warn(`Cache verified: ${report.valid} of ${report.checked} packages intact, ${report.issues.length} issues found`);
+      report.issues.forEach(issue => {
+        const subject = issue.name ? `${issue.name}@${issue.version}` : issue.path;
+        console.log(chalk.red(`  • ${issue.type}: ${subject}`));
+      });
+
+      if (report.repaired && report.repaired.length > 0) {
+        const action = repair === 'requeue' ? 'Re-queued' : 'Quarantined';
+        console.log(chalk.yellow(`\n${action} ${report.repaired.length} packages`));
+      } else if (!repair) {
+        console.log(chalk.gray(`\nRun with --requeue or --quarantine to repair, or 'zembil cache cleanup' to delete orphaned files.`));
+      }
+    } catch (error) {
+      spinner.fail(`Verification failed: ${error}`);
+      process.exit(1);
+    }
+  });
+
+cacheCommand
+  .command('pin <package> <version>')
+  .description('Pin a cached package so it is never evicted')
+  .action(async (packageName, version) => {
+    try {
+      const zembil = new Zembil();
+      await zembil.initialize();
+      if (await zembil.cache.pin(packageName, version)) {
+        console.log(chalk.green(`📌 Pinned ${packageName}@${version}`));
+      } else {
+        console.log(chalk.yellow(`Package ${packageName}@${version} not found in cache`));
+      }
+    } catch (error) {
+      console.error(chalk.red(`Failed to pin package: ${error}`));
+      process.exit(1);
+    }
+  });
+
+cacheCommand
+  .command('unpin <package> <version>')
+  .description('Allow a pinned package to be evicted again')
+  .action(async (packageName, version) => {
+    try {
+      const zembil = new Zembil();
+      await zembil.initialize();
+      if (await zembil.cache.unpin(packageName, version)) {
+        console.log(chalk.green(`Unpinned ${packageName}@${version}`));
+      } else {
+        console.log(chalk.yellow(`Package ${packageName}@${version} not found in cache`));
+      }
+    } catch (error) {
+      console.error(chalk.red(`Failed to unpin package: ${error}`));
+      process.exit(1);
+    }
+  });
+
 cacheCommand
   .command('cleanup')
   .description('Clean up orphaned files and optimize cache')
@@ -281,6 +793,48 @@ cacheCommand
     }
   });
 
+// Database commands
+const dbCommand = program
+  .command('db')
+  .description('Manage the cache database');
+
+dbCommand
+  .command('migrate')
+  .description('Apply pending schema migrations to the cache database')
+  .option('-s, --status', 'Show applied and pending migrations without running them')
+  .action(async (options) => {
+    try {
+      const zembil = new Zembil();
+      const before = await zembil.getMigrationStatus();
+
+      if (options.status) {
+        console.log(chalk.blue('\n🗄️  Schema Migrations:'));
+        console.log('─'.repeat(60));
+        console.log(`Current version: ${before.currentVersion} (latest: ${before.latestVersion})`);
+        before.applied.forEach(migration => {
+          console.log(chalk.green(`✅ ${migration.version}. ${migration.description} (${migration.appliedAt.toLocaleString()})`));
+        });
+        before.pending.forEach(migration => {
+          console.log(chalk.yellow(`⏳ ${migration.version}. ${migration.description}`));
+        });
+        return;
+      }
+
+      if (before.pending.length === 0) {
+        console.log(chalk.green(`Database is up to date (schema version ${before.currentVersion})`));
+        return;
+      }
+
+      const spinner = ora(`Applying ${before.pending.length} migrations...`).start();
+      await zembil.initialize();
+      spinner.succeed(`Database migrated from schema version ${before.currentVersion} to ${before.latestVersion}`);
+      before.pending.forEach(migration => console.log(`  • ${migration.version}. ${migration.description}`));
+    } catch (error) {
+      console.error(chalk.red(`Migration failed: ${error}`));
+      process.exit(1);
+    }
+  });
+
 // Docs command
 program
   .command('docs <package> <version>')
@@ -304,6 +858,77 @@ program
     }
   });
 
+// Search command
+program
+  .command('search [query...]')
+  .description('Search cached packages, documentation and examples (works offline)')
+  .option('-m, --manager <manager>', 'Only show packages from this package manager')
+  .option('-l, --license <license>', 'Only show packages whose license matches')
+  .option('-n, --limit <count>', 'Maximum number of results', '20')
+  .option('--reindex', 'Rebuild the search index from cached docs and examples first')
+  .action(async (queryWords: string[], options) => {
+    try {
+      const zembil = new Zembil();
+      await zembil.initialize();
+
+      if (options.reindex) {
+        const spinner = ora('Rebuilding search index...').start();
+        const count = await zembil.cache.reindex();
+        spinner.succeed(`Indexed ${count} packages`);
+      }
+
+      const query = queryWords.join(' ');
+      if (!query) {
+        return;
+      }
+
+      const results = await zembil.search(query, {
+        manager: options.manager,
+        license: options.license,
+        limit: parseInt(options.limit)
+      });
+
+      if (results.length === 0) {
+        console.log(chalk.yellow(`No cached packages match "${query}"`));
+        return;
+      }
+
+      console.log(chalk.blue(`\n🔎 Results for "${query}":`));
+      console.log('─'.repeat(80));
+
+      results.forEach(({ package: pkg, snippet }) => {
+        console.log(`📦 ${chalk.bold(`${pkg.name}@${pkg.version}`)} (${pkg.manager})${pkg.license ? ` · ${pkg.license}` : ''}`);
+        if (snippet) {
+          const text = snippet.replace(/\s+/g, ' ').replace(/\*\*(.+?)\*\*/g, (_match, term) => chalk.yellow(term));
+          console.log(`   ${text}`);
+        }
+        console.log('');
+      });
+    } catch (error) {
+      console.error(chalk.red(`Search failed: ${error}`));
+      process.exit(1);
+    }
+  });
+
+// Managers command
+program
+  .command('managers')
+  .description('List supported package managers, including those added by plugins')
+  .action(async () => {
+    try {
+      const zembil = new Zembil();
+      await zembil.initialize();
+
+      for (const name of PackageManagerFactory.getSupportedManagers()) {
+        const registration = PackageManagerFactory.getRegistration(name)!;
+        console.log(`${chalk.bold(name.padEnd(10))} ${registration.description || ''}`);
+      }
+    } catch (error) {
+      console.error(chalk.red(`Failed to list package managers: ${error}`));
+      process.exit(1);
+    }
+  });
+
 // Info command
 program
   .command('info')
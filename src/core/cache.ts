@@ -1,12 +1,26 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import { CachedPackage, CacheInterface, PackageInfo } from '../types';
+import {
+  CachedArtifact,
+  CachedPackage,
+  CacheInterface,
+  DownloadedArtifact,
+  EvictionPolicy,
+  PackageInfo,
+  VerifyIssue,
+  VerifyReport
+} from '../types';
+import { IntegrityUtils } from '../utils/integrity';
 import { Database } from './database';
 
 /**
  * Cache implementation for storing packages, documentation, and examples locally.
  * Provides offline access to packages and their associated resources.
+ *
+ * Package artifacts live in a content-addressable store under `blobs/sha256/`,
+ * keyed by their SHA256 hash, so identical files are only stored once. The
+ * number of package rows pointing at a blob acts as its reference count.
  */
 export class Cache implements CacheInterface {
   private db: Database;
@@ -27,8 +41,10 @@ export class Cache implements CacheInterface {
   async initialize(): Promise<void> {
     await fs.ensureDir(this.cacheDir);
     await fs.ensureDir(path.join(this.cacheDir, 'packages'));
+    await fs.ensureDir(this.getBlobRoot());
     await fs.ensureDir(path.join(this.cacheDir, 'docs'));
     await fs.ensureDir(path.join(this.cacheDir, 'examples'));
+    await fs.ensureDir(this.getTempDir());
     await this.db.initialize();
   }
 
@@ -50,8 +66,8 @@ export class Cache implements CacheInterface {
     const packageHash = await this.calculateHash(packagePath);
     const size = await this.getFileSize(packagePath);
 
-    const cachedPackagePath = path.join(this.cacheDir, 'packages', `${id}.tar.gz`);
-    await fs.copy(packagePath, cachedPackagePath);
+    const previous = await this.get(packageInfo.name, packageInfo.version);
+    const cachedPackagePath = await this.storeBlob(packagePath, packageHash);
 
     let documentationPath: string | undefined;
     if (docsPath && await fs.pathExists(docsPath)) {
@@ -73,13 +89,76 @@ export class Cache implements CacheInterface {
       checksum: packageHash,
       localPath: cachedPackagePath,
       documentationPath,
-      examplesPath: examplesPathCached
+      examplesPath: examplesPathCached,
+      lastAccessedAt: previous?.lastAccessedAt,
+      hitCount: previous?.hitCount,
+      pinned: previous?.pinned
     };
 
     await this.db.savePackage(cachedPackage);
+    await this.indexPackage(cachedPackage);
+    if (previous && previous.localPath !== cachedPackagePath) {
+      await this.releaseBlob(previous.localPath);
+    }
     return id;
   }
 
+  /**
+   * Adds an extra artifact (another wheel, a sources JAR, ...) to a cached package.
+   * @param packageName - Name of the package
+   * @param version - Version of the package
+   * @param artifact - Downloaded artifact
+   * @returns Cached artifact
+   */
+  async addArtifact(packageName: string, version: string, artifact: DownloadedArtifact): Promise<CachedArtifact> {
+    const cached = await this.get(packageName, version);
+    if (!cached) {
+      throw new Error(`Package ${packageName}@${version} is not cached`);
+    }
+
+    const checksum = await this.calculateHash(artifact.path);
+    const previous = (await this.db.listArtifacts(cached.id)).find(entry => entry.filename === artifact.filename);
+
+    const { path: artifactPath, ...info } = artifact;
+    const cachedArtifact: CachedArtifact = {
+      ...info,
+      id: this.generateId(cached.id, artifact.filename),
+      packageId: cached.id,
+      size: await this.getFileSize(artifactPath),
+      checksum,
+      localPath: await this.storeBlob(artifactPath, checksum)
+    };
+
+    await this.db.saveArtifact(cachedArtifact);
+    if (previous && previous.localPath !== cachedArtifact.localPath) {
+      await this.releaseBlob(previous.localPath);
+    }
+    return cachedArtifact;
+  }
+
+  /**
+   * Lists the extra artifacts cached for a package.
+   * @param packageName - Name of the package
+   * @param version - Version of the package
+   * @returns Array of cached artifacts
+   */
+  async getArtifacts(packageName: string, version: string): Promise<CachedArtifact[]> {
+    const cached = await this.get(packageName, version);
+    return cached ? await this.db.listArtifacts(cached.id) : [];
+  }
+
+  /**
+   * Rebuilds the full-text search index from the database and the cached docs and examples.
+   * @returns Number of packages indexed
+   */
+  async reindex(): Promise<number> {
+    const packages = await this.list();
+    for (const pkg of packages) {
+      await this.indexPackage(pkg);
+    }
+    return packages.length;
+  }
+
   /**
    * Retrieves a cached package by name and version.
    * @param packageName - Name of the package
@@ -108,7 +187,13 @@ export class Cache implements CacheInterface {
     const cached = await this.get(packageName, version);
     if (!cached) return false; 
 
-    await fs.remove(cached.localPath);
+    const artifacts = await this.db.listArtifacts(cached.id);
+    await this.db.removePackage(packageName, version);
+
+    await this.releaseBlob(cached.localPath);
+    for (const artifact of artifacts) {
+      await this.releaseBlob(artifact.localPath);
+    }
     if (cached.documentationPath) {
       await fs.remove(cached.documentationPath);
     }
@@ -116,7 +201,6 @@ export class Cache implements CacheInterface {
       await fs.remove(cached.examplesPath);
     }
 
-    await this.db.removePackage(packageName, version);
     return true;
   }
 
@@ -124,34 +208,224 @@ export class Cache implements CacheInterface {
    * Checks if a package exists in the cache.
    * @param packageName - Name of the package
    * @param version - Version of the package
-   * @returns True if package exists and files are intact
+   * @returns True if package exists and its file still matches the recorded checksum
    */
   async exists(packageName: string, version: string): Promise<boolean> {
     const cached = await this.get(packageName, version);
-    return cached !== null && await fs.pathExists(cached.localPath);
+    return cached !== null && await this.verifyChecksum(cached);
+  }
+
+  /**
+   * Records that a cached package was used, for access-based eviction.
+   * @param packageName - Name of the package
+   * @param version - Version of the package
+   */
+  async recordAccess(packageName: string, version: string): Promise<void> {
+    await this.db.recordAccess(packageName, version);
+  }
+
+  /**
+   * Pins a package so it is never evicted.
+   * @param packageName - Name of the package
+   * @param version - Version of the package
+   * @returns True if the package was found
+   */
+  async pin(packageName: string, version: string): Promise<boolean> {
+    return await this.db.setPinned(packageName, version, true);
+  }
+
+  /**
+   * Unpins a package so it can be evicted again.
+   * @param packageName - Name of the package
+   * @param version - Version of the package
+   * @returns True if the package was found
+   */
+  async unpin(packageName: string, version: string): Promise<boolean> {
+    return await this.db.setPinned(packageName, version, false);
+  }
+
+  /**
+   * Evicts unpinned packages until the cache fits within the given size.
+   * @param maxSize - Maximum cache size in bytes
+   * @param policy - Order in which packages are evicted
+   * @returns Packages that were evicted
+   */
+  async evict(maxSize: number, policy: EvictionPolicy): Promise<CachedPackage[]> {
+    const packages = await this.list();
+    const artifacts = await this.db.listArtifacts();
+
+    const filesByPackage = new Map<string, { localPath: string; size: number }[]>();
+    for (const pkg of packages) {
+      filesByPackage.set(pkg.id, [pkg]);
+    }
+    for (const artifact of artifacts) {
+      filesByPackage.get(artifact.packageId)?.push(artifact);
+    }
+
+    const blobs = new Map<string, { size: number; references: number }>();
+    for (const file of Array.from(filesByPackage.values()).flat()) {
+      const blob = blobs.get(file.localPath) || { size: file.size, references: 0 };
+      blob.references++;
+      blobs.set(file.localPath, blob);
+    }
+
+    let currentSize = Array.from(blobs.values()).reduce((total, blob) => total + blob.size, 0);
+    const candidates = packages
+      .filter(pkg => !pkg.pinned)
+      .sort((a, b) => this.compareForEviction(a, b, policy));
+
+    const evicted: CachedPackage[] = [];
+    for (const pkg of candidates) {
+      if (currentSize <= maxSize) break;
+
+      await this.remove(pkg.name, pkg.version);
+      evicted.push(pkg);
+
+      for (const file of filesByPackage.get(pkg.id)!) {
+        const blob = blobs.get(file.localPath)!;
+        blob.references--;
+        if (blob.references === 0) {
+          currentSize -= blob.size;
+        }
+      }
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Checks that a cached package or artifact file still matches its recorded checksum.
+   * @param cached - Cached package or artifact to verify
+   * @returns True if the file exists and its SHA256 hash matches
+   */
+  async verifyChecksum(cached: { localPath: string; checksum: string }): Promise<boolean> {
+    if (!await fs.pathExists(cached.localPath)) {
+      return false;
+    }
+    return await this.calculateHash(cached.localPath) === cached.checksum;
+  }
+
+  /**
+   * Audits the cache: re-hashes every stored file against the database, checks
+   * upstream integrity data, and finds rows without files and files without rows.
+   * @returns Verification report
+   */
+  async verify(): Promise<VerifyReport> {
+    const packages = await this.list();
+    const artifacts = await this.db.listArtifacts();
+    const issues: VerifyIssue[] = [];
+    const hashes = new Map<string, string>();
+    let valid = 0;
+
+    const files = [
+      ...packages.map(pkg => ({ file: pkg as { localPath: string; checksum: string; integrity?: string }, pkg })),
+      ...artifacts.map(artifact => ({ file: artifact, pkg: packages.find(pkg => pkg.id === artifact.packageId) }))
+    ];
+
+    for (const { file, pkg } of files) {
+      const subject = { path: file.localPath, name: pkg?.name, version: pkg?.version, manager: pkg?.manager };
+
+      if (!await fs.pathExists(file.localPath)) {
+        issues.push({ ...subject, type: 'missing-file' });
+        continue;
+      }
+
+      let actual = hashes.get(file.localPath);
+      if (!actual) {
+        actual = await this.calculateHash(file.localPath);
+        hashes.set(file.localPath, actual);
+      }
+      if (actual !== file.checksum) {
+        issues.push({ ...subject, type: 'checksum-mismatch', expected: file.checksum, actual });
+        continue;
+      }
+
+      if (file.integrity && await IntegrityUtils.verify(file.localPath, file.integrity) === false) {
+        issues.push({ ...subject, type: 'integrity-mismatch', expected: file.integrity });
+        continue;
+      }
+
+      valid++;
+    }
+
+    const referenced = await this.getReferencedPaths();
+    const storedFiles = [...await this.listBlobs(), ...await this.listLegacyFiles()];
+    for (const filePath of storedFiles) {
+      if (!referenced.has(path.resolve(filePath))) {
+        issues.push({ type: 'orphaned-file', path: filePath });
+      }
+    }
+
+    return { checked: files.length, valid, issues };
+  }
+
+  /**
+   * Removes a package from the cache and moves its file to `quarantine/` for inspection.
+   * The file stays in place while other packages still reference it.
+   * @param packageName - Name of the package
+   * @param version - Version of the package
+   * @returns True if the package was found
+   */
+  async quarantine(packageName: string, version: string): Promise<boolean> {
+    const cached = await this.get(packageName, version);
+    if (!cached) return false;
+
+    const artifacts = await this.db.listArtifacts(cached.id);
+    await this.db.removePackage(packageName, version);
+    for (const artifact of artifacts) {
+      await this.releaseBlob(artifact.localPath);
+    }
+
+    const references = await this.db.countPackageReferences(cached.localPath);
+    if (references === 0 && await fs.pathExists(cached.localPath)) {
+      const safeName = `${cached.manager}-${cached.name}-${cached.version}`.replace(/[^a-zA-Z0-9._-]/g, '_');
+      const target = path.join(this.cacheDir, 'quarantine', `${safeName}-${Date.now()}`);
+      await fs.move(cached.localPath, target);
+    }
+    if (cached.documentationPath) {
+      await fs.remove(cached.documentationPath);
+    }
+    if (cached.examplesPath) {
+      await fs.remove(cached.examplesPath);
+    }
+
+    return true;
   }
 
   /**
-   * Gets the total size of all cached packages.
+   * Gets the total size of all cached packages and their artifacts.
+   * Blobs shared by several packages are only counted once.
    * @returns Total size in bytes
    */
   async getSize(): Promise<number> {
-    const packages = await this.list();
-    return packages.reduce((total, pkg) => total + pkg.size, 0);
+    const files = [...await this.list(), ...await this.db.listArtifacts()];
+    const sizes = new Map<string, number>();
+    for (const file of files) {
+      sizes.set(file.localPath, file.size);
+    }
+    return Array.from(sizes.values()).reduce((total, size) => total + size, 0);
+  }
+
+  /**
+   * Gets the directory for downloads in progress. Partial files are kept here
+   * between syncs so that interrupted downloads can be resumed.
+   * @returns Temporary download directory
+   */
+  getTempDir(): string {
+    return path.join(this.cacheDir, 'tmp');
   }
 
   /**
    * Cleans up orphaned files and optimizes cache storage.
+   * Blobs and legacy package files that no package references are deleted.
    */
   async cleanup(): Promise<void> {
     const packages = await this.list();
-    const packageFiles = await fs.readdir(path.join(this.cacheDir, 'packages'));
-    
-    for (const file of packageFiles) {
-      const id = path.basename(file, '.tar.gz');
-      const exists = packages.some(pkg => pkg.id === id);
-      if (!exists) {
-        await fs.remove(path.join(this.cacheDir, 'packages', file));
+    const referenced = await this.getReferencedPaths();
+
+    for (const filePath of [...await this.listBlobs(), ...await this.listLegacyFiles()]) {
+      if (!referenced.has(path.resolve(filePath))) {
+        await fs.remove(filePath);
       }
     }
 
@@ -159,6 +433,150 @@ export class Cache implements CacheInterface {
     await this.cleanupDirectory(path.join(this.cacheDir, 'examples'), packages);
   }
 
+  /**
+   * Collects the stored files referenced by any package or artifact.
+   * @returns Set of resolved file paths
+   */
+  private async getReferencedPaths(): Promise<Set<string>> {
+    const files = [...await this.list(), ...await this.db.listArtifacts()];
+    return new Set(files.map(file => path.resolve(file.localPath)));
+  }
+
+  /**
+   * Adds a package's metadata, documentation and examples to the search index.
+   * @param pkg - Cached package to index
+   */
+  private async indexPackage(pkg: CachedPackage): Promise<void> {
+    await this.db.indexPackage(pkg.id, {
+      name: pkg.name,
+      description: pkg.description,
+      docs: pkg.documentationPath ? await this.readText(pkg.documentationPath) : undefined,
+      examples: pkg.examplesPath ? await this.readText(pkg.examplesPath) : undefined
+    });
+  }
+
+  /**
+   * Reads a text file, or every file in a directory, for indexing.
+   * Content beyond the limit is not indexed.
+   * @param targetPath - File or directory path
+   * @param limit - Maximum number of characters to read
+   * @returns Concatenated text content
+   */
+  private async readText(targetPath: string, limit: number = 1024 * 1024): Promise<string> {
+    if (!await fs.pathExists(targetPath)) return '';
+
+    const stats = await fs.stat(targetPath);
+    if (stats.isFile()) {
+      return (await fs.readFile(targetPath, 'utf8')).slice(0, limit);
+    }
+
+    let text = '';
+    for (const entry of (await fs.readdir(targetPath)).sort()) {
+      if (text.length >= limit) break;
+      text += `${await this.readText(path.join(targetPath, entry), limit - text.length)}\n`;
+    }
+    return text;
+  }
+
+  /**
+   * Orders packages so the first one is the best eviction candidate.
+   * @param a - First package
+   * @param b - Second package
+   * @param policy - Eviction policy
+   * @returns Negative if `a` should be evicted before `b`
+   */
+  private compareForEviction(a: CachedPackage, b: CachedPackage, policy: EvictionPolicy): number {
+    const lastUsed = (pkg: CachedPackage) => (pkg.lastAccessedAt || pkg.cachedAt).getTime();
+
+    switch (policy) {
+      case 'lfu':
+        return (a.hitCount || 0) - (b.hitCount || 0) || lastUsed(a) - lastUsed(b);
+      case 'oldest':
+        return a.cachedAt.getTime() - b.cachedAt.getTime();
+      case 'lru':
+      default:
+        return lastUsed(a) - lastUsed(b);
+    }
+  }
+
+  /**
+   * Copies a file into the blob store unless a blob with the same hash already exists.
+   * @param filePath - Path to the file to store
+   * @param hash - SHA256 hash of the file
+   * @returns Path to the stored blob
+   */
+  private async storeBlob(filePath: string, hash: string): Promise<string> {
+    const blobPath = this.getBlobPath(hash);
+    if (await fs.pathExists(blobPath)) {
+      return blobPath;
+    }
+
+    // Unique per call: concurrent downloads may store the same content at once
+    const tempPath = `${blobPath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.ensureDir(path.dirname(blobPath));
+    await fs.copy(filePath, tempPath);
+    await fs.move(tempPath, blobPath, { overwrite: true });
+    return blobPath;
+  }
+
+  /**
+   * Deletes a stored file once no package references it any more.
+   * @param localPath - Path to the stored file
+   */
+  private async releaseBlob(localPath: string): Promise<void> {
+    const references = await this.db.countPackageReferences(localPath);
+    if (references === 0) {
+      await fs.remove(localPath);
+    }
+  }
+
+  /**
+   * Lists all files in the blob store.
+   * @returns Array of blob paths
+   */
+  private async listBlobs(): Promise<string[]> {
+    const root = this.getBlobRoot();
+    if (!await fs.pathExists(root)) return [];
+
+    const blobs: string[] = [];
+    for (const prefix of await fs.readdir(root)) {
+      const prefixDir = path.join(root, prefix);
+      if (!(await fs.stat(prefixDir)).isDirectory()) continue;
+      for (const file of await fs.readdir(prefixDir)) {
+        blobs.push(path.join(prefixDir, file));
+      }
+    }
+    return blobs;
+  }
+
+  /**
+   * Lists package files stored in the pre-blob-store `packages/` layout.
+   * @returns Array of legacy package file paths
+   */
+  private async listLegacyFiles(): Promise<string[]> {
+    const legacyDir = path.join(this.cacheDir, 'packages');
+    if (!await fs.pathExists(legacyDir)) return [];
+
+    return (await fs.readdir(legacyDir)).map(file => path.join(legacyDir, file));
+  }
+
+  /**
+   * Gets the root directory of the blob store.
+   * @returns Blob store directory path
+   */
+  private getBlobRoot(): string {
+    return path.join(this.cacheDir, 'blobs', 'sha256');
+  }
+
+  /**
+   * Gets the blob path for a content hash.
+   * @param hash - SHA256 hash of the content
+   * @returns Blob path, sharded by the first two hex characters
+   */
+  private getBlobPath(hash: string): string {
+    return path.join(this.getBlobRoot(), hash.slice(0, 2), hash);
+  }
+
   /**
    * Cleans up orphaned files in a specific directory.
    * @param dirPath - Directory path to clean
@@ -0,0 +1,317 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { Zembil } from '../zembil';
+import { NetworkUtils } from '../utils/network';
+import { DaemonOptions, DaemonStatus } from '../types';
+
+const CHECK_INTERVAL = 30 * 1000;
+const HEARTBEAT_INTERVAL = 30 * 1000;
+const MAX_LOG_SIZE = 1024 * 1024;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Syncs the queue in the background. Connectivity is checked every `checkInterval`;
+ * the queue is processed as soon as the network comes up and again every
+ * `syncInterval` minutes while it stays up. The pid, status and log are kept in
+ * the cache directory (`daemon.pid`, `daemon.json`, `daemon.log`) so other
+ * processes can report on the daemon and stop it. The status is rewritten at
+ * least every 30 seconds, even during a sync, as a heartbeat that tells the
+ * daemon apart from an unrelated process that got its pid after a crash.
+ */
+export class Daemon {
+  private zembil: Zembil;
+  private checkInterval: number;
+  private isConnected: () => Promise<boolean>;
+  private status: DaemonStatus = { running: false, state: 'stopped' };
+  private stopping: boolean = false;
+  private wake: (() => void) | null = null;
+  private syncing: AbortController | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a daemon for an initialized Zembil instance.
+   * @param zembil - Zembil instance whose queue is synced
+   * @param options - Connectivity check interval and probe
+   */
+  constructor(zembil: Zembil, options: DaemonOptions = {}) {
+    this.zembil = zembil;
+    this.checkInterval = options.checkInterval ?? CHECK_INTERVAL;
+    this.isConnected = options.isConnected || (() => NetworkUtils.isConnected());
+  }
+
+  /**
+   * Runs until stop() is called. A sync in progress is stopped, leaving its
+   * downloads to be resumed by the next sync.
+   */
+  async run(): Promise<void> {
+    const cacheDir = this.zembil.getCacheDir();
+    const current = await Daemon.getStatus(cacheDir);
+    if (current.running && current.pid !== process.pid) {
+      throw new Error(`Daemon is already running (pid ${current.pid})`);
+    }
+
+    // The status goes first, so the pid file never names this process without a fresh heartbeat
+    this.status = { running: true, pid: process.pid, state: 'waiting', startedAt: new Date(), syncs: 0 };
+    await this.writeStatus();
+    await fs.writeFile(path.join(cacheDir, 'daemon.pid'), String(process.pid));
+    await this.log(`Daemon started (pid ${process.pid}), syncing every ${this.zembil.getConfig().syncInterval} minutes`);
+    const heartbeat = setInterval(() => {
+      this.writeStatus().catch(error => console.warn('Failed to write daemon status:', error));
+    }, HEARTBEAT_INTERVAL);
+
+    try {
+      while (!this.stopping) {
+        await this.tick();
+        await this.sleep(this.checkInterval);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.status = { ...this.status, running: false, state: 'stopped' };
+      await this.writeStatus();
+      if (await Daemon.readPid(cacheDir) === process.pid) {
+        await fs.remove(path.join(cacheDir, 'daemon.pid'));
+      }
+      await this.log('Daemon stopped');
+    }
+  }
+
+  /**
+   * Asks run() to return, stopping a sync in progress.
+   */
+  stop(): void {
+    this.stopping = true;
+    this.syncing?.abort();
+    if (this.wake) {
+      this.wake();
+    }
+  }
+
+  /**
+   * Gets the status of the daemon for a cache directory.
+   * @param cacheDir - Cache directory the daemon works on
+   * @returns Daemon status; `running` is false unless the process in the pid
+   * file is alive and is the daemon whose heartbeat in `daemon.json` is recent
+   */
+  static async getStatus(cacheDir: string): Promise<DaemonStatus> {
+    const pid = await this.readPid(cacheDir);
+
+    let saved: any = {};
+    try {
+      saved = await fs.readJson(path.join(cacheDir, 'daemon.json'));
+    } catch (error) {
+      // No status yet
+    }
+
+    // After a crash or reboot the pid may belong to another process by now
+    const heartbeatAt = saved.heartbeatAt ? new Date(saved.heartbeatAt).getTime() : 0;
+    const running = pid !== undefined && saved.pid === pid && saved.running === true &&
+      Date.now() - heartbeatAt < 3 * HEARTBEAT_INTERVAL && this.isAlive(pid);
+
+    const toDate = (value?: string) => value ? new Date(value) : undefined;
+    return {
+      ...saved,
+      running,
+      pid: running ? pid : saved.pid,
+      state: running ? saved.state || 'waiting' : 'stopped',
+      startedAt: toDate(saved.startedAt),
+      heartbeatAt: toDate(saved.heartbeatAt),
+      lastCheckAt: toDate(saved.lastCheckAt),
+      lastSyncAt: toDate(saved.lastSyncAt),
+      nextSyncAt: toDate(saved.nextSyncAt)
+    };
+  }
+
+  /**
+   * Starts a detached daemon process and waits until it has written its pid file.
+   * @param cacheDir - Cache directory the daemon works on
+   * @param args - Node arguments that run the daemon in the foreground, e.g. `[cliPath, 'daemon', 'run']`
+   * @returns Pid of the daemon
+   */
+  static async start(cacheDir: string, args: string[]): Promise<number> {
+    const current = await this.getStatus(cacheDir);
+    if (current.running) {
+      throw new Error(`Daemon is already running (pid ${current.pid})`);
+    }
+
+    await fs.ensureDir(cacheDir);
+    await this.rotateLog(cacheDir);
+    const logPath = path.join(cacheDir, 'daemon.log');
+    const log = await fs.open(logPath, 'a');
+    const child = spawn(process.execPath, args, { detached: true, stdio: ['ignore', log, log] });
+    await fs.close(log);
+
+    let exited = false;
+    child.once('exit', () => { exited = true; });
+    child.unref();
+
+    for (let waited = 0; waited < 10000; waited += 100) {
+      if (await this.readPid(cacheDir) === child.pid) {
+        return child.pid!;
+      }
+      if (exited) {
+        break;
+      }
+      await sleep(100);
+    }
+    throw new Error(`Daemon did not start, see ${logPath}`);
+  }
+
+  /**
+   * Asks a running daemon to stop and waits for it to exit.
+   * @param cacheDir - Cache directory the daemon works on
+   * @param timeout - How long to wait for the process to exit, in milliseconds
+   * @returns Pid of the daemon (undefined if none was running) and whether it exited in time
+   */
+  static async stop(cacheDir: string, timeout: number = 10000): Promise<{ pid?: number; stopped: boolean }> {
+    const current = await this.getStatus(cacheDir);
+    if (!current.running) {
+      return { stopped: true };
+    }
+
+    const pid = current.pid!;
+    process.kill(pid, 'SIGTERM');
+    for (let waited = 0; waited < timeout; waited += 100) {
+      if (!this.isAlive(pid)) {
+        return { pid, stopped: true };
+      }
+      await sleep(100);
+    }
+    return { pid, stopped: false };
+  }
+
+  /**
+   * Checks connectivity and syncs when the network just came up or the next sync is due.
+   */
+  private async tick(): Promise<void> {
+    const wasOnline = this.status.online;
+    const online = await this.isConnected();
+    this.status.online = online;
+    this.status.lastCheckAt = new Date();
+
+    if (online !== wasOnline) {
+      await this.log(online ? 'Network is up' : 'Network is down');
+    }
+
+    const due = !this.status.nextSyncAt || Date.now() >= this.status.nextSyncAt.getTime();
+    if (online && (!wasOnline || due)) {
+      await this.sync();
+    } else {
+      this.status.state = online ? 'waiting' : 'offline';
+      await this.writeStatus();
+    }
+  }
+
+  /**
+   * Processes the queue once and schedules the next sync.
+   */
+  private async sync(): Promise<void> {
+    this.status.state = 'syncing';
+    await this.writeStatus();
+    await this.log('Sync started');
+
+    this.syncing = new AbortController();
+    if (this.stopping) {
+      this.syncing.abort();
+    }
+    try {
+      const result = await this.zembil.sync({ signal: this.syncing.signal });
+      this.status.lastResult = { downloaded: result.downloaded, skipped: result.skipped, failed: result.failed, bytesUsed: result.bytesUsed };
+      this.status.lastError = undefined;
+      await this.log(`Sync finished: ${result.downloaded} downloaded, ${result.skipped} already cached, ${result.failed} failed, ${result.bytesUsed} bytes used`);
+      if (result.stopped) {
+        await this.log(`  Sync stopped early, ${result.stopped === 'paused' ? 'the queue is paused' : 'the daemon is stopping'}`);
+      }
+      if (result.deferred > 0) {
+        await this.log(`  ${result.deferred} packages left for later, data budget ${result.budgetReached ? `(${result.budgetReached}) used up` : 'too small'}`);
+      }
+      for (const error of result.errors) {
+        await this.log(`  ${error}`);
+      }
+    } catch (error) {
+      this.status.lastError = error instanceof Error ? error.message : String(error);
+      await this.log(`Sync failed: ${this.status.lastError}`);
+    } finally {
+      this.syncing = null;
+    }
+
+    this.status.lastSyncAt = new Date();
+    this.status.nextSyncAt = new Date(this.status.lastSyncAt.getTime() + this.zembil.getConfig().syncInterval * 60 * 1000);
+    this.status.syncs = (this.status.syncs || 0) + 1;
+    this.status.state = 'waiting';
+    await this.writeStatus();
+  }
+
+  /**
+   * Waits for the given time, or until stop() is called.
+   */
+  private sleep(ms: number): Promise<void> {
+    if (this.stopping) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.wake = null;
+        resolve();
+      }, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Writes the status with a new heartbeat. Writes from the heartbeat timer
+   * and the loop are queued, as they share the temporary file.
+   */
+  private writeStatus(): Promise<void> {
+    const statusPath = path.join(this.zembil.getCacheDir(), 'daemon.json');
+    const write = async () => {
+      this.status.heartbeatAt = new Date();
+      await fs.writeFile(`${statusPath}.tmp`, JSON.stringify(this.status, null, 2));
+      await fs.rename(`${statusPath}.tmp`, statusPath);
+    };
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+
+  private async log(message: string): Promise<void> {
+    await Daemon.rotateLog(this.zembil.getCacheDir());
+    await fs.appendFile(path.join(this.zembil.getCacheDir(), 'daemon.log'), `[${new Date().toISOString()}] ${message}\n`);
+  }
+
+  /**
+   * Keeps one previous log, so a daemon that runs for months does not fill the disk.
+   * The log is copied and truncated rather than moved, because the daemon's
+   * stdout and stderr stay open on it.
+   */
+  private static async rotateLog(cacheDir: string): Promise<void> {
+    const logPath = path.join(cacheDir, 'daemon.log');
+    if (await fs.pathExists(logPath) && (await fs.stat(logPath)).size > MAX_LOG_SIZE) {
+      await fs.copy(logPath, `${logPath}.1`, { overwrite: true });
+      await fs.truncate(logPath, 0);
+    }
+  }
+
+  private static async readPid(cacheDir: string): Promise<number | undefined> {
+    try {
+      const pid = parseInt(await fs.readFile(path.join(cacheDir, 'daemon.pid'), 'utf8'), 10);
+      return isNaN(pid) ? undefined : pid;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private static isAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM: the process exists but belongs to another user
+      return (error as { code?: string }).code === 'EPERM';
+    }
+  }
+}
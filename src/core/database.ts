@@ -1,6 +1,8 @@
 import * as sqlite3 from 'sqlite3';
-// import * as path from 'path';
-import { CachedPackage } from '../types';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { CachedArtifact, CachedPackage, MigrationStatus, QueueItem, SearchOptions, SearchResult } from '../types';
+import { Migration, MIGRATIONS } from './migrations';
 
 /**
  * Database layer for storing package metadata and cache information.
@@ -8,48 +10,142 @@ import { CachedPackage } from '../types';
  */
 export class Database {
   private db: sqlite3.Database;
+  private dbPath: string;
 
   /**
    * Creates a new Database instance.
    * @param dbPath - Path to the SQLite database file
    */
   constructor(dbPath: string) {
+    // sqlite3 opens the file immediately, so the directory has to exist first
+    fs.ensureDirSync(path.dirname(dbPath));
+    this.dbPath = dbPath;
     this.db = new sqlite3.Database(dbPath);
+    this.db.configure('busyTimeout', 5000);
   }
 
   /**
-   * Initializes the database schema.
+   * Initializes the database schema, applying any pending migrations.
+   * Existing databases are backed up before they are migrated.
    */
   async initialize(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.db.serialize(() => {
-        this.db.run(`
-          CREATE TABLE IF NOT EXISTS packages (
-            id TEXT PRIMARY KEY,
-            name TEXT NOT NULL,
-            version TEXT NOT NULL,
-            manager TEXT NOT NULL,
-            description TEXT,
-            homepage TEXT,
-            repository TEXT,
-            license TEXT,
-            dependencies TEXT,
-            devDependencies TEXT,
-            peerDependencies TEXT,
-            cachedAt TEXT NOT NULL,
-            size INTEGER NOT NULL,
-            checksum TEXT NOT NULL,
-            localPath TEXT NOT NULL,
-            documentationPath TEXT,
-            examplesPath TEXT,
-            UNIQUE(name, version)
-          )
-        `, (err) => {
-          if (err) reject(err);
-          else resolve();
+    await this.ensureSchemaVersionTable();
+
+    const currentVersion = await this.getSchemaVersion();
+    const latestVersion = MIGRATIONS[MIGRATIONS.length - 1].version;
+    if (currentVersion > latestVersion) {
+      throw new Error(
+        `Cache database schema version ${currentVersion} is newer than this version of Zembil supports (${latestVersion}). Please upgrade Zembil.`
+      );
+    }
+
+    const pending = MIGRATIONS.filter(migration => migration.version > currentVersion);
+    if (pending.length === 0) {
+      return;
+    }
+
+    if (await this.hasTable('packages')) {
+      await this.backup(currentVersion);
+    }
+
+    for (const migration of pending) {
+      await this.applyMigration(migration);
+    }
+  }
+
+  /**
+   * Gets the applied and pending schema migrations.
+   * @returns Migration status
+   */
+  async getMigrationStatus(): Promise<MigrationStatus> {
+    await this.ensureSchemaVersionTable();
+
+    const rows = await this.all('SELECT version, description, appliedAt FROM schema_version ORDER BY version');
+    const currentVersion = rows.length > 0 ? rows[rows.length - 1].version : 0;
+
+    return {
+      currentVersion,
+      latestVersion: MIGRATIONS[MIGRATIONS.length - 1].version,
+      applied: rows.map(row => ({ version: row.version, description: row.description, appliedAt: new Date(row.appliedAt) })),
+      pending: MIGRATIONS
+        .filter(migration => migration.version > currentVersion)
+        .map(({ version, description }) => ({ version, description }))
+    };
+  }
+
+  /**
+   * Creates the table that records applied migrations.
+   */
+  private async ensureSchemaVersionTable(): Promise<void> {
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        description TEXT NOT NULL,
+        appliedAt TEXT NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * Gets the highest applied migration version.
+   * @returns Schema version, or 0 for an unversioned database
+   */
+  private async getSchemaVersion(): Promise<number> {
+    const row = await this.get('SELECT MAX(version) as version FROM schema_version');
+    return row?.version || 0;
+  }
+
+  /**
+   * Runs a single migration in a transaction and records it.
+   * Another process may have applied it while we waited for the write lock,
+   * so the version is checked again inside the transaction.
+   * @param migration - Migration to apply
+   */
+  private async applyMigration(migration: Migration): Promise<void> {
+    await this.run('BEGIN IMMEDIATE');
+    try {
+      if (await this.getSchemaVersion() < migration.version) {
+        await migration.up({
+          run: async (sql, params) => { await this.run(sql, params); },
+          all: (sql, params) => this.all(sql, params),
+          columnExists: async (table, column) => {
+            const columns = await this.all(`PRAGMA table_info(${table})`);
+            return columns.some(row => row.name === column);
+          }
         });
-      });
-    });
+        await this.run(
+          'INSERT INTO schema_version (version, description, appliedAt) VALUES (?, ?, ?)',
+          [migration.version, migration.description, new Date().toISOString()]
+        );
+      }
+      await this.run('COMMIT');
+    } catch (error) {
+      await this.run('ROLLBACK').catch(() => undefined);
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Migration ${migration.version} (${migration.description}) failed: ${message}`);
+    }
+  }
+
+  /**
+   * Writes a consistent copy of the database next to it before migrating.
+   * @param version - Schema version being backed up
+   * @returns Path to the backup file
+   */
+  private async backup(version: number): Promise<string> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = `${this.dbPath}.v${version}-${timestamp}.bak`;
+    await this.run('VACUUM INTO ?', [backupPath]);
+    return backupPath;
+  }
+
+  /**
+   * Checks whether a table exists.
+   * @param table - Table name
+   * @returns True if the table exists
+   */
+  private async hasTable(table: string): Promise<boolean> {
+    const row = await this.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?", [table]);
+    return !!row;
   }
 
   /**
@@ -62,8 +158,9 @@ export class Database {
         INSERT OR REPLACE INTO packages (
           id, name, version, manager, description, homepage, repository, license,
           dependencies, devDependencies, peerDependencies, cachedAt, size,
-          checksum, localPath, documentationPath, examplesPath
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          checksum, localPath, documentationPath, examplesPath,
+          lastAccessedAt, hitCount, pinned, integrity, registry
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       stmt.run([
@@ -83,7 +180,12 @@ export class Database {
         pkg.checksum,
         pkg.localPath,
         pkg.documentationPath || null,
-        pkg.examplesPath || null
+        pkg.examplesPath || null,
+        pkg.lastAccessedAt ? pkg.lastAccessedAt.toISOString() : null,
+        pkg.hitCount || 0,
+        pkg.pinned ? 1 : 0,
+        pkg.integrity || null,
+        pkg.registry || null
       ], (err) => {
         if (err) reject(err);
         else resolve();
@@ -141,6 +243,14 @@ export class Database {
    * @param version - Package version
    */
   async removePackage(name: string, version: string): Promise<void> {
+    await this.run(
+      'DELETE FROM packages_fts WHERE packageId IN (SELECT id FROM packages WHERE name = ? AND version = ?)',
+      [name, version]
+    );
+    await this.run(
+      'DELETE FROM artifacts WHERE packageId IN (SELECT id FROM packages WHERE name = ? AND version = ?)',
+      [name, version]
+    );
     return new Promise((resolve, reject) => {
       this.db.run(
         'DELETE FROM packages WHERE name = ? AND version = ?',
@@ -154,26 +264,177 @@ export class Database {
   }
 
   /**
-   * Searches packages by name or description.
-   * @param query - Search query
-   * @returns Array of matching packages
+   * Saves an extra artifact for a cached package, replacing one with the same filename.
+   * @param artifact - Artifact to save
+   */
+  async saveArtifact(artifact: CachedArtifact): Promise<void> {
+    await this.run(`
+      INSERT OR REPLACE INTO artifacts (
+        id, packageId, type, filename, platform, classifier, size, checksum, localPath, integrity
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      artifact.id,
+      artifact.packageId,
+      artifact.type,
+      artifact.filename,
+      artifact.platform || null,
+      artifact.classifier || null,
+      artifact.size,
+      artifact.checksum,
+      artifact.localPath,
+      artifact.integrity || null
+    ]);
+  }
+
+  /**
+   * Lists extra artifacts, either for one package or for the whole cache.
+   * @param packageId - Optional cached package ID
+   * @returns Array of artifacts
+   */
+  async listArtifacts(packageId?: string): Promise<CachedArtifact[]> {
+    const rows = packageId
+      ? await this.all('SELECT * FROM artifacts WHERE packageId = ? ORDER BY filename', [packageId])
+      : await this.all('SELECT * FROM artifacts ORDER BY packageId, filename');
+
+    return rows.map(row => ({
+      id: row.id,
+      packageId: row.packageId,
+      type: row.type,
+      filename: row.filename,
+      platform: row.platform || undefined,
+      classifier: row.classifier || undefined,
+      size: row.size,
+      checksum: row.checksum,
+      localPath: row.localPath,
+      integrity: row.integrity || undefined
+    }));
+  }
+
+  /**
+   * Records a cache hit for a package.
+   * @param name - Package name
+   * @param version - Package version
+   */
+  async recordAccess(name: string, version: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'UPDATE packages SET hitCount = hitCount + 1, lastAccessedAt = ? WHERE name = ? AND version = ?',
+        [new Date().toISOString(), name, version],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  /**
+   * Pins or unpins a package so eviction leaves it alone.
+   * @param name - Package name
+   * @param version - Package version
+   * @param pinned - Whether the package should be pinned
+   * @returns True if the package was found
+   */
+  async setPinned(name: string, version: string, pinned: boolean): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'UPDATE packages SET pinned = ? WHERE name = ? AND version = ?',
+        [pinned ? 1 : 0, name, version],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  /**
+   * Counts how many packages and artifacts reference a stored file.
+   * Used as the reference count for deduplicated blobs.
+   * @param localPath - Path to the stored file
+   * @returns Number of package rows pointing at the file
    */
-  async searchPackages(query: string): Promise<CachedPackage[]> {
+  async countPackageReferences(localPath: string): Promise<number> {
     return new Promise((resolve, reject) => {
-      this.db.all(
-        'SELECT * FROM packages WHERE name LIKE ? OR description LIKE ? ORDER BY name',
-        [`%${query}%`, `%${query}%`],
-        (err, rows) => {
+      this.db.get(
+        `SELECT
+          (SELECT COUNT(*) FROM packages WHERE localPath = ?) +
+          (SELECT COUNT(*) FROM artifacts WHERE localPath = ?) as count`,
+        [localPath, localPath],
+        (err, row) => {
           if (err) {
             reject(err);
             return;
           }
-          resolve(rows.map(row => this.rowToPackage(row)));
+          resolve((row as any).count || 0);
         }
       );
     });
   }
 
+  /**
+   * Adds or replaces a package's entry in the full-text search index.
+   * @param packageId - Cached package ID
+   * @param content - Text to index
+   */
+  async indexPackage(
+    packageId: string,
+    content: { name: string; description?: string; docs?: string; examples?: string }
+  ): Promise<void> {
+    await this.run('DELETE FROM packages_fts WHERE packageId = ?', [packageId]);
+    await this.run(
+      'INSERT INTO packages_fts (packageId, name, description, docs, examples) VALUES (?, ?, ?, ?, ?)',
+      [packageId, content.name, content.description || '', content.docs || '', content.examples || '']
+    );
+  }
+
+  /**
+   * Searches package metadata, documentation and examples using the full-text index.
+   * Results are ranked with BM25, weighting names over descriptions over docs and examples.
+   * @param query - Free-text search query; any of its words may match
+   * @param options - Optional manager/license filters and result limit
+   * @returns Ranked search results with a highlighted snippet
+   */
+  async searchPackages(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const terms = query
+      .split(/\s+/)
+      .map(term => term.replace(/"/g, '').trim())
+      .filter(Boolean)
+      .map(term => `"${term}"*`);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const conditions = ['packages_fts MATCH ?'];
+    const params: any[] = [terms.join(' OR ')];
+    if (options.manager) {
+      conditions.push('p.manager = ?');
+      params.push(options.manager);
+    }
+    if (options.license) {
+      conditions.push('p.license LIKE ?');
+      params.push(`%${options.license}%`);
+    }
+    params.push(options.limit || 20);
+
+    const rows = await this.all(`
+      SELECT p.*,
+        bm25(packages_fts, 0.0, 10.0, 5.0, 1.0, 1.0) AS searchRank,
+        snippet(packages_fts, -1, '**', '**', '…', 16) AS searchSnippet
+      FROM packages_fts
+      JOIN packages p ON p.id = packages_fts.packageId
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY searchRank
+      LIMIT ?
+    `, params);
+
+    return rows.map(row => ({
+      package: this.rowToPackage(row),
+      rank: row.searchRank,
+      snippet: row.searchSnippet
+    }));
+  }
+
   /**
    * Gets cache statistics.
    * @returns Cache statistics including total packages, size, and date range
@@ -183,7 +444,7 @@ export class Database {
       this.db.get(`
         SELECT 
           COUNT(*) as totalPackages,
-          SUM(size) as totalSize,
+          (SELECT SUM(size) FROM (SELECT localPath, size FROM packages UNION SELECT localPath, size FROM artifacts)) as totalSize,
           MIN(cachedAt) as oldestCache,
           MAX(cachedAt) as newestCache
         FROM packages
@@ -202,6 +463,265 @@ export class Database {
     });
   }
 
+  /**
+   * Adds an item to the download queue unless the same package version is already queued.
+   * @param item - Queue item to add
+   * @returns True if the item was added
+   */
+  async insertQueueItem(item: QueueItem): Promise<boolean> {
+    const changes = await this.run(`
+      INSERT OR IGNORE INTO queue (
+        id, packageName, version, manager, priority, queuedAt, status, error, artifacts,
+        attempts, lastAttemptAt, nextRetryAt, failureKind, partials, requested, unresolved
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      item.id,
+      item.packageName,
+      item.version,
+      item.manager,
+      item.priority,
+      item.queuedAt.toISOString(),
+      item.status,
+      item.error || null,
+      item.artifacts ? JSON.stringify(item.artifacts) : null,
+      item.attempts || 0,
+      item.lastAttemptAt ? item.lastAttemptAt.toISOString() : null,
+      item.nextRetryAt ? item.nextRetryAt.toISOString() : null,
+      item.failureKind || null,
+      item.partials ? JSON.stringify(item.partials) : null,
+      item.requested || null,
+      item.unresolved ? 1 : 0
+    ]);
+    return changes > 0;
+  }
+
+  /**
+   * Finds the queue item for a package version.
+   * @param name - Package name
+   * @param version - Package version
+   * @param manager - Package manager
+   * @returns Queue item or null if the package is not queued
+   */
+  async findQueueItem(name: string, version: string, manager: string): Promise<QueueItem | null> {
+    const row = await this.get('SELECT * FROM queue WHERE packageName = ? AND version = ? AND manager = ?', [name, version, manager]);
+    return row ? this.rowToQueueItem(row) : null;
+  }
+
+  /**
+   * Lists queue items, highest priority first and oldest first within a priority.
+   * @returns Array of queue items
+   */
+  async listQueueItems(): Promise<QueueItem[]> {
+    const rows = await this.all('SELECT * FROM queue ORDER BY priority DESC, queuedAt, rowid');
+    return rows.map(row => this.rowToQueueItem(row));
+  }
+
+  /**
+   * Counts queue items by status.
+   * @returns Number of items per status
+   */
+  async countQueueItems(): Promise<Record<string, number>> {
+    const rows = await this.all('SELECT status, COUNT(*) as count FROM queue GROUP BY status');
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
+  /**
+   * Claims a pending queue item for download. The claim is a single statement,
+   * so when several processes race for the same item only one of them gets it.
+   * @param id - Queue item ID
+   * @param owner - Process claiming the item
+   * @param leaseExpiresAt - When the claim lapses unless it is renewed
+   * @returns Claimed item, or null if it is gone, not due or claimed by someone else
+   */
+  async claimQueueItem(id: string, owner: string, leaseExpiresAt: Date): Promise<QueueItem | null> {
+    const now = new Date().toISOString();
+    const row = await this.get(`
+      UPDATE queue SET
+        status = 'downloading', leaseOwner = ?, leaseExpiresAt = ?,
+        attempts = attempts + 1, lastAttemptAt = ?, nextRetryAt = NULL
+      WHERE id = ? AND status = 'pending' AND (nextRetryAt IS NULL OR nextRetryAt <= ?)
+      RETURNING *
+    `, [owner, leaseExpiresAt.toISOString(), now, id, now]);
+    return row ? this.rowToQueueItem(row) : null;
+  }
+
+  /**
+   * Extends the lease on a queue item that is being downloaded.
+   * @param id - Queue item ID
+   * @param owner - Process holding the lease
+   * @param leaseExpiresAt - New expiry
+   * @returns True if the lease is still held by the owner
+   */
+  async renewQueueLease(id: string, owner: string, leaseExpiresAt: Date): Promise<boolean> {
+    const changes = await this.run(
+      'UPDATE queue SET leaseExpiresAt = ? WHERE id = ? AND leaseOwner = ?',
+      [leaseExpiresAt.toISOString(), id, owner]
+    );
+    return changes > 0;
+  }
+
+  /**
+   * Puts items whose lease has expired back to pending, for example after the
+   * process downloading them crashed or lost power.
+   * @returns Number of items released
+   */
+  async releaseExpiredLeases(): Promise<number> {
+    return this.run(
+      "UPDATE queue SET status = 'pending', leaseOwner = NULL, leaseExpiresAt = NULL WHERE status = 'downloading' AND leaseExpiresAt <= ?",
+      [new Date().toISOString()]
+    );
+  }
+
+  /**
+   * Saves the progress of a claimed queue item. Once the item leaves the
+   * downloading state its lease is released.
+   * @param item - Queue item to save
+   * @param owner - Process holding the lease
+   * @returns False if the lease was lost, e.g. because it expired and another process took the item
+   */
+  async updateQueueItem(item: QueueItem, owner: string): Promise<boolean> {
+    const changes = await this.run(`
+      UPDATE queue SET
+        status = ?, error = ?, attempts = ?, lastAttemptAt = ?, nextRetryAt = ?, failureKind = ?, partials = ?,
+        leaseOwner = CASE WHEN ? = 'downloading' THEN leaseOwner END,
+        leaseExpiresAt = CASE WHEN ? = 'downloading' THEN leaseExpiresAt END
+      WHERE id = ? AND leaseOwner = ?
+    `, [
+      item.status,
+      item.error || null,
+      item.attempts || 0,
+      item.lastAttemptAt ? item.lastAttemptAt.toISOString() : null,
+      item.nextRetryAt ? item.nextRetryAt.toISOString() : null,
+      item.failureKind || null,
+      item.partials ? JSON.stringify(item.partials) : null,
+      item.status,
+      item.status,
+      item.id,
+      owner
+    ]);
+    return changes > 0;
+  }
+
+  /**
+   * Replaces the requested spec of an unresolved queue item with the version it resolved to.
+   * Fails with a constraint error if that version is already queued.
+   * @param id - Queue item ID
+   * @param version - Resolved version
+   */
+  async setQueueItemVersion(id: string, version: string): Promise<void> {
+    await this.run('UPDATE queue SET version = ?, unresolved = 0 WHERE id = ?', [version, id]);
+  }
+
+  /**
+   * Puts failed queue items back to pending with a fresh attempt count.
+   * @param id - Queue item ID, or undefined for every failed item
+   * @returns Number of items requeued
+   */
+  async retryQueueItems(id?: string): Promise<number> {
+    return id
+      ? this.run("UPDATE queue SET status = 'pending', attempts = 0, nextRetryAt = NULL WHERE id = ? AND status NOT IN ('completed', 'downloading')", [id])
+      : this.run("UPDATE queue SET status = 'pending', attempts = 0, nextRetryAt = NULL WHERE status = 'failed'");
+  }
+
+  /**
+   * Cancels a queue item that has not completed. A lease held on it is
+   * released, so the process downloading it can no longer save progress.
+   * @param id - Queue item ID
+   * @returns Cancelled item as it was before, or null if it is gone or already completed
+   */
+  async cancelQueueItem(id: string): Promise<QueueItem | null> {
+    const row = await this.get('SELECT * FROM queue WHERE id = ?', [id]);
+    const changes = await this.run(
+      "UPDATE queue SET status = 'cancelled', nextRetryAt = NULL, partials = NULL, leaseOwner = NULL, leaseExpiresAt = NULL WHERE id = ? AND status NOT IN ('completed', 'cancelled')",
+      [id]
+    );
+    return changes > 0 && row ? this.rowToQueueItem(row) : null;
+  }
+
+  /**
+   * Pauses a pending or downloading queue item, or resumes a paused one.
+   * Pausing releases a lease held on the item; its partial downloads are kept.
+   * @param id - Queue item ID
+   * @param paused - True to pause, false to resume
+   * @returns False if the item is gone or not in a state that can be paused or resumed
+   */
+  async setQueueItemPaused(id: string, paused: boolean): Promise<boolean> {
+    const changes = paused
+      ? await this.run("UPDATE queue SET status = 'paused', leaseOwner = NULL, leaseExpiresAt = NULL WHERE id = ? AND status IN ('pending', 'downloading')", [id])
+      : await this.run("UPDATE queue SET status = 'pending' WHERE id = ? AND status = 'paused'", [id]);
+    return changes > 0;
+  }
+
+  /**
+   * Gets the status of queue items.
+   * @param ids - Queue item IDs
+   * @returns Status by ID; items that are gone are left out
+   */
+  async getQueueItemStatuses(ids: string[]): Promise<Record<string, string>> {
+    if (ids.length === 0) {
+      return {};
+    }
+    const rows = await this.all(`SELECT id, status FROM queue WHERE id IN (${ids.map(() => '?').join(', ')})`, ids);
+    return Object.fromEntries(rows.map(row => [row.id, row.status]));
+  }
+
+  /**
+   * Removes queue items.
+   * @param id - Queue item ID, or undefined to empty the queue
+   * @returns Removed items
+   */
+  async deleteQueueItems(id?: string): Promise<QueueItem[]> {
+    const rows = id
+      ? await this.all('DELETE FROM queue WHERE id = ? RETURNING *', [id])
+      : await this.all('DELETE FROM queue RETURNING *');
+    return rows.map(row => this.rowToQueueItem(row));
+  }
+
+  /**
+   * Adds to the bytes downloaded on a day.
+   * @param day - Local date as YYYY-MM-DD
+   * @param bytes - Bytes downloaded
+   */
+  async addDataUsage(day: string, bytes: number): Promise<void> {
+    await this.run(
+      'INSERT INTO data_usage (day, bytes) VALUES (?, ?) ON CONFLICT(day) DO UPDATE SET bytes = bytes + excluded.bytes',
+      [day, bytes]
+    );
+  }
+
+  /**
+   * Gets the bytes downloaded on a day.
+   * @param day - Local date as YYYY-MM-DD
+   * @returns Bytes downloaded
+   */
+  async getDataUsage(day: string): Promise<number> {
+    const row = await this.get('SELECT bytes FROM data_usage WHERE day = ?', [day]);
+    return row ? row.bytes : 0;
+  }
+
+  /**
+   * Gets a setting shared by every process using this database.
+   * @param key - Setting name
+   * @returns Value, or undefined if it is not set
+   */
+  async getSetting(key: string): Promise<string | undefined> {
+    const row = await this.get('SELECT value FROM settings WHERE key = ?', [key]);
+    return row ? row.value : undefined;
+  }
+
+  /**
+   * Sets or removes a setting shared by every process using this database.
+   * @param key - Setting name
+   * @param value - New value, or undefined to remove the setting
+   */
+  async setSetting(key: string, value: string | undefined): Promise<void> {
+    if (value === undefined) {
+      await this.run('DELETE FROM settings WHERE key = ?', [key]);
+    } else {
+      await this.run('INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value', [key, value]);
+    }
+  }
+
   /**
    * Converts a database row to a CachedPackage object.
    * @param row - Database row
@@ -225,10 +745,88 @@ export class Database {
       checksum: row.checksum,
       localPath: row.localPath,
       documentationPath: row.documentationPath,
-      examplesPath: row.examplesPath
+      examplesPath: row.examplesPath,
+      lastAccessedAt: row.lastAccessedAt ? new Date(row.lastAccessedAt) : undefined,
+      hitCount: row.hitCount || 0,
+      pinned: !!row.pinned,
+      integrity: row.integrity || undefined,
+      registry: row.registry || undefined
+    };
+  }
+
+  /**
+   * Converts a database row to a QueueItem object.
+   * @param row - Database row
+   * @returns QueueItem object
+   */
+  private rowToQueueItem(row: any): QueueItem {
+    return {
+      id: row.id,
+      packageName: row.packageName,
+      version: row.version,
+      manager: row.manager,
+      priority: row.priority,
+      queuedAt: new Date(row.queuedAt),
+      status: row.status,
+      error: row.error || undefined,
+      artifacts: row.artifacts ? JSON.parse(row.artifacts) : undefined,
+      attempts: row.attempts,
+      lastAttemptAt: row.lastAttemptAt ? new Date(row.lastAttemptAt) : undefined,
+      nextRetryAt: row.nextRetryAt ? new Date(row.nextRetryAt) : undefined,
+      failureKind: row.failureKind || undefined,
+      partials: row.partials ? JSON.parse(row.partials) : undefined,
+      requested: row.requested || undefined,
+      unresolved: row.unresolved ? true : undefined,
+      leaseOwner: row.leaseOwner || undefined,
+      leaseExpiresAt: row.leaseExpiresAt ? new Date(row.leaseExpiresAt) : undefined
     };
   }
 
+  /**
+   * Runs a statement.
+   * @param sql - SQL statement
+   * @param params - Statement parameters
+   * @returns Number of rows changed
+   */
+  private run(sql: string, params: any[] = []): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, function (err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+      });
+    });
+  }
+
+  /**
+   * Runs a query and returns the first row.
+   * @param sql - SQL query
+   * @param params - Query parameters
+   * @returns First row or undefined
+   */
+  private get(sql: string, params: any[] = []): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.db.get(sql, params, (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+  }
+
+  /**
+   * Runs a query and returns all rows.
+   * @param sql - SQL query
+   * @param params - Query parameters
+   * @returns Matching rows
+   */
+  private all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+  }
+
   /**
    * Closes the database connection.
    */
@@ -0,0 +1,187 @@
+/**
+ * Operations available to a migration while it runs inside its transaction.
+ */
+export interface MigrationContext {
+  run(sql: string, params?: any[]): Promise<void>;
+  all(sql: string, params?: any[]): Promise<any[]>;
+  columnExists(table: string, column: string): Promise<boolean>;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(context: MigrationContext): Promise<void>;
+}
+
+/**
+ * Adds a column unless an earlier release already created it.
+ * @param context - Migration context
+ * @param table - Table name
+ * @param column - Column name
+ * @param definition - Column type and constraints
+ */
+async function addColumn(context: MigrationContext, table: string, column: string, definition: string): Promise<void> {
+  if (!await context.columnExists(table, column)) {
+    await context.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Ordered schema migrations for cache.db. Each migration runs once, in its own
+ * transaction, and is recorded in the `schema_version` table.
+ * Never edit a released migration; append a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create packages table',
+    up: async (context) => {
+      await context.run(`
+        CREATE TABLE IF NOT EXISTS packages (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          version TEXT NOT NULL,
+          manager TEXT NOT NULL,
+          description TEXT,
+          homepage TEXT,
+          repository TEXT,
+          license TEXT,
+          dependencies TEXT,
+          devDependencies TEXT,
+          peerDependencies TEXT,
+          cachedAt TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          checksum TEXT NOT NULL,
+          localPath TEXT NOT NULL,
+          documentationPath TEXT,
+          examplesPath TEXT,
+          UNIQUE(name, version)
+        )
+      `);
+    }
+  },
+  {
+    // Caches created before migrations existed may already have these columns
+    version: 2,
+    description: 'Track package access, pinning and upstream integrity',
+    up: async (context) => {
+      await addColumn(context, 'packages', 'lastAccessedAt', 'TEXT');
+      await addColumn(context, 'packages', 'hitCount', 'INTEGER NOT NULL DEFAULT 0');
+      await addColumn(context, 'packages', 'pinned', 'INTEGER NOT NULL DEFAULT 0');
+      await addColumn(context, 'packages', 'integrity', 'TEXT');
+    }
+  },
+  {
+    version: 3,
+    description: 'Add full-text search index over packages, docs and examples',
+    up: async (context) => {
+      await context.run(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS packages_fts USING fts5(
+          packageId UNINDEXED,
+          name,
+          description,
+          docs,
+          examples,
+          tokenize = 'porter unicode61'
+        )
+      `);
+      // Docs and examples live on disk; `zembil search --reindex` picks them up
+      await context.run(`
+        INSERT INTO packages_fts (packageId, name, description, docs, examples)
+        SELECT id, name, COALESCE(description, ''), '', '' FROM packages
+      `);
+    }
+  },
+  {
+    version: 4,
+    description: 'Add artifacts table for extra files per package version',
+    up: async (context) => {
+      await context.run(`
+        CREATE TABLE IF NOT EXISTS artifacts (
+          id TEXT PRIMARY KEY,
+          packageId TEXT NOT NULL,
+          type TEXT NOT NULL,
+          filename TEXT NOT NULL,
+          platform TEXT,
+          classifier TEXT,
+          size INTEGER NOT NULL,
+          checksum TEXT NOT NULL,
+          localPath TEXT NOT NULL,
+          integrity TEXT,
+          UNIQUE(packageId, filename)
+        )
+      `);
+      await context.run('CREATE INDEX IF NOT EXISTS idx_artifacts_packageId ON artifacts(packageId)');
+    }
+  },
+  {
+    // Items from an existing queue.json are imported by Queue.initialize
+    version: 5,
+    description: 'Move the download queue into the database',
+    up: async (context) => {
+      await context.run(`
+        CREATE TABLE IF NOT EXISTS queue (
+          id TEXT PRIMARY KEY,
+          packageName TEXT NOT NULL,
+          version TEXT NOT NULL,
+          manager TEXT NOT NULL,
+          priority INTEGER NOT NULL DEFAULT 0,
+          queuedAt TEXT NOT NULL,
+          status TEXT NOT NULL,
+          error TEXT,
+          artifacts TEXT,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          lastAttemptAt TEXT,
+          nextRetryAt TEXT,
+          failureKind TEXT,
+          partials TEXT,
+          leaseOwner TEXT,
+          leaseExpiresAt TEXT,
+          UNIQUE(manager, packageName, version)
+        )
+      `);
+      await context.run('CREATE INDEX IF NOT EXISTS idx_queue_status ON queue(status, priority)');
+    }
+  },
+  {
+    version: 6,
+    description: 'Record the requested version spec of queue items',
+    up: async (context) => {
+      await addColumn(context, 'queue', 'requested', 'TEXT');
+      await addColumn(context, 'queue', 'unresolved', 'INTEGER NOT NULL DEFAULT 0');
+      // Older versions queued the literal string `latest` as the version
+      await context.run("UPDATE queue SET requested = version, unresolved = 1 WHERE version = 'latest' AND status != 'completed'");
+    }
+  },
+  {
+    version: 7,
+    description: 'Create data_usage table for daily data budgets',
+    up: async (context) => {
+      await context.run(`
+        CREATE TABLE IF NOT EXISTS data_usage (
+          day TEXT PRIMARY KEY,
+          bytes INTEGER NOT NULL DEFAULT 0
+        )
+      `);
+    }
+  },
+  {
+    version: 8,
+    description: 'Create settings table for state shared by processes, such as a paused queue',
+    up: async (context) => {
+      await context.run(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 9,
+    description: 'Record the registry each package was downloaded from',
+    up: async (context) => {
+      await addColumn(context, 'packages', 'registry', 'TEXT');
+    }
+  }
+];
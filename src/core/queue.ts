@@ -1,16 +1,72 @@
 import * as fs from 'fs-extra';
+import * as os from 'os';
 import * as path from 'path';
-import { QueueInterface, QueueItem, PackageManager, SyncResult } from '../types';
+import * as crypto from 'crypto';
+import {
+  DependencyNode,
+  DependencyOptions,
+  DownloadOptions,
+  ImportOptions,
+  ImportResult,
+  PackageInfo,
+  PackageManager,
+  PackageManagerInterface,
+  ProcessOptions,
+  QueueAddOptions,
+  QueueCounts,
+  QueueInterface,
+  QueueItem,
+  RetryPolicy,
+  SkipReason,
+  SyncEvents,
+  SyncResult
+} from '../types';
 import { PackageManagerFactory } from '../managers';
+import { LockfileParser } from '../lockfiles';
+import { PoolUtils } from '../utils/pool';
+import { NetworkUtils } from '../utils/network';
+import { IntegrityUtils } from '../utils/integrity';
+import { DataMeter } from '../utils/bandwidth';
+import { TypedEmitter } from '../utils/events';
 import { Cache } from './cache';
+import { Database } from './database';
+import { DependencyResolver } from './resolver';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelay: 60 * 1000, // 1 minute
+  maxDelay: 6 * 60 * 60 * 1000 // 6 hours
+};
+
+// A download holds its item for this long and renews the lease a few times over
+const LEASE_DURATION = 5 * 60 * 1000; // 5 minutes
+// How often a sync checks whether the queue, or an item it is downloading, was paused or cancelled
+const CONTROL_INTERVAL = 2 * 1000;
+const PAUSED_SETTING = 'queuePaused';
 
 /**
  * Queue system for managing package downloads with priority and retry logic.
  * Handles batch processing and error recovery for offline package caching.
+ *
+ * Items live in the `queue` table of cache.db, so several zembil processes can
+ * share one queue. A worker claims an item before downloading it and holds a
+ * lease while it works; if the process dies, the lease expires and the item
+ * goes back to pending.
+ *
+ * While it processes items the queue emits SyncEvents (`download:start`,
+ * `download:progress`, `download:complete`, ...) for progress displays.
+ *
+ * Items and the whole queue can be paused, and items cancelled, from any
+ * process; a running sync notices within a few seconds and stops the affected
+ * downloads. Paused and interrupted downloads keep their partial files.
  */
-export class Queue implements QueueInterface {
-  private queueFile: string;
+export class Queue extends TypedEmitter<SyncEvents> implements QueueInterface {
+  private legacyQueueFile: string;
   private cache: Cache;
+  private db: Database;
+  private owner: string;
+  // Downloads running in this process, so they can be stopped right away
+  private running = new Map<string, AbortController>();
 
   /**
    * Creates a new Queue instance.
@@ -18,56 +74,160 @@ export class Queue implements QueueInterface {
    * @param cache - Cache instance for storing packages
    */
   constructor(cacheDir: string, cache: Cache) {
-    this.queueFile = path.join(cacheDir, 'queue.json');
+    super();
+    this.legacyQueueFile = path.join(cacheDir, 'queue.json');
     this.cache = cache;
+    this.db = new Database(path.join(cacheDir, 'cache.db'));
+    this.owner = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
   }
 
   /**
-   * Initializes the queue system.
+   * Initializes the queue system, importing a queue.json left by an older version.
    */
   async initialize(): Promise<void> {
-    await fs.ensureFile(this.queueFile);
-    const queueData = await this.loadQueue();
-    if (!queueData) {
-      await this.saveQueue([]);
-    }
+    await this.db.initialize();
+    await this.migrateQueueFile();
   }
 
   /**
-   * Adds a package to the download queue.
+   * Adds a package to the download queue. Tags, ranges and `latest:<n>` are
+   * resolved to concrete versions through the registry, and the spec is kept
+   * as `requested`. When the registry cannot be reached, the spec is queued
+   * as it is and resolved when the queue is processed.
    * @param packageName - Name of the package
-   * @param version - Version of the package
+   * @param version - Version, dist-tag, range, `latest` or `latest:<n>`
    * @param manager - Package manager to use
    * @param priority - Download priority (higher = more important)
-   * @returns Unique queue item ID
+   * @param options - Extra artifacts to download alongside the package, and
+   * whether to queue its resolved dependency tree as well
+   * @returns Unique queue item ID, of the newest version if several were queued
    */
-  async add(packageName: string, version: string, manager: PackageManager, priority: number = 0): Promise<string> {
-    const id = this.generateId(packageName, version, manager);
-    const queueItem: QueueItem = {
-      id,
-      packageName,
-      version,
-      manager,
-      priority,
-      queuedAt: new Date(),
-      status: 'pending'
-    };
+  async add(packageName: string, version: string, manager: PackageManager, priority: number = 0, options: QueueAddOptions = {}): Promise<string> {
+    if (options.withDeps) {
+      const tree = await new DependencyResolver().resolve(packageName, version, manager, options.withDeps);
+      const [id] = await this.addTree(tree, priority, { artifacts: options.artifacts });
+      return id;
+    }
 
-    const queue = await this.loadQueue();
-    
-    const existing = queue.find(item => 
-      item.packageName === packageName && 
-      item.version === version && 
-      item.manager === manager
-    );
-    
-    if (existing) {
-      throw new Error(`Package ${packageName}@${version} is already queued`);
+    let versions: string[];
+    let unresolved = false;
+    try {
+      versions = await new DependencyResolver().resolveVersions(packageName, version, manager);
+    } catch (error) {
+      if (!NetworkUtils.isTransientError(error)) {
+        throw error;
+      }
+      versions = [version];
+      unresolved = true;
+    }
+
+    const ids: string[] = [];
+    for (const resolved of versions) {
+      const id = this.generateId(packageName, resolved, manager);
+      const added = await this.db.insertQueueItem({
+        id,
+        packageName,
+        version: resolved,
+        manager,
+        priority,
+        queuedAt: new Date(),
+        status: 'pending',
+        artifacts: options.artifacts,
+        requested: version,
+        unresolved: unresolved || undefined
+      });
+      if (added) {
+        ids.push(id);
+      }
+    }
+
+    if (ids.length === 0) {
+      throw new Error(`Package ${packageName}@${versions.join(', ')} is already queued`);
+    }
+    return ids[0];
+  }
+
+  /**
+   * Resolves the dependency tree of a package without queueing anything.
+   * @param packageName - Name of the package
+   * @param version - Version, range or `latest`
+   * @param manager - Package manager to use
+   * @param options - Dev/peer dependency and depth settings
+   * @returns Dependency tree
+   */
+  async resolveDependencies(packageName: string, version: string, manager: PackageManager, options: DependencyOptions = {}): Promise<DependencyNode> {
+    return new DependencyResolver().resolve(packageName, version, manager, options);
+  }
+
+  /**
+   * Queues every resolved package of a dependency tree. Packages that are
+   * already queued are kept as they are.
+   * @param tree - Dependency tree from `resolveDependencies`
+   * @param priority - Download priority for every package
+   * @param options - Extra artifacts for the root package
+   * @returns Queue item IDs, root first
+   */
+  async addTree(tree: DependencyNode, priority: number = 0, options: QueueAddOptions = {}): Promise<string[]> {
+    const ids: string[] = [];
+
+    for (const node of DependencyResolver.flatten(tree)) {
+      const id = this.generateId(node.name, node.version, node.manager);
+      const added = await this.db.insertQueueItem({
+        id,
+        packageName: node.name,
+        version: node.version,
+        manager: node.manager,
+        priority,
+        queuedAt: new Date(),
+        status: 'pending',
+        artifacts: node === tree ? options.artifacts : undefined,
+        requested: node.requested
+      });
+      ids.push(added ? id : (await this.db.findQueueItem(node.name, node.version, node.manager))!.id);
     }
 
-    queue.push(queueItem);
-    await this.saveQueue(queue);
-    return id;
+    return ids;
+  }
+
+  /**
+   * Queues the exact versions pinned by a lockfile or manifest. Packages that
+   * are already cached or queued, and entries without an exact version, are skipped.
+   * @param filePath - Path to the lockfile or manifest
+   * @param options - Whether to include dev dependencies, and the download priority
+   * @returns Queued and skipped entries
+   */
+  async importLockfile(filePath: string, options: ImportOptions = {}): Promise<ImportResult> {
+    const { format, entries } = await LockfileParser.parse(filePath);
+    const result: ImportResult = { format, queued: [], skipped: [] };
+
+    for (const entry of entries) {
+      let reason: string | undefined;
+      if (entry.dev && options.includeDev === false) {
+        reason = 'dev dependency';
+      } else if (entry.unpinned) {
+        reason = 'not pinned to an exact version';
+      } else if (await this.cache.get(entry.name, entry.version)) {
+        reason = 'already cached';
+      } else if (!await this.db.insertQueueItem({
+        id: this.generateId(entry.name, entry.version, entry.manager),
+        packageName: entry.name,
+        version: entry.version,
+        manager: entry.manager,
+        priority: options.priority ?? 0,
+        queuedAt: new Date(),
+        status: 'pending'
+      })) {
+        reason = 'already queued';
+      }
+
+      if (reason) {
+        result.skipped.push({ entry, reason });
+      } else {
+        result.queued.push(entry);
+      }
+    }
+
+    return result;
   }
 
   /**
@@ -76,16 +236,9 @@ export class Queue implements QueueInterface {
    * @returns True if package was removed, false if not found
    */
   async remove(id: string): Promise<boolean> {
-    const queue = await this.loadQueue();
-    const index = queue.findIndex(item => item.id === id);
-    
-    if (index === -1) {
-      return false;
-    }
-
-    queue.splice(index, 1);
-    await this.saveQueue(queue);
-    return true;
+    const removed = await this.db.deleteQueueItems(id);
+    await this.removePartials(removed);
+    return removed.length > 0;
   }
 
   /**
@@ -93,160 +246,596 @@ export class Queue implements QueueInterface {
    * @returns Array of queue items
    */
   async list(): Promise<QueueItem[]> {
-    const queue = await this.loadQueue();
-    return queue.sort((a, b) => b.priority - a.priority || a.queuedAt.getTime() - b.queuedAt.getTime());
+    await this.db.releaseExpiredLeases();
+    return this.db.listQueueItems();
   }
 
   /**
-   * Processes all pending items in the queue.
-   * Downloads packages and stores them in the cache.
+   * Processes all pending items in the queue, highest priority first.
+   * Downloads packages and stores them in the cache using a pool of workers,
+   * with an optional cap on parallel downloads per registry. Items claimed by
+   * another process in the meantime are left to it. Packages that are already
+   * cached and intact are marked completed without downloading them, unless
+   * `force` is set.
+   *
+   * The sync stops early when `signal` is aborted or the queue is paused:
+   * downloads in progress keep their partial files and go back to pending,
+   * and `stopped` in the result says why.
+   * @param options - Number of workers, per-registry limits, whether to force downloads and a signal to stop
    * @returns Sync result with download statistics
    */
-  async process(): Promise<SyncResult> {
-    const queue = await this.loadQueue();
-    const pendingItems = queue.filter(item => item.status === 'pending');
+  async process(options: ProcessOptions = {}): Promise<SyncResult> {
+    const concurrency = options.concurrency ?? 1;
+    const retry = options.retry ?? DEFAULT_RETRY_POLICY;
+    // Shared by the workers so each package's versions are fetched once per sync
+    const resolver = new DependencyResolver();
+    const attempted = new Set<string>();
+    const limits = new Map<string, number>();
+    const today = this.today();
+    const meter = new DataMeter({
+      rateLimit: options.rateLimit,
+      budget: options.dataBudget,
+      usedToday: options.dataBudget?.daily !== undefined ? await this.db.getDataUsage(today) : 0
+    });
+    let recorded = 0;
+    const inFlight = new Map<string, AbortController>();
     
     const result: SyncResult = {
       success: true,
       downloaded: 0,
+      skipped: 0,
       failed: 0,
       errors: [],
-      totalSize: 0
+      totalSize: 0,
+      bytesUsed: 0,
+      deferred: 0
     };
 
-    for (const item of pendingItems) {
+    const stop = (reason: 'paused' | 'interrupted') => {
+      result.stopped = result.stopped ?? reason;
+      for (const controller of inFlight.values()) {
+        controller.abort('interrupted');
+      }
+    };
+    const onAbort = () => stop('interrupted');
+    options.signal?.addEventListener('abort', onAbort);
+
+    // Pausing and cancelling may happen in another process, so they are picked up from the database
+    const watcher = setInterval(() => {
+      (async () => {
+        if (await this.isPaused()) {
+          stop('paused');
+        }
+        const statuses = await this.db.getQueueItemStatuses(Array.from(inFlight.keys()));
+        for (const [id, controller] of inFlight) {
+          const status = statuses[id];
+          if (status === 'paused' || status === 'cancelled' || status === undefined) {
+            controller.abort(status === 'paused' ? 'paused' : 'cancelled');
+          }
+        }
+      })().catch(() => undefined);
+    }, CONTROL_INTERVAL);
+
+    const task = async (candidate: QueueItem) => {
+      if (result.stopped) {
+        return;
+      }
+      const item = await this.db.claimQueueItem(candidate.id, this.owner, new Date(Date.now() + LEASE_DURATION));
+      if (!item) {
+        return;
+      }
+      const controller = new AbortController();
+      inFlight.set(item.id, controller);
+      this.running.set(item.id, controller);
+      if (result.stopped) {
+        controller.abort('interrupted');
+      }
+      const heartbeat = setInterval(() => {
+        this.db.renewQueueLease(item.id, this.owner, new Date(Date.now() + LEASE_DURATION)).catch(() => undefined);
+      }, LEASE_DURATION / 5);
+
       try {
-        await this.processItem(item);
-        result.downloaded++;
+        if (item.unresolved && !await this.resolveItem(item, resolver)) {
+          result.skipped++;
+          this.emit('download:skip', { item, reason: 'already-queued' });
+          return;
+        }
+
+        let bytes: number | undefined;
+        if (!options.force && await this.cache.exists(item.packageName, item.version)) {
+          // Nothing was attempted, so the claim does not count as an attempt
+          item.attempts = item.attempts! - 1;
+          result.skipped++;
+        } else {
+          bytes = await this.processItem(item, meter, controller.signal);
+          result.totalSize += bytes;
+          result.downloaded++;
+        }
         
         item.status = 'completed';
-        await this.saveQueue(queue);
+        item.error = undefined;
+        item.failureKind = undefined;
+        item.partials = undefined;
+        await this.updateItem(item);
+        if (bytes === undefined) {
+          this.emit('download:skip', { item, reason: 'cached' });
+        } else {
+          this.emit('download:complete', { item, bytes });
+        }
         
       } catch (error) {
-        console.error(`Failed to process ${item.packageName}@${item.version}:`, error);
-        item.status = 'failed';
+        if (controller.signal.aborted) {
+          // Stopped on request, so this was not a real attempt. A paused or
+          // cancelled item has already been released in the database.
+          const reason = controller.signal.reason as SkipReason;
+          if (reason === 'cancelled') {
+            await this.removePartials([item]);
+          } else if (reason === 'interrupted') {
+            item.attempts = item.attempts! - 1;
+            item.status = 'pending';
+            await this.updateItem(item);
+          }
+          this.emit('download:skip', { item, reason });
+          return;
+        }
+
+        if (DataMeter.isBudgetError(error)) {
+          // Left for a later sync, with its partial download; this was not a real attempt
+          item.attempts = item.attempts! - 1;
+          item.status = 'pending';
+          result.deferred++;
+          await this.updateItem(item);
+          this.emit('download:skip', { item, reason: 'budget' });
+          return;
+        }
+
         item.error = error instanceof Error ? error.message : String(error);
+        item.failureKind = NetworkUtils.isTransientError(error) ? 'transient' : 'permanent';
         result.failed++;
-        result.errors.push(`${item.packageName}@${item.version}: ${item.error}`);
-        await this.saveQueue(queue);
+
+        if (item.failureKind === 'transient' && item.attempts! < retry.maxAttempts) {
+          item.status = 'pending';
+          item.nextRetryAt = new Date(Date.now() + this.getRetryDelay(item.attempts!, retry));
+          result.errors.push(`${item.packageName}@${item.version}: ${item.error} (attempt ${item.attempts}/${retry.maxAttempts}, will retry after ${item.nextRetryAt.toLocaleString()})`);
+        } else {
+          item.status = 'failed';
+          result.errors.push(`${item.packageName}@${item.version}: ${item.error}`);
+          await this.removePartials([item]);
+          item.partials = undefined;
+        }
+        await this.updateItem(item);
+        this.emit('download:error', {
+          item,
+          error: error instanceof Error ? error : new Error(String(error)),
+          willRetry: item.status === 'pending'
+        });
+      } finally {
+        clearInterval(heartbeat);
+        inFlight.delete(item.id);
+        this.running.delete(item.id);
+        const unrecorded = meter.bytesUsed - recorded;
+        if (unrecorded > 0) {
+          recorded += unrecorded;
+          await this.db.addDataUsage(today, unrecorded);
+        }
       }
+    };
+
+    const duePending = async () => {
+      const now = Date.now();
+      return (await this.list()).filter(item =>
+        item.status === 'pending' && (!item.nextRetryAt || item.nextRetryAt.getTime() <= now) && !attempted.has(item.id)
+      );
+    };
+
+    if (options.signal?.aborted) {
+      stop('interrupted');
+    } else if (await this.isPaused()) {
+      stop('paused');
     }
 
+    try {
+      // Resolving `latest:<n>` may queue more versions; they are picked up in another round
+      let pendingItems = result.stopped ? [] : await duePending();
+      this.emit('sync:start', { items: pendingItems.length });
+      for (; pendingItems.length > 0 && !result.stopped; pendingItems = await duePending()) {
+        pendingItems.forEach(item => attempted.add(item.id));
+
+        await PoolUtils.run(pendingItems, {
+          concurrency,
+          groupOf: item => this.getRegistryGroup(item, options.registryConcurrency || {}, concurrency, limits),
+          groupLimit: group => limits.get(group) ?? concurrency
+        }, task);
+      }
+    } finally {
+      clearInterval(watcher);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    result.bytesUsed = meter.bytesUsed;
+    result.budgetReached = meter.limitReached;
     result.success = result.failed === 0;
+    this.emit('sync:complete', result);
     return result;
   }
 
+  /**
+   * Puts failed items back in the queue with a fresh attempt count, including
+   * permanent failures and items waiting for their next retry.
+   * @param id - Queue item ID, or undefined to retry every failed item
+   * @returns Number of items requeued
+   */
+  async retry(id?: string): Promise<number> {
+    return this.db.retryQueueItems(id);
+  }
+
+  /**
+   * Cancels a queue item and deletes its partial downloads. If the item is
+   * being downloaded, the download stops, in whichever process runs it.
+   * A cancelled item stays in the queue until it is removed or retried.
+   * @param id - Queue item ID
+   * @returns False if the item is not found or already completed or cancelled
+   */
+  async cancel(id: string): Promise<boolean> {
+    const item = await this.db.cancelQueueItem(id);
+    if (!item) {
+      return false;
+    }
+    this.running.get(id)?.abort('cancelled');
+    await this.removePartials([item]);
+    return true;
+  }
+
+  /**
+   * Pauses an item, or the whole queue. Syncs skip a paused item until it is
+   * resumed; while the queue is paused, syncs download nothing and those
+   * already running stop. Downloads in progress keep their partial files.
+   * @param id - Queue item ID, or undefined to pause the queue
+   * @returns False if the item is not pending or downloading, or the queue was already paused
+   */
+  async pause(id?: string): Promise<boolean> {
+    if (id === undefined) {
+      if (await this.isPaused()) {
+        return false;
+      }
+      await this.db.setSetting(PAUSED_SETTING, new Date().toISOString());
+      return true;
+    }
+
+    const paused = await this.db.setQueueItemPaused(id, true);
+    if (paused) {
+      this.running.get(id)?.abort('paused');
+    }
+    return paused;
+  }
+
+  /**
+   * Resumes a paused item, or the queue. Resuming the queue leaves items that
+   * were paused one by one paused.
+   * @param id - Queue item ID, or undefined to resume the queue
+   * @returns False if the item or the queue was not paused
+   */
+  async resume(id?: string): Promise<boolean> {
+    if (id === undefined) {
+      if (!await this.isPaused()) {
+        return false;
+      }
+      await this.db.setSetting(PAUSED_SETTING, undefined);
+      return true;
+    }
+    return this.db.setQueueItemPaused(id, false);
+  }
+
+  /**
+   * Tells whether the whole queue is paused.
+   */
+  async isPaused(): Promise<boolean> {
+    return await this.db.getSetting(PAUSED_SETTING) !== undefined;
+  }
+
   /**
    * Clears all items from the queue.
    */
   async clear(): Promise<void> {
-    await this.saveQueue([]);
+    await this.removePartials(await this.db.deleteQueueItems());
   }
 
   /**
    * Gets the current status of the queue.
    * @returns Queue status with counts for each state
    */
-  async getStatus(): Promise<{ pending: number; downloading: number; completed: number; failed: number }> {
-    const queue = await this.loadQueue();
+  async getStatus(): Promise<QueueCounts> {
+    await this.db.releaseExpiredLeases();
+    const counts = await this.db.countQueueItems();
     return {
-      pending: queue.filter(item => item.status === 'pending').length,
-      downloading: queue.filter(item => item.status === 'downloading').length,
-      completed: queue.filter(item => item.status === 'completed').length,
-      failed: queue.filter(item => item.status === 'failed').length
+      pending: counts.pending || 0,
+      downloading: counts.downloading || 0,
+      completed: counts.completed || 0,
+      failed: counts.failed || 0,
+      paused: counts.paused || 0,
+      cancelled: counts.cancelled || 0
     };
   }
 
+  /**
+   * Picks the pool group of an item: the host of the registry its manager
+   * fetches it from, so a slow private registry does not hold up a public one.
+   * The group's cap is the one set for the host, else for the manager.
+   * @param item - Queue item
+   * @param caps - Caps keyed by registry host or manager
+   * @param concurrency - Cap for registries without one
+   * @param limits - Caps of the groups seen so far, filled in here
+   * @returns Registry host, or the manager if the host is unknown
+   */
+  private getRegistryGroup(item: QueueItem, caps: Record<string, number>, concurrency: number, limits: Map<string, number>): string {
+    let host: string | undefined;
+    try {
+      const url = PackageManagerFactory.getManager(item.manager).getRegistryUrl?.(item.packageName);
+      host = url ? new URL(url).host : undefined;
+    } catch (error) {
+      // Unknown managers and invalid names fail when the item is processed
+    }
+
+    const group = host || item.manager;
+    if (!limits.has(group)) {
+      limits.set(group, (host !== undefined ? caps[host] : undefined) ?? caps[item.manager] ?? concurrency);
+    }
+    return group;
+  }
+
   /**
    * Processes a single queue item by downloading and caching the package.
-   * @param item - Queue item to process
+   * The download is admitted by the meter, which throws EBUDGET if it does
+   * not fit in the data budget or stops it when the budget runs out.
+   * @param item - Claimed queue item to process
+   * @param meter - Rate limit and data budget of this sync
+   * @param signal - Stops the download, with the reason it was stopped for
+   * @returns Number of bytes downloaded
    */
-  private async processItem(item: QueueItem): Promise<void> {
-    item.status = 'downloading';
-    await this.updateItem(item);
+  private async processItem(item: QueueItem, meter: DataMeter, signal: AbortSignal): Promise<number> {
+    const manager = PackageManagerFactory.getManager(item.manager);
+    const packageInfo = await manager.getPackageInfo(item.packageName, item.version);
+
+    // What is already on disk from an earlier attempt does not need to fit in the budget
+    const resumed = (item.partials || []).reduce((sum, partial) => sum + partial.offset, 0);
+    const size = packageInfo.size !== undefined ? Math.max(0, packageInfo.size - resumed) : undefined;
+    const metered = meter.admit(`${item.packageName}@${item.version}`, size);
+    this.emit('download:start', { item, size: packageInfo.size });
+
+    // Progress of the file being downloaded; speed counts only what this attempt received
+    const progress = { received: 0, total: undefined as number | undefined, transferred: 0, startedAt: Date.now() };
+    const download: DownloadOptions = {
+      tempDir: this.cache.getTempDir(),
+      partials: item.partials,
+      signal,
+      onPartial: async partial => {
+        item.partials = [...(item.partials || []).filter(known => known.url !== partial.url), partial];
+        progress.received = partial.offset;
+        progress.total = partial.total;
+        await this.updateItem(item);
+      },
+      onData: async bytes => {
+        await metered.consume(bytes);
+        progress.received += bytes;
+        progress.transferred += bytes;
+        const bytesPerSecond = progress.transferred / Math.max(0.001, (Date.now() - progress.startedAt) / 1000);
+        this.emit('download:progress', {
+          item,
+          received: progress.received,
+          total: progress.total,
+          bytesPerSecond,
+          eta: progress.total !== undefined ? Math.max(0, progress.total - progress.received) / bytesPerSecond : undefined
+        });
+      }
+    };
 
     try {
-      const manager = PackageManagerFactory.getManager(item.manager);
-      
-      const packageInfo = await manager.getPackageInfo(item.packageName, item.version);
-      const packagePath = await manager.downloadPackage(item.packageName, item.version);
-      
-      let docsPath: string | undefined;
-      try {
-        const docs = await manager.getDocumentation(item.packageName, item.version);
-        if (docs) {
-          docsPath = path.join(process.cwd(), 'temp', `${item.id}-docs.md`);
-          await fs.ensureDir(path.dirname(docsPath));
-          await fs.writeFile(docsPath, docs);
+      return await this.downloadItem(item, manager, packageInfo, download);
+    } finally {
+      metered.done();
+    }
+  }
+
+  /**
+   * Downloads, verifies and caches a package with its documentation, examples and artifacts.
+   * @param item - Claimed queue item to process
+   * @param manager - Package manager of the item
+   * @param packageInfo - Registry metadata of the package
+   * @param download - Download options for the item
+   * @returns Number of bytes downloaded
+   */
+  private async downloadItem(
+    item: QueueItem,
+    manager: PackageManagerInterface,
+    packageInfo: PackageInfo,
+    download: DownloadOptions
+  ): Promise<number> {
+    const packagePath = await manager.downloadPackage(item.packageName, item.version, download);
+    await this.verifyDownload(packagePath, packageInfo.integrity, `${item.packageName}@${item.version}`);
+    
+    let docsPath: string | undefined;
+    try {
+      const docs = await manager.getDocumentation(item.packageName, item.version);
+      if (docs) {
+        docsPath = path.join(process.cwd(), 'temp', `${item.id}-docs.md`);
+        await fs.ensureDir(path.dirname(docsPath));
+        await fs.writeFile(docsPath, docs);
+      }
+    } catch (error) {
+      console.warn(`Failed to get documentation for ${item.packageName}:`, error);
+    }
+
+    let examplesPath: string | undefined;
+    try {
+      const examples = await manager.getExamples(item.packageName, item.version);
+      if (examples.length > 0) {
+        examplesPath = path.join(process.cwd(), 'temp', `${item.id}-examples`);
+        await fs.ensureDir(examplesPath);
+        for (let i = 0; i < examples.length; i++) {
+          await fs.writeFile(path.join(examplesPath, `example-${i}.md`), examples[i]);
         }
-      } catch (error) {
-        console.warn(`Failed to get documentation for ${item.packageName}:`, error);
       }
+    } catch (error) {
+      console.warn(`Failed to get examples for ${item.packageName}:`, error);
+    }
+
+    await this.cache.add(packageInfo, packagePath, docsPath, examplesPath);
+    let downloaded = (await fs.stat(packagePath)).size;
+    
+    await fs.remove(packagePath);
+    if (docsPath) await fs.remove(docsPath);
+    if (examplesPath) await fs.remove(examplesPath);
 
-      let examplesPath: string | undefined;
+    const selection = item.artifacts || manager.defaultArtifacts;
+    if (selection && manager.downloadArtifacts) {
+      const artifacts = await manager.downloadArtifacts(item.packageName, item.version, selection, download);
       try {
-        const examples = await manager.getExamples(item.packageName, item.version);
-        if (examples.length > 0) {
-          examplesPath = path.join(process.cwd(), 'temp', `${item.id}-examples`);
-          await fs.ensureDir(examplesPath);
-          for (let i = 0; i < examples.length; i++) {
-            await fs.writeFile(path.join(examplesPath, `example-${i}.md`), examples[i]);
-          }
+        for (const artifact of artifacts) {
+          await this.verifyDownload(artifact.path, artifact.integrity, artifact.filename);
+          await this.cache.addArtifact(packageInfo.name, packageInfo.version, artifact);
+          downloaded += (await fs.stat(artifact.path)).size;
+        }
+      } finally {
+        for (const artifact of artifacts) {
+          await fs.remove(artifact.path);
         }
-      } catch (error) {
-        console.warn(`Failed to get examples for ${item.packageName}:`, error);
       }
+    }
+
+    return downloaded;
+  }
+
+  /**
+   * Resolves the spec of an item that was queued offline. The item takes the
+   * newest matching version; further versions from `latest:<n>` are queued
+   * as new items.
+   * @param item - Claimed unresolved queue item
+   * @param resolver - Resolver for this sync
+   * @returns False if the version was already queued, in which case the item is dropped
+   */
+  private async resolveItem(item: QueueItem, resolver: DependencyResolver): Promise<boolean> {
+    const [version, ...others] = await resolver.resolveVersions(item.packageName, item.version, item.manager);
 
-      await this.cache.add(packageInfo, packagePath, docsPath, examplesPath);
-      
-      await fs.remove(packagePath);
-      if (docsPath) await fs.remove(docsPath);
-      if (examplesPath) await fs.remove(examplesPath);
-      
+    try {
+      await this.db.setQueueItemVersion(item.id, version);
     } catch (error) {
-      item.status = 'failed';
-      item.error = error instanceof Error ? error.message : String(error);
-      await this.updateItem(item);
-      throw error;
+      if ((error as { code?: string }).code !== 'SQLITE_CONSTRAINT') {
+        throw error;
+      }
+      await this.db.deleteQueueItems(item.id);
+      return false;
+    }
+    item.version = version;
+    item.unresolved = undefined;
+
+    for (const other of others) {
+      await this.db.insertQueueItem({
+        id: this.generateId(item.packageName, other, item.manager),
+        packageName: item.packageName,
+        version: other,
+        manager: item.manager,
+        priority: item.priority,
+        queuedAt: new Date(),
+        status: 'pending',
+        artifacts: item.artifacts,
+        requested: item.requested
+      });
     }
+    return true;
   }
 
   /**
-   * Updates a queue item in the queue file.
+   * Checks a finished download against the registry's integrity data. A file
+   * that does not match is deleted, so the next attempt fetches it from scratch.
+   * @param filePath - Downloaded file
+   * @param integrity - Expected integrity, if the registry published one
+   * @param label - What was downloaded, for the error message
+   */
+  private async verifyDownload(filePath: string, integrity: string | undefined, label: string): Promise<void> {
+    if (integrity && await IntegrityUtils.verify(filePath, integrity) === false) {
+      await fs.remove(filePath);
+      throw Object.assign(new Error(`Integrity check failed for ${label}: downloaded file does not match ${integrity}`), { code: 'EINTEGRITY' });
+    }
+  }
+
+  /**
+   * Deletes the partial files of interrupted downloads.
+   * @param items - Queue items whose downloads will not be resumed
+   */
+  private async removePartials(items: QueueItem[]): Promise<void> {
+    for (const partial of items.flatMap(item => item.partials || [])) {
+      await fs.remove(partial.path);
+    }
+  }
+
+  /**
+   * Computes the exponential backoff before the next attempt.
+   * @param attempts - Attempts made so far
+   * @param policy - Retry policy
+   * @returns Delay in milliseconds
+   */
+  private getRetryDelay(attempts: number, policy: RetryPolicy): number {
+    return Math.min(policy.maxDelay, policy.baseDelay * 2 ** Math.max(0, attempts - 1));
+  }
+
+  /**
+   * Gets the local date that daily data usage is counted under.
+   * @returns Date as YYYY-MM-DD
+   */
+  private today(): string {
+    const now = new Date();
+    return [now.getFullYear(), now.getMonth() + 1, now.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+  }
+
+  /**
+   * Saves the progress of a claimed queue item. An item that was paused,
+   * cancelled or removed in the meantime is left as it is.
    * @param item - Queue item to update
    */
   private async updateItem(item: QueueItem): Promise<void> {
-    const queue = await this.loadQueue();
-    const index = queue.findIndex(q => q.id === item.id);
-    if (index !== -1) {
-      queue[index] = item;
-      await this.saveQueue(queue);
+    if (await this.db.updateQueueItem(item, this.owner)) {
+      return;
+    }
+    const status = (await this.db.getQueueItemStatuses([item.id]))[item.id];
+    if (status !== undefined && status !== 'paused' && status !== 'cancelled') {
+      console.warn(`Lost the lease on ${item.packageName}@${item.version}; another process has taken it over`);
     }
   }
 
   /**
-   * Loads the queue from the queue file.
-   * @returns Array of queue items
+   * Imports the queue.json written by versions that kept the queue in a file,
+   * then renames it so it is only imported once. Items that were downloading
+   * when the old process stopped go back to pending, and items queued as
+   * `latest` are resolved on the next sync.
    */
-  private async loadQueue(): Promise<QueueItem[]> {
+  private async migrateQueueFile(): Promise<void> {
+    if (!await fs.pathExists(this.legacyQueueFile)) {
+      return;
+    }
+
+    let items: any[] = [];
     try {
-      const data = await fs.readFile(this.queueFile, 'utf8');
-      const queue = JSON.parse(data);
-      return queue.map((item: any) => ({
-        ...item,
-        queuedAt: new Date(item.queuedAt)
-      }));
+      items = JSON.parse(await fs.readFile(this.legacyQueueFile, 'utf8'));
     } catch (error) {
-      return [];
+      console.warn(`Could not read ${this.legacyQueueFile}, starting with an empty queue:`, error);
     }
-  }
 
-  /**
-   * Saves the queue to the queue file.
-   * @param queue - Queue items to save
-   */
-  private async saveQueue(queue: QueueItem[]): Promise<void> {
-    await fs.writeFile(this.queueFile, JSON.stringify(queue, null, 2));
+    for (const item of Array.isArray(items) ? items : []) {
+      const unresolved = item.version === 'latest' && item.status !== 'completed';
+      await this.db.insertQueueItem({
+        ...item,
+        requested: unresolved ? item.version : item.requested,
+        unresolved: unresolved || undefined,
+        status: item.status === 'downloading' ? 'pending' : item.status,
+        queuedAt: new Date(item.queuedAt),
+        lastAttemptAt: item.lastAttemptAt ? new Date(item.lastAttemptAt) : undefined,
+        nextRetryAt: item.nextRetryAt ? new Date(item.nextRetryAt) : undefined
+      });
+    }
+
+    // Another process may have migrated the file at the same time
+    await fs.move(this.legacyQueueFile, `${this.legacyQueueFile}.migrated`, { overwrite: true }).catch(() => undefined);
+    await fs.remove(`${this.legacyQueueFile}.tmp`);
   }
 
   /**
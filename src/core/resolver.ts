@@ -0,0 +1,212 @@
+import { DependencyNode, DependencyOptions, PackageManager } from '../types';
+import { PackageManagerFactory } from '../managers';
+import { VersionSchemeFactory } from '../versions';
+
+/**
+ * Resolves the transitive dependency graph of a package through its manager's
+ * registry metadata, picking the highest version that satisfies each range.
+ */
+export class DependencyResolver {
+  private versions: Map<string, Promise<string[]>> = new Map();
+  private distTags: Map<string, Promise<Record<string, string>>> = new Map();
+
+  /**
+   * Resolves a package and all of its dependencies into a tree.
+   * Each package version is expanded once; later occurrences are marked as
+   * `deduped`, or `circular` when they point back at an ancestor.
+   * Dependencies that cannot be resolved are kept in the tree with an `error`.
+   * @param packageName - Name of the root package
+   * @param version - Version, range or `latest`
+   * @param manager - Package manager of the root package
+   * @param options - Dev/peer dependency and depth settings
+   * @returns Dependency tree rooted at the package
+   */
+  async resolve(packageName: string, version: string, manager: PackageManager, options: DependencyOptions = {}): Promise<DependencyNode> {
+    const root = await this.visit(packageName, version, manager, 0, new Set(), new Map(), options);
+    if (root.error) {
+      throw new Error(`Failed to resolve ${packageName}@${version}: ${root.error}`);
+    }
+    return root;
+  }
+
+  /**
+   * Resolves a requested spec to concrete versions: an exact version, a
+   * dist-tag such as `next` or `beta`, `latest`, a range in the manager's own
+   * syntax, or `latest:<n>` for the n newest stable versions.
+   * @param packageName - Name of the package
+   * @param requested - Requested spec
+   * @param manager - Package manager
+   * @returns Resolved versions, newest first
+   */
+  async resolveVersions(packageName: string, requested: string, manager: PackageManager): Promise<string[]> {
+    const newest = /^latest:(\d+)$/.exec(requested);
+    if (!newest) {
+      return [await this.resolveVersion(packageName, requested, manager)];
+    }
+
+    const scheme = VersionSchemeFactory.getScheme(manager);
+    const stable = (await this.listVersions(packageName, manager)).filter(version => !scheme.isPrerelease(version));
+    if (stable.length === 0) {
+      throw new Error(`No stable version of ${packageName} found`);
+    }
+    return scheme.sort(stable).reverse().slice(0, parseInt(newest[1], 10));
+  }
+
+  /**
+   * Lists every distinct resolved package in a tree, root first.
+   * @param tree - Dependency tree
+   * @returns Resolved nodes without duplicates or failures
+   */
+  static flatten(tree: DependencyNode): DependencyNode[] {
+    const nodes: DependencyNode[] = [];
+    const visit = (node: DependencyNode) => {
+      if (node.error || node.deduped || node.circular) return;
+      nodes.push(node);
+      node.dependencies.forEach(visit);
+    };
+    visit(tree);
+    return nodes;
+  }
+
+  private async visit(
+    name: string,
+    requested: string,
+    manager: PackageManager,
+    depth: number,
+    ancestors: Set<string>,
+    seen: Map<string, DependencyNode>,
+    options: DependencyOptions
+  ): Promise<DependencyNode> {
+    const node: DependencyNode = { name, version: requested, manager, requested, dependencies: [] };
+
+    try {
+      node.version = await this.resolveVersion(name, requested, manager);
+    } catch (error) {
+      node.error = error instanceof Error ? error.message : String(error);
+      return node;
+    }
+
+    const key = `${manager}:${name}@${node.version}`;
+    if (ancestors.has(key)) {
+      return { ...node, circular: true };
+    }
+    if (seen.has(key)) {
+      return { ...node, size: seen.get(key)!.size, deduped: true };
+    }
+    seen.set(key, node);
+
+    let info;
+    try {
+      info = await PackageManagerFactory.getManager(manager).getPackageInfo(name, node.version);
+    } catch (error) {
+      node.error = error instanceof Error ? error.message : String(error);
+      return node;
+    }
+    node.size = info.size;
+
+    if (options.maxDepth !== undefined && depth >= options.maxDepth) {
+      return node;
+    }
+
+    const dependencies = {
+      ...(info.peerDependencies && options.includePeer ? info.peerDependencies : {}),
+      ...(info.devDependencies && options.includeDev && depth === 0 ? info.devDependencies : {}),
+      ...(info.dependencies || {})
+    };
+
+    ancestors.add(key);
+    for (const [dependency, range] of Object.entries(dependencies)) {
+      const spec = this.normalizeRange(manager, range);
+      if (spec === null) continue;
+
+      const child = await this.visit(dependency, spec, manager, depth + 1, ancestors, seen, options);
+      if (child.error) {
+        console.warn(`Could not resolve ${dependency}@${range} (needed by ${name}@${node.version}): ${child.error}`);
+      }
+      node.dependencies.push(child);
+    }
+    ancestors.delete(key);
+
+    return node;
+  }
+
+  /**
+   * Picks the version to download for a requested version, dist-tag or range.
+   * @param name - Package name
+   * @param requested - Exact version, dist-tag, range or `latest`
+   * @param manager - Package manager
+   * @returns Resolved version
+   */
+  private async resolveVersion(name: string, requested: string, manager: PackageManager): Promise<string> {
+    // go.mod requires exact versions, including pseudo-versions the proxy never lists
+    if (manager === 'go' && /^v\d+\.\d+\.\d+/.test(requested)) {
+      return requested;
+    }
+
+    const versions = await this.listVersions(name, manager);
+    const scheme = VersionSchemeFactory.getScheme(manager);
+
+    if (versions.includes(requested)) {
+      return requested;
+    }
+
+    // Registries with dist-tags say which version `latest` is, which may not be the highest
+    if (/^[a-z][\w.-]*$/i.test(requested)) {
+      const tagged = (await this.getDistTags(name, manager))[requested];
+      if (tagged) {
+        return tagged;
+      }
+    }
+
+    const resolved = requested === 'latest' || requested === '*'
+      ? scheme.latest(versions)
+      : scheme.maxSatisfying(versions, requested);
+    if (!resolved) {
+      throw new Error(`No version of ${name} matches ${requested}`);
+    }
+    return resolved;
+  }
+
+  private getDistTags(name: string, manager: PackageManager): Promise<Record<string, string>> {
+    const key = `${manager}:${name}`;
+    if (!this.distTags.has(key)) {
+      const packageManager = PackageManagerFactory.getManager(manager);
+      this.distTags.set(key, packageManager.getDistTags ? packageManager.getDistTags(name) : Promise.resolve({}));
+    }
+    return this.distTags.get(key)!;
+  }
+
+  private listVersions(name: string, manager: PackageManager): Promise<string[]> {
+    const key = `${manager}:${name}`;
+    if (!this.versions.has(key)) {
+      this.versions.set(key, PackageManagerFactory.getManager(manager).listVersions(name));
+    }
+    return this.versions.get(key)!;
+  }
+
+  /**
+   * Turns a dependency declaration into a range the version scheme understands.
+   * @param manager - Package manager
+   * @param range - Range as declared in the package metadata
+   * @returns Normalized range, or null if the dependency should be skipped
+   */
+  private normalizeRange(manager: PackageManager, range: string): string | null {
+    let spec = range.trim();
+
+    if (manager === 'pip') {
+      const [requirement, marker] = spec.split(';');
+      // Requirements behind an extra are only installed on request
+      if (marker && /\bextra\s*==/.test(marker)) {
+        return null;
+      }
+      spec = requirement.replace(/^\[[^\]]*\]/, '').replace(/[()\s]/g, '');
+    }
+
+    // In Cargo a bare version is a caret requirement, not an exact one
+    if (manager === 'cargo' && /^\d/.test(spec)) {
+      spec = `^${spec}`;
+    }
+
+    return spec === '' || spec === 'x' ? '*' : spec;
+  }
+}
@@ -1,6 +1,12 @@
 export { Zembil } from './zembil';
 export { Cache } from './core/cache';
 export { Queue } from './core/queue';
+export { Daemon } from './core/daemon';
+export { DependencyResolver } from './core/resolver';
 export { Database } from './core/database';
 export { PackageManagerFactory } from './managers';
+export { PluginLoader } from './managers/plugins';
+export { VersionSchemeFactory } from './versions';
+export { LockfileParser } from './lockfiles';
+export { RegistryUtils } from './utils/registries';
 export * from './types';
@@ -0,0 +1,65 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { LockfileEntry, LockfileFormat } from '../types';
+import { PackageLockFormat, PnpmLockFormat, YarnLockFormat } from './npm';
+import { PipfileLockFormat, PoetryLockFormat, RequirementsFormat } from './pip';
+import { PomFormat } from './maven';
+
+/**
+ * Reads lockfiles and manifests from the supported ecosystems into a flat list of packages.
+ */
+export class LockfileParser {
+  private static formats: LockfileFormat[] = [
+    new PackageLockFormat(),
+    new YarnLockFormat(),
+    new PnpmLockFormat(),
+    new RequirementsFormat(),
+    new PoetryLockFormat(),
+    new PipfileLockFormat(),
+    new PomFormat()
+  ];
+
+  /**
+   * Picks the format for a file from its name.
+   * @param filePath - Path to the lockfile or manifest
+   * @returns Matching format
+   */
+  static getFormat(filePath: string): LockfileFormat {
+    const filename = path.basename(filePath);
+    const format = this.formats.find(candidate => candidate.matches(filename));
+    if (!format) {
+      throw new Error(`Unsupported lockfile: ${filename}. Supported files: ${this.getSupportedFiles().join(', ')}`);
+    }
+    return format;
+  }
+
+  /**
+   * Parses a lockfile or manifest. A package locked several times at the same
+   * version is listed once, and only counts as dev if every occurrence is.
+   * @param filePath - Path to the lockfile or manifest
+   * @returns Format name and locked packages
+   */
+  static async parse(filePath: string): Promise<{ format: string; entries: LockfileEntry[] }> {
+    const format = this.getFormat(filePath);
+    const content = await fs.readFile(filePath, 'utf8');
+
+    const entries = new Map<string, LockfileEntry>();
+    for (const entry of await format.parse(content, filePath)) {
+      const key = `${entry.manager}:${entry.name}@${entry.version}`;
+      const existing = entries.get(key);
+      if (existing) {
+        existing.dev = existing.dev && entry.dev;
+      } else {
+        entries.set(key, { ...entry });
+      }
+    }
+
+    return { format: format.name, entries: Array.from(entries.values()) };
+  }
+
+  static getSupportedFiles(): string[] {
+    return this.formats.map(format => format.name);
+  }
+}
+
+export { PackageLockFormat, YarnLockFormat, PnpmLockFormat, RequirementsFormat, PoetryLockFormat, PipfileLockFormat, PomFormat };
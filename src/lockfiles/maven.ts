@@ -0,0 +1,31 @@
+import { LockfileEntry, LockfileFormat } from '../types';
+import { PomUtils } from '../utils/pom';
+
+/**
+ * `pom.xml`. Compile, runtime and provided dependencies are runtime entries,
+ * test dependencies dev ones; version ranges are reported as unpinned.
+ */
+export class PomFormat implements LockfileFormat {
+  name = 'pom.xml';
+
+  matches(filename: string): boolean {
+    return filename === 'pom.xml' || filename.endsWith('.pom');
+  }
+
+  async parse(content: string): Promise<LockfileEntry[]> {
+    const version = PomUtils.getProjectField(content, 'version') || '';
+    const { dependencies, devDependencies, peerDependencies } = PomUtils.parseDependencies(content, version);
+    const entries: LockfileEntry[] = [];
+
+    const add = (group: Record<string, string> = {}, dev: boolean) => {
+      for (const [name, depVersion] of Object.entries(group)) {
+        entries.push({ name, version: depVersion, manager: 'maven', dev, unpinned: /^[[(]/.test(depVersion) || undefined });
+      }
+    };
+    add(dependencies, false);
+    add(peerDependencies, false);
+    add(devDependencies, true);
+
+    return entries;
+  }
+}
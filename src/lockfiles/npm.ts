@@ -0,0 +1,182 @@
+import { LockfileEntry, LockfileFormat } from '../types';
+
+/**
+ * Checks that a locked version points at the registry rather than a git URL, tarball or local path.
+ */
+function isRegistryVersion(version: string): boolean {
+  return /^\d/.test(version) && !/[:/]/.test(version);
+}
+
+/**
+ * Splits a `name@range` selector, following `npm:` aliases to the real package name.
+ * @param selector - Selector such as `@babel/core@^7.0.0` or `foo@npm:bar@^1.0.0`
+ * @returns Package name and range, or null for workspace, link and other non-registry selectors
+ */
+function parseSelector(selector: string): { name: string; range: string } | null {
+  const at = selector.indexOf('@', 1);
+  if (at === -1) {
+    return null;
+  }
+
+  const name = selector.slice(0, at);
+  let range = selector.slice(at + 1);
+  if (range.startsWith('npm:')) {
+    range = range.slice(4);
+    const aliasAt = range.lastIndexOf('@');
+    if (aliasAt > 0) {
+      return { name: range.slice(0, aliasAt), range: range.slice(aliasAt + 1) };
+    }
+  }
+
+  if (/^[a-z]+:/.test(range) || range.includes('/')) {
+    return null;
+  }
+  return { name, range };
+}
+
+/**
+ * `package-lock.json` and `npm-shrinkwrap.json`, lockfile versions 1 to 3.
+ */
+export class PackageLockFormat implements LockfileFormat {
+  name = 'package-lock.json';
+
+  matches(filename: string): boolean {
+    return filename === 'package-lock.json' || filename === 'npm-shrinkwrap.json';
+  }
+
+  async parse(content: string): Promise<LockfileEntry[]> {
+    const lock = JSON.parse(content);
+    const entries: LockfileEntry[] = [];
+
+    if (lock.packages) {
+      for (const [key, pkg] of Object.entries<any>(lock.packages)) {
+        // "" is the project itself; paths without node_modules/ are workspace packages
+        if (!key.includes('node_modules/') || pkg.link || !pkg.version || !isRegistryVersion(pkg.version)) {
+          continue;
+        }
+        const name = pkg.name || key.slice(key.lastIndexOf('node_modules/') + 'node_modules/'.length);
+        entries.push({ name, version: pkg.version, manager: 'npm', dev: !!pkg.dev });
+      }
+      return entries;
+    }
+
+    const visit = (dependencies: Record<string, any> = {}) => {
+      for (const [name, dep] of Object.entries<any>(dependencies)) {
+        if (dep.version?.startsWith('npm:')) {
+          const alias = parseSelector(`${name}@${dep.version}`);
+          if (alias) entries.push({ name: alias.name, version: alias.range, manager: 'npm', dev: !!dep.dev });
+        } else if (dep.version && isRegistryVersion(dep.version)) {
+          entries.push({ name, version: dep.version, manager: 'npm', dev: !!dep.dev });
+        }
+        visit(dep.dependencies);
+      }
+    };
+    visit(lock.dependencies);
+    return entries;
+  }
+}
+
+/**
+ * `yarn.lock` from Yarn 1 and from Yarn 2+ (berry).
+ */
+export class YarnLockFormat implements LockfileFormat {
+  name = 'yarn.lock';
+
+  matches(filename: string): boolean {
+    return filename === 'yarn.lock';
+  }
+
+  async parse(content: string): Promise<LockfileEntry[]> {
+    const entries: LockfileEntry[] = [];
+    let current: string | null = null;
+
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim() || line.trimStart().startsWith('#')) {
+        continue;
+      }
+
+      if (!/^\s/.test(line)) {
+        const selector = line.replace(/:\s*$/, '').split(',')[0].trim().replace(/^"|"$/g, '');
+        current = parseSelector(selector)?.name ?? null;
+        continue;
+      }
+
+      const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?\s*$/);
+      if (current && version) {
+        if (isRegistryVersion(version[1])) {
+          entries.push({ name: current, version: version[1], manager: 'npm' });
+        }
+        current = null;
+      }
+    }
+
+    return entries;
+  }
+}
+
+/**
+ * `pnpm-lock.yaml`, lockfile versions 5 to 9. Only the `packages:` section is read,
+ * line by line, since every locked package is a key there.
+ */
+export class PnpmLockFormat implements LockfileFormat {
+  name = 'pnpm-lock.yaml';
+
+  matches(filename: string): boolean {
+    return filename === 'pnpm-lock.yaml';
+  }
+
+  async parse(content: string): Promise<LockfileEntry[]> {
+    const lockfileVersion = parseFloat(content.match(/^lockfileVersion:\s*'?([\d.]+)'?/m)?.[1] || '9');
+    const entries: LockfileEntry[] = [];
+    let inPackages = false;
+    let current: LockfileEntry | null = null;
+
+    for (const line of content.split(/\r?\n/)) {
+      if (/^\S/.test(line)) {
+        inPackages = line.startsWith('packages:');
+        current = null;
+        continue;
+      }
+      if (!inPackages || !line.trim()) {
+        continue;
+      }
+
+      const key = line.match(/^ {2}(\S.*):\s*$/);
+      if (key) {
+        current = this.parseKey(key[1].replace(/^['"]|['"]$/g, ''), lockfileVersion);
+        if (current) entries.push(current);
+        continue;
+      }
+
+      if (current && /^ {4}dev:\s*true\s*$/.test(line)) {
+        current.dev = true;
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Parses a package key: `/name/1.0.0_peer@2` (v5), `/name@1.0.0(peer@2)` (v6) or `name@1.0.0` (v9).
+   */
+  private parseKey(key: string, lockfileVersion: number): LockfileEntry | null {
+    const id = key.replace(/^\//, '').replace(/\(.*$/, '');
+    let name: string;
+    let version: string;
+
+    if (lockfileVersion < 6) {
+      const slash = id.lastIndexOf('/');
+      name = id.slice(0, slash);
+      version = id.slice(slash + 1).split('_')[0];
+    } else {
+      const at = id.indexOf('@', 1);
+      name = id.slice(0, at);
+      version = id.slice(at + 1);
+    }
+
+    if (!name || !isRegistryVersion(version)) {
+      return null;
+    }
+    return { name, version, manager: 'npm' };
+  }
+}
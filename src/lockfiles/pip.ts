@@ -0,0 +1,126 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { LockfileEntry, LockfileFormat } from '../types';
+
+const REQUIREMENT_PATTERN = /^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*(.*)$/;
+
+/**
+ * `requirements.txt` style files. Only `==`/`===` pins without wildcards count as
+ * exact; `-r`/`--requirement` includes are followed relative to the including file.
+ */
+export class RequirementsFormat implements LockfileFormat {
+  name = 'requirements.txt';
+
+  matches(filename: string): boolean {
+    return /requirements.*\.txt$/.test(filename);
+  }
+
+  async parse(content: string, filePath: string, visited: Set<string> = new Set()): Promise<LockfileEntry[]> {
+    visited.add(path.resolve(filePath));
+    const entries: LockfileEntry[] = [];
+    const lines = content.replace(/\\\r?\n/g, ' ').split(/\r?\n/);
+
+    for (const rawLine of lines) {
+      const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+      if (!line) continue;
+
+      const include = line.match(/^(?:-r|--requirement)[\s=]+(\S+)/);
+      if (include) {
+        const includePath = path.resolve(path.dirname(filePath), include[1]);
+        if (!visited.has(includePath)) {
+          entries.push(...await this.parse(await fs.readFile(includePath, 'utf8'), includePath, visited));
+        }
+        continue;
+      }
+      // Other options (-e, -c, --index-url, ...) and direct URLs are not registry packages
+      if (line.startsWith('-') || /^\S+:\/\//.test(line)) continue;
+
+      const requirement = line.split(';')[0].replace(/\s--hash[=\s]\S+/g, '').trim();
+      const match = requirement.match(REQUIREMENT_PATTERN);
+      if (!match) continue;
+
+      const [, name, spec] = match;
+      const pin = spec.trim().match(/^===?\s*([^\s,*]+)$/);
+      entries.push(pin
+        ? { name, version: pin[1], manager: 'pip' }
+        : { name, version: spec.trim() || '*', manager: 'pip', unpinned: true });
+    }
+
+    return entries;
+  }
+}
+
+/**
+ * `poetry.lock`. Read line by line from its `[[package]]` tables; packages installed
+ * from git, local paths or direct URLs are skipped.
+ */
+export class PoetryLockFormat implements LockfileFormat {
+  name = 'poetry.lock';
+
+  matches(filename: string): boolean {
+    return filename === 'poetry.lock';
+  }
+
+  async parse(content: string): Promise<LockfileEntry[]> {
+    const packages: { name?: string; version?: string; dev: boolean; sourceType?: string }[] = [];
+    let section: 'package' | 'source' | 'other' = 'other';
+
+    for (const line of content.split(/\r?\n/)) {
+      const header = line.match(/^\s*\[\[?([^\]]+)\]\]?\s*$/);
+      if (header) {
+        if (header[1] === 'package' && line.trim().startsWith('[[')) {
+          packages.push({ dev: false });
+          section = 'package';
+        } else {
+          section = header[1] === 'package.source' ? 'source' : 'other';
+        }
+        continue;
+      }
+
+      const field = line.match(/^\s*([\w-]+)\s*=\s*"([^"]*)"/);
+      const current = packages[packages.length - 1];
+      if (!field || !current) continue;
+
+      const [, key, value] = field;
+      if (section === 'package') {
+        if (key === 'name') current.name = value;
+        if (key === 'version') current.version = value;
+        if (key === 'category') current.dev = value === 'dev';
+      } else if (section === 'source' && key === 'type') {
+        current.sourceType = value;
+      }
+    }
+
+    return packages
+      .filter(pkg => pkg.name && pkg.version && (!pkg.sourceType || pkg.sourceType === 'legacy'))
+      .map(pkg => ({ name: pkg.name!, version: pkg.version!, manager: 'pip' as const, dev: pkg.dev }));
+  }
+}
+
+/**
+ * `Pipfile.lock`; `default` packages are runtime dependencies and `develop` packages dev ones.
+ */
+export class PipfileLockFormat implements LockfileFormat {
+  name = 'Pipfile.lock';
+
+  matches(filename: string): boolean {
+    return filename === 'Pipfile.lock';
+  }
+
+  async parse(content: string): Promise<LockfileEntry[]> {
+    const lock = JSON.parse(content);
+    const entries: LockfileEntry[] = [];
+
+    for (const [group, dev] of [['default', false], ['develop', true]] as const) {
+      for (const [name, pkg] of Object.entries<any>(lock[group] || {})) {
+        // git, path and editable entries have no version
+        const pin = typeof pkg.version === 'string' ? pkg.version.match(/^===?\s*(\S+)$/) : null;
+        if (pin) {
+          entries.push({ name, version: pin[1], manager: 'pip', dev });
+        }
+      }
+    }
+
+    return entries;
+  }
+}
@@ -0,0 +1,378 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import fetch from 'node-fetch';
+import { DownloadOptions, PackageManagerInterface, PackageInfo } from '../types';
+import { VersionSchemeFactory } from '../versions';
+import { NetworkUtils } from '../utils/network';
+import { ArchiveUtils } from '../utils/archive';
+import { IntegrityUtils } from '../utils/integrity';
+
+/**
+ * One published version of a crate, as a line of its sparse index file.
+ */
+interface IndexEntry {
+  name: string;
+  vers: string;
+  deps: IndexDependency[];
+  cksum: string; // sha256 of the .crate file, hex
+  features: Record<string, string[]>;
+  features2?: Record<string, string[]>; // features using `dep:` or `?` syntax, kept apart for old Cargo versions
+  yanked: boolean;
+  links?: string | null;
+  rust_version?: string;
+}
+
+interface IndexDependency {
+  name: string; // name the crate uses for the dependency
+  req: string;
+  features: string[];
+  optional: boolean;
+  default_features: boolean;
+  target: string | null;
+  kind?: 'normal' | 'dev' | 'build';
+  registry?: string | null; // set when the dependency comes from another registry
+  package?: string | null; // crate name when the dependency is renamed
+}
+
+// crates.io asks API clients to identify themselves
+const USER_AGENT = 'zembil (https://github.com/AbelaTs/Zembil)';
+
+/**
+ * Cargo package manager implementation for downloading and installing Rust crates.
+ * Reads versions and dependencies from the crates.io sparse index, downloads
+ * `.crate` files and installs them as vendored sources for offline builds.
+ */
+export class CargoManager implements PackageManagerInterface {
+  name = 'cargo' as const;
+  private indexUrl = 'https://index.crates.io';
+  private apiUrl = 'https://crates.io';
+  private downloadTemplate: Promise<string> | null = null;
+
+  /**
+   * Downloads a crate, checks it against the index checksum and installs it to the target directory.
+   * @param packageName - Name of the crate
+   * @param version - Version of the crate
+   * @param targetDir - Directory to install the crate
+   */
+  async install(packageName: string, version: string, targetDir: string): Promise<void> {
+    const { integrity } = await this.getPackageInfo(packageName, version);
+    const cratePath = await this.downloadPackage(packageName, version);
+    try {
+      if (integrity && await IntegrityUtils.verify(cratePath, integrity) === false) {
+        throw Object.assign(new Error(`Integrity check failed for ${packageName}@${version}: downloaded file does not match ${integrity}`), { code: 'EINTEGRITY' });
+      }
+      await this.installFromFile(cratePath, packageName, version, targetDir);
+    } finally {
+      await fs.remove(cratePath);
+    }
+  }
+
+  /**
+   * Installs a crate from a local `.crate` file without touching the network.
+   * The crate is unpacked into `vendor/<name>-<version>` with the
+   * `.cargo-checksum.json` Cargo expects of a directory source, and unless the
+   * target directory already has one, a `.cargo/config.toml` is written that
+   * replaces crates.io with `vendor/`, so `cargo build --offline` uses the
+   * vendored crates.
+   * @param packagePath - Path to the `.crate` file
+   * @param packageName - Name of the crate
+   * @param version - Version of the crate
+   * @param targetDir - Directory to install the crate
+   */
+  async installFromFile(packagePath: string, packageName: string, version: string, targetDir: string): Promise<void> {
+    const crateDir = path.join(targetDir, 'vendor', `${packageName}-${version}`);
+    await fs.remove(crateDir);
+    await ArchiveUtils.extract(packagePath, crateDir, 1);
+
+    const files: Record<string, string> = {};
+    for (const file of await this.listFiles(crateDir)) {
+      files[file] = await IntegrityUtils.digest(path.join(crateDir, file), 'sha256');
+    }
+    await fs.writeJson(path.join(crateDir, '.cargo-checksum.json'), {
+      files,
+      package: await IntegrityUtils.digest(packagePath, 'sha256')
+    });
+
+    await this.writeSourceConfig(targetDir);
+  }
+
+  /**
+   * Retrieves crate information from the sparse index, with the license,
+   * description and size from the crates.io API when it can be reached.
+   * Optional dependencies are included when a default feature enables them.
+   * @param packageName - Name of the crate
+   * @param version - Version of the crate
+   * @returns Package information object
+   */
+  async getPackageInfo(packageName: string, version: string): Promise<PackageInfo> {
+    const entry = (await this.fetchIndex(packageName)).find(candidate => candidate.vers === version);
+    if (!entry) {
+      throw new Error(`Package not found: ${packageName}@${version}`);
+    }
+
+    const features = { ...entry.features, ...entry.features2 };
+    const enabled = this.getDefaultEnabled(features);
+    const dependencies: Record<string, string> = {};
+    const devDependencies: Record<string, string> = {};
+
+    for (const dep of entry.deps) {
+      // Crates from other registries cannot be fetched from crates.io
+      if (dep.registry || (dep.optional && !enabled.has(dep.name))) continue;
+      const target = dep.kind === 'dev' ? devDependencies : dependencies;
+      const crate = dep.package || dep.name;
+      // A crate listed for several targets keeps the first requirement
+      target[crate] = target[crate] || dep.req;
+    }
+
+    const metadata = await this.fetchVersionMetadata(packageName, version);
+    return {
+      name: entry.name,
+      version: entry.vers,
+      manager: 'cargo',
+      description: metadata?.description || undefined,
+      homepage: metadata?.homepage || undefined,
+      repository: metadata?.repository || undefined,
+      license: metadata?.license || undefined,
+      dependencies: Object.keys(dependencies).length > 0 ? dependencies : undefined,
+      devDependencies: Object.keys(devDependencies).length > 0 ? devDependencies : undefined,
+      integrity: IntegrityUtils.fromHex('sha256', entry.cksum),
+      size: metadata?.crate_size || undefined,
+      features,
+      yanked: entry.yanked || undefined
+    };
+  }
+
+  /**
+   * Downloads a `.crate` file to a temporary location.
+   * @param packageName - Name of the crate
+   * @param version - Version of the crate
+   * @param options - Temporary directory and interrupted downloads to resume
+   * @returns Path to the downloaded crate
+   */
+  async downloadPackage(packageName: string, version: string, options: DownloadOptions = {}): Promise<string> {
+    const crateUrl = await this.getDownloadUrl(packageName, version);
+    const tempDir = options.tempDir || path.join(process.cwd(), 'temp');
+    return NetworkUtils.downloadToFile(crateUrl, path.join(tempDir, `${packageName}-${version}.crate`), options);
+  }
+
+  /**
+   * Retrieves the crate's README as rendered by crates.io.
+   * @param packageName - Name of the crate
+   * @param version - Version of the crate
+   * @returns README as HTML, or an empty string if the crate has none
+   */
+  async getDocumentation(packageName: string, version: string): Promise<string> {
+    const response = await fetch(`${this.apiUrl}/api/v1/crates/${packageName}/${version}/readme`, {
+      headers: { 'User-Agent': USER_AGENT }
+    });
+    if (!response.ok) {
+      return '';
+    }
+
+    return response.text();
+  }
+
+  /**
+   * Retrieves package examples (currently not implemented).
+   * @param packageName - Name of the crate
+   * @param version - Version of the crate
+   * @returns Empty array (feature not yet implemented)
+   */
+  async getExamples(_packageName: string, _version: string): Promise<string[]> {
+    return [];
+  }
+
+  /**
+   * Gets the registry crates are fetched from.
+   * @param packageName - Name of the crate
+   * @returns Index URL
+   */
+  getRegistryUrl(_packageName: string): string {
+    return this.indexUrl;
+  }
+
+  /**
+   * Lists the versions of a crate that have not been yanked.
+   * @param packageName - Name of the crate
+   * @returns Array of version strings
+   */
+  async listVersions(packageName: string): Promise<string[]> {
+    const versions = (await this.fetchIndex(packageName)).filter(entry => !entry.yanked).map(entry => entry.vers);
+    return VersionSchemeFactory.getScheme(this.name).sort(versions);
+  }
+
+  /**
+   * Fetches and parses a crate's file in the sparse index, one JSON object per version.
+   * @param packageName - Name of the crate
+   * @returns Index entries, oldest first
+   */
+  private async fetchIndex(packageName: string): Promise<IndexEntry[]> {
+    const response = await fetch(`${this.indexUrl}/${this.getIndexPath(packageName).toLowerCase()}`);
+    if (!response.ok) {
+      throw NetworkUtils.httpError(response, `Package not found: ${packageName}`);
+    }
+
+    return (await response.text())
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as IndexEntry);
+  }
+
+  /**
+   * Fetches a version's metadata from the crates.io API. The index has
+   * everything needed to download and build a crate, so this is best effort.
+   * @param packageName - Name of the crate
+   * @param version - Version of the crate
+   * @returns Version metadata, or undefined if it could not be fetched
+   */
+  private async fetchVersionMetadata(packageName: string, version: string): Promise<any> {
+    try {
+      const response = await fetch(`${this.apiUrl}/api/v1/crates/${packageName}/${version}`, {
+        headers: { 'User-Agent': USER_AGENT }
+      });
+      if (!response.ok) {
+        return undefined;
+      }
+      return ((await response.json()) as any).version;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Builds the download URL of a crate from the `dl` setting in the index's
+   * `config.json`, which either contains markers such as `{crate}` and
+   * `{version}` or is a base URL that `/<crate>/<version>/download` is appended to.
+   * @param packageName - Name of the crate
+   * @param version - Version of the crate
+   * @returns Download URL
+   */
+  private async getDownloadUrl(packageName: string, version: string): Promise<string> {
+    if (!this.downloadTemplate) {
+      this.downloadTemplate = this.fetchDownloadTemplate();
+      // A failed lookup is retried on the next download
+      this.downloadTemplate.catch(() => { this.downloadTemplate = null; });
+    }
+    const template = await this.downloadTemplate;
+
+    if (!/\{(crate|version|prefix|lowerprefix|sha256-checksum)\}/.test(template)) {
+      return `${template.replace(/\/$/, '')}/${packageName}/${version}/download`;
+    }
+
+    const prefix = path.posix.dirname(this.getIndexPath(packageName));
+    let url = template
+      .replace(/\{crate\}/g, packageName)
+      .replace(/\{version\}/g, version)
+      .replace(/\{prefix\}/g, prefix)
+      .replace(/\{lowerprefix\}/g, prefix.toLowerCase());
+    if (url.includes('{sha256-checksum}')) {
+      const entry = (await this.fetchIndex(packageName)).find(candidate => candidate.vers === version);
+      if (!entry) {
+        throw new Error(`Package not found: ${packageName}@${version}`);
+      }
+      url = url.replace(/\{sha256-checksum\}/g, entry.cksum);
+    }
+    return url;
+  }
+
+  private async fetchDownloadTemplate(): Promise<string> {
+    const response = await fetch(`${this.indexUrl}/config.json`);
+    if (!response.ok) {
+      throw NetworkUtils.httpError(response, `Index configuration not found at ${this.indexUrl}`);
+    }
+
+    const config = await response.json() as any;
+    if (!config.dl) {
+      throw new Error(`Index configuration at ${this.indexUrl} has no download URL`);
+    }
+    return config.dl;
+  }
+
+  /**
+   * Gets the path of a crate's file in the index: `1/a`, `2/ab`, `3/a/abc`
+   * or `se/rd/serde` for longer names.
+   * @param packageName - Name of the crate
+   * @returns Path relative to the index root, in the crate name's own case
+   */
+  private getIndexPath(packageName: string): string {
+    switch (packageName.length) {
+      case 1:
+        return `1/${packageName}`;
+      case 2:
+        return `2/${packageName}`;
+      case 3:
+        return `3/${packageName[0]}/${packageName}`;
+      default:
+        return `${packageName.slice(0, 2)}/${packageName.slice(2, 4)}/${packageName}`;
+    }
+  }
+
+  /**
+   * Follows the `default` feature to find what it enables: other features,
+   * optional dependencies (`dep:name`, or a feature named after the dependency)
+   * and features of dependencies (`name/feature`; `name?/feature` does not
+   * enable the dependency).
+   * @param features - Features of the crate version
+   * @returns Names of the enabled features and dependencies
+   */
+  private getDefaultEnabled(features: Record<string, string[]>): Set<string> {
+    const enabled = new Set<string>();
+    const visit = (feature: string) => {
+      if (enabled.has(feature)) return;
+      enabled.add(feature);
+      for (const value of features[feature] || []) {
+        if (value.startsWith('dep:')) {
+          enabled.add(value.slice(4));
+        } else if (value.includes('/')) {
+          const dependency = value.split('/')[0];
+          if (!dependency.endsWith('?')) {
+            visit(dependency);
+          }
+        } else {
+          visit(value);
+        }
+      }
+    };
+    visit('default');
+    return enabled;
+  }
+
+  /**
+   * Lists the files under a directory.
+   * @param dir - Directory to walk
+   * @param prefix - Subdirectory being listed, relative to `dir`
+   * @returns Paths relative to the directory, with forward slashes
+   */
+  private async listFiles(dir: string, prefix: string = ''): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of await fs.readdir(path.join(dir, prefix), { withFileTypes: true })) {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...await this.listFiles(dir, relative));
+      } else {
+        files.push(relative);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Points Cargo at the vendored crates, unless the project configures Cargo itself.
+   * @param targetDir - Directory the crates are vendored under
+   */
+  private async writeSourceConfig(targetDir: string): Promise<void> {
+    const cargoDir = path.join(targetDir, '.cargo');
+    if (await fs.pathExists(path.join(cargoDir, 'config.toml')) || await fs.pathExists(path.join(cargoDir, 'config'))) {
+      return;
+    }
+
+    await fs.outputFile(path.join(cargoDir, 'config.toml'), [
+      '[source.crates-io]',
+      'replace-with = "vendored-sources"',
+      '',
+      '[source.vendored-sources]',
+      'directory = "vendor"',
+      ''
+    ].join('\n'));
+  }
+}
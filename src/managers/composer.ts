@@ -0,0 +1,261 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import fetch from 'node-fetch';
+import { DownloadOptions, PackageManagerInterface, PackageInfo } from '../types';
+import { VersionSchemeFactory } from '../versions';
+import { NetworkUtils } from '../utils/network';
+import { ArchiveUtils } from '../utils/archive';
+import { IntegrityUtils } from '../utils/integrity';
+
+/**
+ * One version of a package in Packagist's `p2` metadata, after expanding
+ * the minified format.
+ */
+interface PackageVersion {
+  name: string;
+  version: string;
+  version_normalized?: string;
+  description?: string;
+  homepage?: string;
+  license?: string[];
+  source?: { type: string; url: string; reference: string };
+  dist?: { type: string; url: string; reference?: string; shasum?: string };
+  require?: Record<string, string>;
+  'require-dev'?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Composer package manager implementation for downloading and installing PHP packages.
+ * Reads versions and dependencies from Packagist's `p2` metadata, downloads
+ * dist zips and installs them into `vendor/` with Composer's `installed.json`.
+ */
+export class ComposerManager implements PackageManagerInterface {
+  name = 'composer' as const;
+  private repoUrl = 'https://repo.packagist.org';
+
+  /**
+   * Downloads a package and installs it to the target directory.
+   * @param packageName - Package name (vendor/name)
+   * @param version - Version of the package
+   * @param targetDir - Directory to install the package
+   */
+  async install(packageName: string, version: string, targetDir: string): Promise<void> {
+    const zipPath = await this.downloadPackage(packageName, version);
+    try {
+      await this.installFromFile(zipPath, packageName, version, targetDir);
+    } finally {
+      await fs.remove(zipPath);
+    }
+  }
+
+  /**
+   * Installs a package from a local dist zip without touching the network.
+   * The zip is unpacked into `vendor/<vendor>/<name>`, dropping the single
+   * top-level directory dist zips usually have, and the package's
+   * `composer.json` is recorded in `vendor/composer/installed.json`, so
+   * `composer dump-autoload` can build the autoloader offline.
+   * @param packagePath - Path to the dist zip
+   * @param packageName - Package name (vendor/name)
+   * @param version - Version of the package
+   * @param targetDir - Directory to install the package
+   */
+  async installFromFile(packagePath: string, packageName: string, version: string, targetDir: string): Promise<void> {
+    const vendorDir = path.join(targetDir, 'vendor');
+    const packageDir = path.join(vendorDir, ...packageName.split('/'));
+    await fs.ensureDir(vendorDir);
+
+    const extractDir = await fs.mkdtemp(path.join(vendorDir, '.zembil-'));
+    try {
+      await ArchiveUtils.extract(packagePath, extractDir);
+      const entries = await fs.readdir(extractDir, { withFileTypes: true });
+      const root = entries.length === 1 && entries[0].isDirectory() ? path.join(extractDir, entries[0].name) : extractDir;
+      await fs.remove(packageDir);
+      await fs.move(root, packageDir);
+    } finally {
+      await fs.remove(extractDir);
+    }
+
+    const composerJsonPath = path.join(packageDir, 'composer.json');
+    const composerJson = await fs.pathExists(composerJsonPath) ? await fs.readJson(composerJsonPath) : {};
+    await this.recordInstalled(vendorDir, {
+      ...composerJson,
+      name: packageName,
+      version,
+      version_normalized: this.normalizeVersion(version),
+      'install-path': `../${packageName}`
+    });
+  }
+
+  /**
+   * Retrieves package information from Packagist. Platform requirements
+   * (`php`, `ext-*`, `lib-*`, `composer-*`) are left out of the dependencies,
+   * as they are not packages.
+   * @param packageName - Package name (vendor/name)
+   * @param version - Version of the package
+   * @returns Package information object
+   */
+  async getPackageInfo(packageName: string, version: string): Promise<PackageInfo> {
+    const data = await this.findVersion(packageName, version);
+    const dependencies = this.filterPackages(data.require);
+    const devDependencies = this.filterPackages(data['require-dev']);
+
+    return {
+      name: data.name,
+      version: data.version,
+      manager: 'composer',
+      description: data.description || undefined,
+      homepage: data.homepage || undefined,
+      repository: data.source?.url,
+      license: data.license?.join(' OR ') || undefined,
+      dependencies: Object.keys(dependencies).length > 0 ? dependencies : undefined,
+      devDependencies: Object.keys(devDependencies).length > 0 ? devDependencies : undefined,
+      integrity: data.dist?.shasum ? IntegrityUtils.fromHex('sha1', data.dist.shasum) : undefined
+    };
+  }
+
+  /**
+   * Downloads a package's dist zip to a temporary location.
+   * @param packageName - Package name (vendor/name)
+   * @param version - Version of the package
+   * @param options - Temporary directory and interrupted downloads to resume
+   * @returns Path to the downloaded zip
+   */
+  async downloadPackage(packageName: string, version: string, options: DownloadOptions = {}): Promise<string> {
+    const data = await this.findVersion(packageName, version);
+    if (!data.dist?.url) {
+      throw Object.assign(new Error(`No dist archive published for ${packageName}@${version}`), { code: 'ENODIST' });
+    }
+
+    const tempDir = options.tempDir || path.join(process.cwd(), 'temp');
+    return NetworkUtils.downloadToFile(data.dist.url, path.join(tempDir, `${packageName.replace('/', '-')}-${version}.zip`), options);
+  }
+
+  /**
+   * Retrieves package documentation. Packagist has no documentation
+   * endpoint; a package's README ships inside its dist zip.
+   * @param packageName - Package name (vendor/name)
+   * @param version - Version of the package
+   * @returns Empty string
+   */
+  async getDocumentation(_packageName: string, _version: string): Promise<string> {
+    return '';
+  }
+
+  /**
+   * Retrieves package examples (currently not implemented).
+   * @param packageName - Package name (vendor/name)
+   * @param version - Version of the package
+   * @returns Empty array (feature not yet implemented)
+   */
+  async getExamples(_packageName: string, _version: string): Promise<string[]> {
+    return [];
+  }
+
+  /**
+   * Gets the repository packages are fetched from.
+   * @param packageName - Package name (vendor/name)
+   * @returns Repository URL
+   */
+  getRegistryUrl(_packageName: string): string {
+    return this.repoUrl;
+  }
+
+  /**
+   * Lists the tagged versions of a package. Branches (`dev-main`) are not included.
+   * @param packageName - Package name (vendor/name)
+   * @returns Array of version strings
+   */
+  async listVersions(packageName: string): Promise<string[]> {
+    const versions = (await this.fetchMetadata(packageName)).map(data => data.version);
+    return VersionSchemeFactory.getScheme(this.name).sort(versions);
+  }
+
+  /**
+   * Fetches a package's `p2` metadata and expands it. In the minified format
+   * each version only lists the fields that differ from the version before
+   * it, and `__unset` removes a field.
+   * @param packageName - Package name (vendor/name)
+   * @returns Versions, newest first
+   */
+  private async fetchMetadata(packageName: string): Promise<PackageVersion[]> {
+    const name = packageName.toLowerCase();
+    const response = await fetch(`${this.repoUrl}/p2/${name}.json`);
+    if (!response.ok) {
+      throw NetworkUtils.httpError(response, `Package not found: ${packageName}`);
+    }
+
+    const data = await response.json() as any;
+    const versions: PackageVersion[] = data.packages?.[name] || [];
+    if (data.minified !== 'composer/2.0') {
+      return versions;
+    }
+
+    let previous: Record<string, unknown> = {};
+    return versions.map(version => {
+      const expanded: Record<string, unknown> = { ...previous };
+      for (const [key, value] of Object.entries(version)) {
+        if (value === '__unset') {
+          delete expanded[key];
+        } else {
+          expanded[key] = value;
+        }
+      }
+      previous = expanded;
+      return expanded as PackageVersion;
+    });
+  }
+
+  private async findVersion(packageName: string, version: string): Promise<PackageVersion> {
+    const data = (await this.fetchMetadata(packageName)).find(candidate => candidate.version === version);
+    if (!data) {
+      throw new Error(`Package not found: ${packageName}@${version}`);
+    }
+    return data;
+  }
+
+  /**
+   * Keeps the requirements that name packages (`vendor/name`).
+   * @param requirements - Requirements from the package metadata
+   * @returns Package requirements
+   */
+  private filterPackages(requirements: Record<string, string> | undefined): Record<string, string> {
+    return Object.fromEntries(Object.entries(requirements || {}).filter(([name]) => name.includes('/')));
+  }
+
+  /**
+   * Normalizes a version the way Composer does for tagged releases: the
+   * leading `v` is dropped and the version is padded to four parts.
+   * @param version - Version of the package
+   * @returns Normalized version, e.g. `1.2.0.0`
+   */
+  private normalizeVersion(version: string): string {
+    const match = version.match(/^v?(\d+(?:\.\d+){0,3})(.*)$/);
+    if (!match) {
+      return version;
+    }
+    const parts = match[1].split('.');
+    while (parts.length < 4) {
+      parts.push('0');
+    }
+    return `${parts.join('.')}${match[2]}`;
+  }
+
+  /**
+   * Adds or replaces a package in `vendor/composer/installed.json`.
+   * @param vendorDir - Vendor directory
+   * @param entry - Installed package entry
+   */
+  private async recordInstalled(vendorDir: string, entry: Record<string, unknown>): Promise<void> {
+    const installedPath = path.join(vendorDir, 'composer', 'installed.json');
+    const installed = await fs.pathExists(installedPath)
+      ? await fs.readJson(installedPath)
+      : { packages: [], dev: true, 'dev-package-names': [] };
+
+    installed.packages = [
+      ...(installed.packages as Record<string, unknown>[]).filter(existing => existing.name !== entry.name),
+      entry
+    ].sort((a, b) => String(a.name).localeCompare(String(b.name)));
+    await fs.outputJson(installedPath, installed, { spaces: 4 });
+  }
+}
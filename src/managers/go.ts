@@ -0,0 +1,336 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import fetch from 'node-fetch';
+import { ArtifactSelection, CachedArtifact, DownloadedArtifact, DownloadOptions, PackageManagerInterface, PackageInfo } from '../types';
+import { VersionSchemeFactory } from '../versions';
+import { NetworkUtils } from '../utils/network';
+import { ArchiveUtils } from '../utils/archive';
+
+/**
+ * Contents of a version's `.info` file on a module proxy.
+ */
+interface ModuleInfo {
+  Version: string;
+  Time?: string;
+  Origin?: { VCS?: string; URL?: string; Ref?: string; Hash?: string };
+}
+
+const DEFAULT_PROXY = 'https://proxy.golang.org';
+
+// Pseudo-versions name a commit rather than a release, e.g. v0.0.0-20191109021931-daa7c04131f5
+const PSEUDO_VERSION = /[-.]\d{14}-[0-9a-f]{12}(\+incompatible)?$/;
+
+/**
+ * Go package manager implementation for downloading and installing Go modules.
+ * Speaks the GOPROXY protocol against a module proxy, keeps each version's
+ * `.info` and `.mod` files as artifacts next to the module zip and installs
+ * them as a `GOMODCACHE` download tree for offline builds.
+ */
+export class GoManager implements PackageManagerInterface {
+  name = 'go' as const;
+  defaultArtifacts: ArtifactSelection = { files: ['info', 'mod'] };
+  private proxyUrl: string;
+
+  /**
+   * @param proxyUrl - Module proxy to use; defaults to the first proxy in
+   * `GOPROXY`, or proxy.golang.org
+   */
+  constructor(proxyUrl?: string) {
+    this.proxyUrl = (proxyUrl || GoManager.getEnvironmentProxy() || DEFAULT_PROXY).replace(/\/$/, '');
+  }
+
+  /**
+   * Downloads a module with its `.info` and `.mod` files and installs it to the target directory.
+   * @param packageName - Module path
+   * @param version - Version of the module
+   * @param targetDir - Directory to install the module
+   */
+  async install(packageName: string, version: string, targetDir: string): Promise<void> {
+    const zipPath = await this.downloadPackage(packageName, version);
+    const artifacts = await this.downloadArtifacts(packageName, version, this.defaultArtifacts);
+    try {
+      const versionDir = this.getVersionDir(targetDir, packageName);
+      for (const artifact of artifacts) {
+        await fs.copy(artifact.path, path.join(versionDir, artifact.filename));
+      }
+      await this.installFromFile(zipPath, packageName, version, targetDir);
+    } finally {
+      await fs.remove(zipPath);
+      for (const artifact of artifacts) {
+        await fs.remove(artifact.path);
+      }
+    }
+  }
+
+  /**
+   * Installs a module from a local zip without touching the network. The zip
+   * is written to `go/pkg/mod/cache/download/<module>/@v/` with the version
+   * added to the `list` file, so pointing `GOMODCACHE` at `go/pkg/mod` lets
+   * `GOFLAGS=-mod=mod GOPROXY=off` builds use it. A missing `.mod` file is
+   * taken from the zip's `go.mod`, and a missing `.info` file only records
+   * the version.
+   * @param packagePath - Path to the module zip
+   * @param packageName - Module path
+   * @param version - Version of the module
+   * @param targetDir - Directory to install the module
+   */
+  async installFromFile(packagePath: string, packageName: string, version: string, targetDir: string): Promise<void> {
+    const versionDir = this.getVersionDir(targetDir, packageName);
+    const base = path.join(versionDir, this.escape(version));
+    await fs.ensureDir(versionDir);
+    await fs.copy(packagePath, `${base}.zip`);
+
+    if (!await fs.pathExists(`${base}.mod`)) {
+      await fs.writeFile(`${base}.mod`, await this.readGoMod(packagePath, packageName, version));
+    }
+    if (!await fs.pathExists(`${base}.info`)) {
+      await fs.writeJson(`${base}.info`, { Version: version });
+    }
+
+    if (!PSEUDO_VERSION.test(version)) {
+      const listPath = path.join(versionDir, 'list');
+      const listed = await fs.pathExists(listPath)
+        ? (await fs.readFile(listPath, 'utf8')).split('\n').filter(line => line.trim() !== '')
+        : [];
+      if (!listed.includes(version)) {
+        const versions = VersionSchemeFactory.getScheme(this.name).sort([...listed, version]);
+        await fs.writeFile(listPath, `${versions.join('\n')}\n`);
+      }
+    }
+  }
+
+  /**
+   * Installs a module zip together with its cached `.info` and `.mod` files.
+   * @param packagePath - Path to the module zip
+   * @param artifacts - Cached `.info` and `.mod` files
+   * @param packageName - Module path
+   * @param version - Version of the module
+   * @param targetDir - Directory to install the module
+   */
+  async installArtifacts(packagePath: string, artifacts: CachedArtifact[], packageName: string, version: string, targetDir: string): Promise<void> {
+    const versionDir = this.getVersionDir(targetDir, packageName);
+    for (const artifact of artifacts) {
+      await fs.copy(artifact.localPath, path.join(versionDir, artifact.filename));
+    }
+    await this.installFromFile(packagePath, packageName, version, targetDir);
+  }
+
+  /**
+   * Retrieves module information from the proxy. Every module required by
+   * the version's `go.mod` is a dependency, including `// indirect` ones,
+   * since Go reads the `go.mod` of each of them when it loads the module graph.
+   * @param packageName - Module path
+   * @param version - Version of the module
+   * @returns Package information object
+   */
+  async getPackageInfo(packageName: string, version: string): Promise<PackageInfo> {
+    const versionUrl = `${this.getModuleUrl(packageName)}/@v/${this.escape(version)}`;
+    const infoResponse = await fetch(`${versionUrl}.info`);
+    if (!infoResponse.ok) {
+      throw NetworkUtils.httpError(infoResponse, `Package not found: ${packageName}@${version}`);
+    }
+    const info = await infoResponse.json() as ModuleInfo;
+
+    const modResponse = await fetch(`${versionUrl}.mod`);
+    if (!modResponse.ok) {
+      throw NetworkUtils.httpError(modResponse, `Package not found: ${packageName}@${version}`);
+    }
+    const dependencies = this.parseRequirements(await modResponse.text());
+
+    return {
+      name: packageName,
+      version: info.Version,
+      manager: 'go',
+      repository: info.Origin?.URL,
+      dependencies: Object.keys(dependencies).length > 0 ? dependencies : undefined
+    };
+  }
+
+  /**
+   * Downloads a module zip to a temporary location.
+   * @param packageName - Module path
+   * @param version - Version of the module
+   * @param options - Temporary directory and interrupted downloads to resume
+   * @returns Path to the downloaded zip
+   */
+  async downloadPackage(packageName: string, version: string, options: DownloadOptions = {}): Promise<string> {
+    const zipUrl = `${this.getModuleUrl(packageName)}/@v/${this.escape(version)}.zip`;
+    const tempDir = options.tempDir || path.join(process.cwd(), 'temp');
+    return NetworkUtils.downloadToFile(zipUrl, path.join(tempDir, `${this.getFileStem(packageName, version)}.zip`), options);
+  }
+
+  /**
+   * Downloads a version's `.info` and `.mod` files. Go needs both to use a
+   * module from its cache, so every queued module gets them.
+   * @param packageName - Module path
+   * @param version - Version of the module
+   * @param selection - Files to download (`info`, `mod`)
+   * @param options - Temporary directory and interrupted downloads to resume
+   * @returns Downloaded artifacts
+   */
+  async downloadArtifacts(packageName: string, version: string, selection: ArtifactSelection, options: DownloadOptions = {}): Promise<DownloadedArtifact[]> {
+    const tempDir = options.tempDir || path.join(process.cwd(), 'temp');
+    const artifacts: DownloadedArtifact[] = [];
+
+    for (const type of (selection.files || []).filter(file => file === 'info' || file === 'mod')) {
+      const filename = `${this.escape(version)}.${type}`;
+      const url = `${this.getModuleUrl(packageName)}/@v/${filename}`;
+      artifacts.push({
+        type,
+        filename,
+        path: await NetworkUtils.downloadToFile(url, path.join(tempDir, 'artifacts', `${this.getFileStem(packageName, version)}.${type}`), options)
+      });
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * Retrieves package documentation. The proxy protocol has no documentation
+   * endpoint; a module's README ships inside its zip.
+   * @param packageName - Module path
+   * @param version - Version of the module
+   * @returns Empty string
+   */
+  async getDocumentation(_packageName: string, _version: string): Promise<string> {
+    return '';
+  }
+
+  /**
+   * Retrieves package examples (currently not implemented).
+   * @param packageName - Module path
+   * @param version - Version of the module
+   * @returns Empty array (feature not yet implemented)
+   */
+  async getExamples(_packageName: string, _version: string): Promise<string[]> {
+    return [];
+  }
+
+  /**
+   * Gets the proxy modules are fetched from.
+   * @param packageName - Module path
+   * @returns Proxy URL
+   */
+  getRegistryUrl(_packageName: string): string {
+    return this.proxyUrl;
+  }
+
+  /**
+   * Lists the tagged versions of a module. Pseudo-versions are not listed by the proxy.
+   * @param packageName - Module path
+   * @returns Array of version strings
+   */
+  async listVersions(packageName: string): Promise<string[]> {
+    const response = await fetch(`${this.getModuleUrl(packageName)}/@v/list`);
+    if (!response.ok) {
+      throw NetworkUtils.httpError(response, `Package not found: ${packageName}`);
+    }
+
+    const versions = (await response.text()).split('\n').map(line => line.trim()).filter(line => line !== '');
+    return VersionSchemeFactory.getScheme(this.name).sort(versions);
+  }
+
+  /**
+   * Gets the version the proxy reports as latest, which for modules without
+   * tagged versions is a pseudo-version of the newest commit.
+   * @param packageName - Module path
+   * @returns Tag to version map with `latest`, or an empty map if the proxy has none
+   */
+  async getDistTags(packageName: string): Promise<Record<string, string>> {
+    const response = await fetch(`${this.getModuleUrl(packageName)}/@latest`);
+    if (!response.ok) {
+      return {};
+    }
+
+    const info = await response.json() as ModuleInfo;
+    return info.Version ? { latest: info.Version } : {};
+  }
+
+  /**
+   * Reads the first proxy URL from `GOPROXY`, skipping `direct` and `off`.
+   * @returns Proxy URL or undefined if none is configured
+   */
+  private static getEnvironmentProxy(): string | undefined {
+    return (process.env.GOPROXY || '')
+      .split(/[,|]/)
+      .map(entry => entry.trim())
+      .find(entry => entry !== '' && entry !== 'direct' && entry !== 'off');
+  }
+
+  /**
+   * Extracts the modules a `go.mod` file requires, from both single-line
+   * `require` directives and `require (...)` blocks.
+   * @param goMod - Contents of the `go.mod` file
+   * @returns Required versions keyed by module path
+   */
+  private parseRequirements(goMod: string): Record<string, string> {
+    const requirements: Record<string, string> = {};
+    let inBlock = false;
+
+    for (const rawLine of goMod.split('\n')) {
+      const line = rawLine.replace(/\/\/.*$/, '').trim();
+      let requirement: string | undefined;
+
+      if (inBlock) {
+        if (line === ')') {
+          inBlock = false;
+        } else {
+          requirement = line;
+        }
+      } else if (/^require\s*\($/.test(line)) {
+        inBlock = true;
+      } else if (/^require\s/.test(line)) {
+        requirement = line.slice('require'.length);
+      }
+
+      const match = requirement?.trim().match(/^("[^"]+"|\S+)\s+(\S+)$/);
+      if (match) {
+        requirements[match[1].replace(/^"|"$/g, '')] = match[2];
+      }
+    }
+
+    return requirements;
+  }
+
+  /**
+   * Reads the `go.mod` at the root of a module zip. Modules without one get
+   * the single `module` line the proxy serves for them.
+   * @param zipPath - Path to the module zip
+   * @param packageName - Module path
+   * @param version - Version of the module
+   * @returns Contents of the `.mod` file
+   */
+  private async readGoMod(zipPath: string, packageName: string, version: string): Promise<string> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zembil-go-'));
+    try {
+      await ArchiveUtils.extract(zipPath, tempDir);
+      const goModPath = path.join(tempDir, `${packageName}@${version}`, 'go.mod');
+      return await fs.pathExists(goModPath) ? fs.readFile(goModPath, 'utf8') : `module ${packageName}\n`;
+    } finally {
+      await fs.remove(tempDir);
+    }
+  }
+
+  /**
+   * Escapes a module path or version for use in URLs and the module cache:
+   * each upper-case letter becomes `!` and its lower-case form.
+   * @param value - Module path or version
+   * @returns Escaped value
+   */
+  private escape(value: string): string {
+    return value.replace(/[A-Z]/g, letter => `!${letter.toLowerCase()}`);
+  }
+
+  private getModuleUrl(packageName: string): string {
+    return `${this.proxyUrl}/${this.escape(packageName)}`;
+  }
+
+  private getVersionDir(targetDir: string, packageName: string): string {
+    return path.join(targetDir, 'go', 'pkg', 'mod', 'cache', 'download', ...this.escape(packageName).split('/'), '@v');
+  }
+
+  private getFileStem(packageName: string, version: string): string {
+    return `${packageName.replace(/\//g, '_')}@${version}`;
+  }
+}
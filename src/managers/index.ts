@@ -1,39 +1,106 @@
-import { PackageManagerInterface } from '../types';
+import { ManagerRegistration, PackageManagerInterface, RegistrySettings } from '../types';
+import { VersionSchemeFactory } from '../versions';
 import { NpmManager } from './npm';
 import { PipManager } from './pip';
 import { MavenManager } from './maven';
+import { CargoManager } from './cargo';
+import { GoManager } from './go';
+import { ComposerManager } from './composer';
 
+const BUILTIN_MANAGERS: ManagerRegistration[] = [
+  { name: 'npm', create: registries => new NpmManager(registries.npm), description: 'Node.js packages from the npm registry' },
+  { name: 'pip', create: registries => new PipManager(registries.pip), description: 'Python packages from PyPI' },
+  { name: 'maven', create: registries => new MavenManager(registries.maven), description: 'Java packages from Maven Central (groupId:artifactId)' },
+  {
+    name: 'cargo',
+    create: () => new CargoManager(),
+    description: 'Rust crates from crates.io',
+    installHint: 'Crates are vendored under vendor/; build with `cargo build --offline`'
+  },
+  {
+    name: 'go',
+    create: () => new GoManager(),
+    description: 'Go modules from GOPROXY (default proxy.golang.org)',
+    installHint: 'Build with GOMODCACHE=<dir>/go/pkg/mod GOFLAGS=-mod=mod GOPROXY=off'
+  },
+  {
+    name: 'composer',
+    create: () => new ComposerManager(),
+    description: 'PHP packages from Packagist (vendor/name)',
+    installHint: 'Run `composer dump-autoload` to build the autoloader'
+  }
+];
+
+/**
+ * Creates package managers by name. The built-in managers are registered the
+ * same way as managers from plugins.
+ */
 export class PackageManagerFactory {
   private static managers: Map<string, PackageManagerInterface> = new Map();
+  private static registrations: Map<string, ManagerRegistration> = new Map(
+    BUILTIN_MANAGERS.map(registration => [registration.name, registration])
+  );
+  private static registries: RegistrySettings = {};
 
   static getManager(manager: string): PackageManagerInterface {
     if (this.managers.has(manager)) {
       return this.managers.get(manager)!;
     }
 
-    let managerInstance: PackageManagerInterface;
-
-    switch (manager) {
-      case 'npm':
-        managerInstance = new NpmManager();
-        break;
-      case 'pip':
-        managerInstance = new PipManager();
-        break;
-      case 'maven':
-        managerInstance = new MavenManager();
-        break;
-      default:
-        throw new Error(`Unsupported package manager: ${manager}`);
+    const registration = this.registrations.get(manager);
+    if (!registration) {
+      throw new Error(`Unsupported package manager: ${manager}`);
     }
 
+    const managerInstance = registration.create(this.registries);
     this.managers.set(manager, managerInstance);
     return managerInstance;
   }
 
   static getSupportedManagers(): string[] {
-    return ['npm', 'pip', 'maven'];
+    return Array.from(this.registrations.keys());
+  }
+
+  /**
+   * Sets the registries managers are created with. Managers created with
+   * other registries are dropped, so the next getManager() creates them again.
+   * @param registries - Registries and credentials per manager
+   */
+  static configure(registries: RegistrySettings): void {
+    if (JSON.stringify(registries) === JSON.stringify(this.registries)) {
+      return;
+    }
+    this.registries = registries;
+    this.managers.clear();
+  }
+
+  /**
+   * Gets a manager's registration, with its CLI hints.
+   * @param manager - Name of the manager
+   * @returns Registration or undefined if no such manager is registered
+   */
+  static getRegistration(manager: string): ManagerRegistration | undefined {
+    return this.registrations.get(manager);
+  }
+
+  /**
+   * Adds a package manager, usually from a plugin. Its version scheme, if
+   * it has one, is registered with the VersionSchemeFactory.
+   * @param registration - Name, factory and CLI hints of the manager
+   */
+  static register(registration: ManagerRegistration): void {
+    if (!registration.name || typeof registration.create !== 'function') {
+      throw new Error('A package manager registration needs a name and a create() function');
+    }
+    if (this.registrations.has(registration.name)) {
+      throw Object.assign(new Error(`Package manager ${registration.name} is already registered`), { code: 'EMANAGEREXISTS' });
+    }
+
+    this.registrations.set(registration.name, registration);
+    if (registration.versionScheme) {
+      VersionSchemeFactory.register(registration.name, registration.versionScheme);
+    }
   }
 }
 
-export { NpmManager, PipManager, MavenManager };
+export { NpmManager, PipManager, MavenManager, CargoManager, GoManager, ComposerManager };
@@ -1,7 +1,14 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import fetch from 'node-fetch';
-import { PackageManagerInterface, PackageInfo } from '../types';
+import { ArtifactSelection, CachedArtifact, DownloadedArtifact, DownloadOptions, MavenRegistrySettings, PackageManagerInterface, PackageInfo, Registry } from '../types';
+import { VersionSchemeFactory } from '../versions';
+import { HttpError, NetworkUtils } from '../utils/network';
+import { IntegrityUtils } from '../utils/integrity';
+import { PomUtils } from '../utils/pom';
+import { RegistryUtils } from '../utils/registries';
+
+const MAVEN_CENTRAL: Registry = { url: 'https://repo1.maven.org/maven2' };
 
 /**
  * Maven package manager implementation for downloading and installing Java packages.
@@ -9,34 +16,51 @@ import { PackageManagerInterface, PackageInfo } from '../types';
  */
 export class MavenManager implements PackageManagerInterface {
   name = 'maven' as const;
-  private mavenCentralUrl = 'https://repo1.maven.org/maven2';
+  private found: Map<string, Promise<Registry>> = new Map();
+  private foundIn: Map<string, Registry> = new Map();
 
   /**
-   * Installs a Maven package to the target directory.
+   * @param registries - Mirror to use instead of Maven Central, and extra repositories
+   */
+  constructor(private registries: MavenRegistrySettings = {}) {}
+
+  /**
+   * Downloads a Maven package and installs it to the target directory.
    * @param packageName - Maven coordinates (groupId:artifactId)
    * @param version - Version of the package
    * @param targetDir - Directory to install the package
    */
   async install(packageName: string, version: string, targetDir: string): Promise<void> {
-    await this.getPackageInfo(packageName, version);
-    const jarUrl = await this.getJarUrl(packageName, version);
-    
-    const response = await fetch(jarUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to download package: ${response.statusText}`);
+    const jarPath = await this.downloadPackage(packageName, version);
+    try {
+      await this.installFromFile(jarPath, packageName, version, targetDir);
+    } finally {
+      await fs.remove(jarPath);
     }
+  }
 
-    const jarPath = path.join(targetDir, `${packageName}-${version}.jar`);
-    const buffer = await response.buffer();
-    await fs.writeFile(jarPath, buffer);
+  /**
+   * Installs a Maven JAR from a local file without touching the network.
+   * The JAR is placed in a local repository layout under `maven/` so it can be
+   * used with `-Dmaven.repo.local`.
+   * @param packagePath - Path to the JAR file
+   * @param packageName - Maven coordinates (groupId:artifactId)
+   * @param version - Version of the package
+   * @param targetDir - Directory to install the package
+   */
+  async installFromFile(packagePath: string, packageName: string, version: string, targetDir: string): Promise<void> {
+    const [groupId, artifactId] = packageName.split(':');
+    if (!groupId || !artifactId) {
+      throw new Error('Invalid Maven coordinates. Expected format: groupId:artifactId');
+    }
 
-    const mavenPath = this.getMavenPath(packageName);
-    await fs.ensureDir(path.join(targetDir, 'maven', mavenPath));
-    await fs.copy(jarPath, path.join(targetDir, 'maven', mavenPath, `${packageName}-${version}.jar`));
+    const versionDir = path.join(targetDir, 'maven', this.getMavenPath(packageName), version);
+    await fs.ensureDir(versionDir);
+    await fs.copy(packagePath, path.join(versionDir, `${artifactId}-${version}.jar`));
   }
 
   /**
-   * Retrieves package information from Maven Central.
+   * Retrieves package information from Maven Central or the repository that has the version.
    * @param packageName - Maven coordinates (groupId:artifactId)
    * @param version - Version of the package
    * @returns Package information object
@@ -47,14 +71,15 @@ export class MavenManager implements PackageManagerInterface {
       throw new Error('Invalid Maven coordinates. Expected format: groupId:artifactId');
     }
 
+    const repository = await this.findRepository(packageName, version);
     const pomUrl = await this.getPomUrl(groupId, artifactId, version);
-    const response = await fetch(pomUrl);
+    const response = await fetch(pomUrl, { headers: RegistryUtils.getHeaders(repository) });
     if (!response.ok) {
-      throw new Error(`Package not found: ${packageName}@${version}`);
+      throw NetworkUtils.httpError(response, `Package not found: ${packageName}@${version}`);
     }
 
     const pomContent = await response.text();
-    const info = this.parsePom(pomContent);
+    const info = this.parsePom(pomContent, version);
     
     return {
       name: packageName,
@@ -64,30 +89,116 @@ export class MavenManager implements PackageManagerInterface {
       homepage: info.url,
       repository: info.scm?.url,
       license: info.license?.name,
-      dependencies: info.dependencies
+      dependencies: info.dependencies,
+      devDependencies: info.devDependencies,
+      peerDependencies: info.peerDependencies,
+      integrity: await this.getJarIntegrity(packageName, version),
+      registry: repository.url
     };
   }
 
+  /**
+   * Reads the `.sha1` checksum Maven Central publishes next to each JAR.
+   * @param packageName - Maven coordinates (groupId:artifactId)
+   * @param version - Version of the package
+   * @returns Integrity string or undefined if no checksum is published
+   */
+  private async getJarIntegrity(packageName: string, version: string): Promise<string | undefined> {
+    return this.getSha1Integrity(`${await this.getJarUrl(packageName, version)}.sha1`, await this.findRepository(packageName, version));
+  }
+
+  /**
+   * Fetches a published `.sha1` file and turns it into an integrity string.
+   * @param sha1Url - URL of the checksum file
+   * @param repository - Repository the file is in
+   * @returns Integrity string or undefined if the checksum is unavailable
+   */
+  private async getSha1Integrity(sha1Url: string, repository: Registry): Promise<string | undefined> {
+    try {
+      const response = await fetch(sha1Url, { headers: RegistryUtils.getHeaders(repository) });
+      if (!response.ok) {
+        return undefined;
+      }
+
+      const sha1 = (await response.text()).trim().split(/\s+/)[0];
+      return /^[0-9a-f]{40}$/i.test(sha1) ? IntegrityUtils.fromHex('sha1', sha1) : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
   /**
    * Downloads a Maven JAR to a temporary location.
    * @param packageName - Maven coordinates (groupId:artifactId)
    * @param version - Version of the package
+   * @param options - Temporary directory and interrupted downloads to resume
    * @returns Path to the downloaded JAR file
    */
-  async downloadPackage(packageName: string, version: string): Promise<string> {
+  async downloadPackage(packageName: string, version: string, options: DownloadOptions = {}): Promise<string> {
     const jarUrl = await this.getJarUrl(packageName, version);
-    const response = await fetch(jarUrl);
-    
-    if (!response.ok) {
-      throw new Error(`Failed to download package: ${response.statusText}`);
+    const tempDir = options.tempDir || path.join(process.cwd(), 'temp');
+    const headers = { ...options.headers, ...RegistryUtils.getHeaders(await this.findRepository(packageName, version)) };
+    return NetworkUtils.downloadToFile(jarUrl, path.join(tempDir, `${packageName.replace(':', '-')}-${version}.jar`), { ...options, headers });
+  }
+
+  /**
+   * Downloads classifier JARs (`sources`, `javadoc`, ...) published next to the main JAR.
+   * Classifiers that are not published are skipped with a warning.
+   * @param packageName - Maven coordinates (groupId:artifactId)
+   * @param version - Version of the package
+   * @param selection - Classifiers to download
+   * @param options - Temporary directory and interrupted downloads to resume
+   * @returns Downloaded artifacts
+   */
+  async downloadArtifacts(packageName: string, version: string, selection: ArtifactSelection, options: DownloadOptions = {}): Promise<DownloadedArtifact[]> {
+    const [, artifactId] = packageName.split(':');
+    const tempDir = options.tempDir || path.join(process.cwd(), 'temp');
+    const repository = await this.findRepository(packageName, version);
+    const headers = { ...options.headers, ...RegistryUtils.getHeaders(repository) };
+    const artifacts: DownloadedArtifact[] = [];
+
+    for (const classifier of selection.classifiers || []) {
+      const filename = `${artifactId}-${version}-${classifier}.jar`;
+      const url = `${repository.url}/${this.getMavenPath(packageName)}/${version}/${filename}`;
+
+      let tempPath: string;
+      try {
+        tempPath = await NetworkUtils.downloadToFile(url, path.join(tempDir, 'artifacts', filename), { ...options, headers });
+      } catch (error) {
+        if (error instanceof HttpError && error.status === 404) {
+          console.warn(`No ${classifier} artifact published for ${packageName}@${version}`);
+          continue;
+        }
+        throw error;
+      }
+
+      artifacts.push({
+        type: classifier,
+        filename,
+        classifier,
+        integrity: await this.getSha1Integrity(`${url}.sha1`, repository),
+        path: tempPath
+      });
     }
 
-    const buffer = await response.buffer();
-    const tempPath = path.join(process.cwd(), 'temp', `${packageName.replace(':', '-')}-${version}.jar`);
-    await fs.ensureDir(path.dirname(tempPath));
-    await fs.writeFile(tempPath, buffer);
-    
-    return tempPath;
+    return artifacts;
+  }
+
+  /**
+   * Installs the main JAR and places classifier JARs next to it in the local repository.
+   * @param packagePath - Path to the main JAR
+   * @param artifacts - Cached classifier JARs
+   * @param packageName - Maven coordinates (groupId:artifactId)
+   * @param version - Version of the package
+   * @param targetDir - Directory to install the package
+   */
+  async installArtifacts(packagePath: string, artifacts: CachedArtifact[], packageName: string, version: string, targetDir: string): Promise<void> {
+    await this.installFromFile(packagePath, packageName, version, targetDir);
+
+    const versionDir = path.join(targetDir, 'maven', this.getMavenPath(packageName), version);
+    for (const artifact of artifacts) {
+      await fs.copy(artifact.localPath, path.join(versionDir, artifact.filename));
+    }
   }
 
   /**
@@ -98,10 +209,11 @@ export class MavenManager implements PackageManagerInterface {
    */
   async getDocumentation(packageName: string, version: string): Promise<string> {
     const [groupId, artifactId] = packageName.split(':');
-    const javadocUrl = `${this.mavenCentralUrl}/${groupId.replace(/\./g, '/')}/${artifactId}/${version}/${artifactId}-${version}-javadoc.jar`;
+    const repository = await this.findRepository(packageName, version);
+    const javadocUrl = `${repository.url}/${groupId.replace(/\./g, '/')}/${artifactId}/${version}/${artifactId}-${version}-javadoc.jar`;
     
     try {
-      const response = await fetch(javadocUrl);
+      const response = await fetch(javadocUrl, { headers: RegistryUtils.getHeaders(repository) });
       if (response.ok) {
         return `Javadoc available at: ${javadocUrl}`;
       }
@@ -123,22 +235,35 @@ export class MavenManager implements PackageManagerInterface {
   }
 
   /**
-   * Lists all available versions of a package.
+   * Gets the repository a package is fetched from: the one a version of it
+   * was last found in, else the mirror or Maven Central.
+   * @param packageName - Maven coordinates (groupId:artifactId)
+   * @returns Repository URL
+   */
+  getRegistryUrl(packageName: string): string {
+    return (this.foundIn.get(packageName) || this.getRepositories()[0]).url;
+  }
+
+  /**
+   * Lists all available versions of a package, from the first repository
+   * that publishes metadata for it.
    * @param packageName - Maven coordinates (groupId:artifactId)
    * @returns Array of version strings
    */
   async listVersions(packageName: string): Promise<string[]> {
     const [groupId, artifactId] = packageName.split(':');
-    const metadataUrl = `${this.mavenCentralUrl}/${groupId.replace(/\./g, '/')}/${artifactId}/maven-metadata.xml`;
     
     try {
-      const response = await fetch(metadataUrl);
-      if (!response.ok) {
-        throw new Error(`Package not found: ${packageName}`);
+      let lastError: Error | undefined;
+      for (const repository of this.getRepositories()) {
+        const metadataUrl = `${repository.url}/${groupId.replace(/\./g, '/')}/${artifactId}/maven-metadata.xml`;
+        const response = await fetch(metadataUrl, { headers: RegistryUtils.getHeaders(repository) });
+        if (response.ok) {
+          return this.parseVersionsFromMetadata(await response.text());
+        }
+        lastError = NetworkUtils.httpError(response, `Package not found: ${packageName}`);
       }
-
-      const metadata = await response.text();
-      return this.parseVersionsFromMetadata(metadata);
+      throw lastError;
     } catch (error) {
       throw new Error(`Failed to get versions for ${packageName}: ${error}`);
     }
@@ -153,7 +278,8 @@ export class MavenManager implements PackageManagerInterface {
   private async getJarUrl(packageName: string, version: string): Promise<string> {
     const [, artifactId] = packageName.split(':');
     const mavenPath = this.getMavenPath(packageName);
-    return `${this.mavenCentralUrl}/${mavenPath}/${artifactId}-${version}.jar`;
+    const repository = await this.findRepository(packageName, version);
+    return `${repository.url}/${mavenPath}/${version}/${artifactId}-${version}.jar`;
   }
 
   /**
@@ -165,7 +291,47 @@ export class MavenManager implements PackageManagerInterface {
    */
   private async getPomUrl(groupId: string, artifactId: string, version: string): Promise<string> {
     const mavenPath = this.getMavenPath(`${groupId}:${artifactId}`);
-    return `${this.mavenCentralUrl}/${mavenPath}/${artifactId}-${version}.pom`;
+    const repository = await this.findRepository(`${groupId}:${artifactId}`, version);
+    return `${repository.url}/${mavenPath}/${version}/${artifactId}-${version}.pom`;
+  }
+
+  private getRepositories(): Registry[] {
+    return [this.registries.mirror || MAVEN_CENTRAL, ...(this.registries.repositories || [])];
+  }
+
+  /**
+   * Finds the first repository that has a version's POM: Maven Central (or
+   * its mirror), then the extra repositories in order. Falls back to the
+   * first repository, whose errors then say the package was not found.
+   * @param packageName - Maven coordinates (groupId:artifactId)
+   * @param version - Version of the package
+   * @returns Repository to fetch the version from
+   */
+  private findRepository(packageName: string, version: string): Promise<Registry> {
+    const repositories = this.getRepositories();
+    if (repositories.length === 1) {
+      return Promise.resolve(repositories[0]);
+    }
+
+    const key = `${packageName}@${version}`;
+    if (!this.found.has(key)) {
+      const [, artifactId] = packageName.split(':');
+      const pomPath = `${this.getMavenPath(packageName)}/${version}/${artifactId}-${version}.pom`;
+      const lookup = (async () => {
+        for (const repository of repositories) {
+          const response = await fetch(`${repository.url}/${pomPath}`, { method: 'HEAD', headers: RegistryUtils.getHeaders(repository) });
+          if (response.ok) {
+            this.foundIn.set(packageName, repository);
+            return repository;
+          }
+        }
+        return repositories[0];
+      })();
+      this.found.set(key, lookup);
+      // A failed lookup is retried on the next call
+      lookup.catch(() => this.found.delete(key));
+    }
+    return this.found.get(key)!;
   }
 
   /**
@@ -181,9 +347,10 @@ export class MavenManager implements PackageManagerInterface {
   /**
    * Parses POM content to extract package information.
    * @param pomContent - POM XML content
+   * @param version - Version of the package
    * @returns Parsed package information
    */
-  private parsePom(pomContent: string): any {
+  private parsePom(pomContent: string, version: string): any {
     const info: any = {};
     
     const descriptionMatch = pomContent.match(/<description>(.*?)<\/description>/s);
@@ -206,6 +373,8 @@ export class MavenManager implements PackageManagerInterface {
       info.scm = { url: scmMatch[1].trim() };
     }
 
+    Object.assign(info, PomUtils.parseDependencies(pomContent, version));
+
     return info;
   }
 
@@ -220,9 +389,9 @@ export class MavenManager implements PackageManagerInterface {
       return [];
     }
 
-    return versionMatches
+    const versions = versionMatches
       .map(match => match.replace(/<\/?version>/g, ''))
-      .filter(version => !version.includes('SNAPSHOT'))
-      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+      .filter(version => !version.includes('SNAPSHOT'));
+    return VersionSchemeFactory.getScheme(this.name).sort(versions);
   }
 }
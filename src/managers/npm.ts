@@ -1,8 +1,14 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import * as tar from 'tar';
 import fetch from 'node-fetch';
-import { PackageManagerInterface, PackageInfo } from '../types';
+import { DownloadOptions, NpmRegistrySettings, PackageManagerInterface, PackageInfo, Registry } from '../types';
+import { VersionSchemeFactory } from '../versions';
+import { NetworkUtils } from '../utils/network';
+import { ArchiveUtils } from '../utils/archive';
+import { IntegrityUtils } from '../utils/integrity';
+import { RegistryUtils } from '../utils/registries';
+
+const NPM_REGISTRY: Registry = { url: 'https://registry.npmjs.org' };
 
 /**
  * NPM package manager implementation for downloading and installing Node.js packages.
@@ -10,34 +16,40 @@ import { PackageManagerInterface, PackageInfo } from '../types';
  */
 export class NpmManager implements PackageManagerInterface {
   name = 'npm' as const;
-  private registryUrl = 'https://registry.npmjs.org';
+  private distTags: Map<string, Record<string, string>> = new Map();
+
+  /**
+   * @param registries - Registry to use instead of registry.npmjs.org, and registries per scope
+   */
+  constructor(private registries: NpmRegistrySettings = {}) {}
 
   /**
-   * Installs a package to the target directory.
+   * Downloads a package and installs it to the target directory.
    * @param packageName - Name of the package
    * @param version - Version of the package
    * @param targetDir - Directory to install the package
    */
   async install(packageName: string, version: string, targetDir: string): Promise<void> {
-    await this.getPackageInfo(packageName, version);
-    const tarballUrl = await this.getTarballUrl(packageName, version);
-    
-    const response = await fetch(tarballUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to download package: ${response.statusText}`);
+    const tarballPath = await this.downloadPackage(packageName, version);
+    try {
+      await this.installFromFile(tarballPath, packageName, version, targetDir);
+    } finally {
+      await fs.remove(tarballPath);
     }
+  }
 
-    const tarballPath = path.join(targetDir, `${packageName}-${version}.tgz`);
-    const buffer = await response.buffer();
-    await fs.writeFile(tarballPath, buffer);
-
-    await tar.extract({
-      file: tarballPath,
-      cwd: targetDir,
-      strip: 1
-    });
-
-    await fs.remove(tarballPath);
+  /**
+   * Installs a package from a local tarball without touching the network.
+   * The package is unpacked into `node_modules/<name>` under the target directory.
+   * @param packagePath - Path to the package tarball
+   * @param packageName - Name of the package
+   * @param _version - Version of the package
+   * @param targetDir - Directory to install the package
+   */
+  async installFromFile(packagePath: string, packageName: string, _version: string, targetDir: string): Promise<void> {
+    const packageDir = path.join(targetDir, 'node_modules', packageName);
+    await fs.remove(packageDir);
+    await ArchiveUtils.extract(packagePath, packageDir, 1);
   }
 
   /**
@@ -47,9 +59,10 @@ export class NpmManager implements PackageManagerInterface {
    * @returns Package information object
    */
   async getPackageInfo(packageName: string, version: string): Promise<PackageInfo> {
-    const response = await fetch(`${this.registryUrl}/${packageName}/${version}`);
+    const registry = this.getRegistry(packageName);
+    const response = await fetch(`${registry.url}/${packageName}/${version}`, { headers: RegistryUtils.getHeaders(registry) });
     if (!response.ok) {
-      throw new Error(`Package not found: ${packageName}@${version}`);
+      throw NetworkUtils.httpError(response, `Package not found: ${packageName}@${version}`);
     }
 
     const data = await response.json() as any;
@@ -64,7 +77,11 @@ export class NpmManager implements PackageManagerInterface {
       license: data.license,
       dependencies: data.dependencies,
       devDependencies: data.devDependencies,
-      peerDependencies: data.peerDependencies
+      peerDependencies: data.peerDependencies,
+      integrity: data.dist?.integrity || (data.dist?.shasum ? IntegrityUtils.fromHex('sha1', data.dist.shasum) : undefined),
+      // The registry only reports the unpacked size, often several times the tarball's
+      size: await this.getTarballSize(data.dist?.tarball, registry),
+      registry: registry.url
     };
   }
 
@@ -72,22 +89,14 @@ export class NpmManager implements PackageManagerInterface {
    * Downloads a package tarball to a temporary location.
    * @param packageName - Name of the package
    * @param version - Version of the package
+   * @param options - Temporary directory and interrupted downloads to resume
    * @returns Path to the downloaded tarball
    */
-  async downloadPackage(packageName: string, version: string): Promise<string> {
+  async downloadPackage(packageName: string, version: string, options: DownloadOptions = {}): Promise<string> {
     const tarballUrl = await this.getTarballUrl(packageName, version);
-    const response = await fetch(tarballUrl);
-    
-    if (!response.ok) {
-      throw new Error(`Failed to download package: ${response.statusText}`);
-    }
-
-    const buffer = await response.buffer();
-    const tempPath = path.join(process.cwd(), 'temp', `${packageName}-${version}.tgz`);
-    await fs.ensureDir(path.dirname(tempPath));
-    await fs.writeFile(tempPath, buffer);
-    
-    return tempPath;
+    const tempDir = options.tempDir || path.join(process.cwd(), 'temp');
+    const headers = { ...options.headers, ...RegistryUtils.getHeaders(this.getRegistry(packageName), tarballUrl) };
+    return NetworkUtils.downloadToFile(tarballUrl, path.join(tempDir, `${packageName}-${version}.tgz`), { ...options, headers });
   }
 
   /**
@@ -99,7 +108,8 @@ export class NpmManager implements PackageManagerInterface {
   async getDocumentation(packageName: string, version: string): Promise<string> {
     await this.getPackageInfo(packageName, version);
     
-    const response = await fetch(`${this.registryUrl}/${packageName}/${version}`);
+    const registry = this.getRegistry(packageName);
+    const response = await fetch(`${registry.url}/${packageName}/${version}`, { headers: RegistryUtils.getHeaders(registry) });
     if (!response.ok) {
       return '';
     }
@@ -119,20 +129,43 @@ export class NpmManager implements PackageManagerInterface {
   }
 
   /**
-   * Lists all available versions of a package.
+   * Gets the registry a package is fetched from.
+   * @param packageName - Name of the package
+   * @returns Registry URL
+   */
+  getRegistryUrl(packageName: string): string {
+    return this.getRegistry(packageName).url;
+  }
+
+  /**
+   * Lists all available versions of a package. The packument also carries
+   * the dist-tags, which are kept for `getDistTags`.
    * @param packageName - Name of the package
    * @returns Array of version strings
    */
   async listVersions(packageName: string): Promise<string[]> {
-    const response = await fetch(`${this.registryUrl}/${packageName}`);
+    const registry = this.getRegistry(packageName);
+    const response = await fetch(`${registry.url}/${packageName}`, { headers: RegistryUtils.getHeaders(registry) });
     if (!response.ok) {
-      throw new Error(`Package not found: ${packageName}`);
+      throw NetworkUtils.httpError(response, `Package not found: ${packageName}`);
     }
 
     const data = await response.json() as any;
-    return Object.keys(data.versions).sort((a, b) => {
-      return a.localeCompare(b, undefined, { numeric: true });
-    });
+    this.distTags.set(packageName, data['dist-tags'] || {});
+    return VersionSchemeFactory.getScheme(this.name).sort(Object.keys(data.versions));
+  }
+
+  /**
+   * Gets the dist-tags of a package, such as `latest`, `next` or `beta`,
+   * from the packument `listVersions` last fetched, fetching it if needed.
+   * @param packageName - Name of the package
+   * @returns Map of tag to version
+   */
+  async getDistTags(packageName: string): Promise<Record<string, string>> {
+    if (!this.distTags.has(packageName)) {
+      await this.listVersions(packageName);
+    }
+    return this.distTags.get(packageName)!;
   }
 
   /**
@@ -142,12 +175,44 @@ export class NpmManager implements PackageManagerInterface {
    * @returns Tarball download URL
    */
   private async getTarballUrl(packageName: string, version: string): Promise<string> {
-    const response = await fetch(`${this.registryUrl}/${packageName}/${version}`);
+    const registry = this.getRegistry(packageName);
+    const response = await fetch(`${registry.url}/${packageName}/${version}`, { headers: RegistryUtils.getHeaders(registry) });
     if (!response.ok) {
-      throw new Error(`Package not found: ${packageName}@${version}`);
+      throw NetworkUtils.httpError(response, `Package not found: ${packageName}@${version}`);
     }
 
     const data = await response.json() as any;
     return data.dist.tarball;
   }
+
+  /**
+   * Gets a tarball's size from the `Content-Length` of a HEAD request.
+   * @param tarballUrl - Tarball URL from the version's metadata
+   * @param registry - Registry the version came from
+   * @returns Size in bytes, or undefined if the registry does not say
+   */
+  private async getTarballSize(tarballUrl: string | undefined, registry: Registry): Promise<number | undefined> {
+    if (!tarballUrl) {
+      return undefined;
+    }
+
+    try {
+      const response = await fetch(tarballUrl, { method: 'HEAD', headers: RegistryUtils.getHeaders(registry, tarballUrl) });
+      const length = parseInt(response.headers.get('content-length') || '', 10);
+      return response.ok && !Number.isNaN(length) ? length : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Picks the registry of a package: its scope's registry, the configured
+   * registry or registry.npmjs.org.
+   * @param packageName - Name of the package
+   * @returns Registry to fetch the package from
+   */
+  private getRegistry(packageName: string): Registry {
+    const scope = packageName.startsWith('@') ? packageName.split('/')[0] : undefined;
+    return (scope && this.registries.scopes?.[scope]) || this.registries.registry || NPM_REGISTRY;
+  }
 }
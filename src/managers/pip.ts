@@ -1,37 +1,84 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import fetch from 'node-fetch';
-import { PackageManagerInterface, PackageInfo } from '../types';
+import fetch, { Response } from 'node-fetch';
+import { ArtifactSelection, CachedArtifact, DownloadedArtifact, DownloadOptions, PackageManagerInterface, PackageInfo, PipRegistrySettings, Registry } from '../types';
+import { VersionSchemeFactory } from '../versions';
+import { HttpError, NetworkUtils } from '../utils/network';
+import { ArchiveUtils } from '../utils/archive';
+import { IntegrityUtils } from '../utils/integrity';
+import { RegistryUtils } from '../utils/registries';
+
+const PYPI: Registry = { url: 'https://pypi.org/pypi' };
+const SIMPLE_ACCEPT = 'application/vnd.pypi.simple.v1+json, text/html;q=0.1';
+
+/**
+ * A file listed on a project's page in the simple repository API.
+ */
+interface SimpleFile {
+  filename: string;
+  url: string;
+  hashes: Record<string, string>;
+  size?: number;
+  coreMetadata: boolean; // the index serves the file's metadata at `<url>.metadata`
+}
 
 /**
  * Pip package manager implementation for downloading and installing Python packages.
  * Handles package metadata retrieval, wheel downloads, and local installation.
+ * Indexes whose URL ends in `/pypi`, like PyPI itself, are read through the
+ * Warehouse JSON API; any other index through the simple repository API that
+ * pip uses (PEP 691 JSON or PEP 503 HTML), with metadata from PEP 658 files.
+ * Either way the metadata is turned into the JSON API's shape.
  */
 export class PipManager implements PackageManagerInterface {
   name = 'pip' as const;
-  private pypiUrl = 'https://pypi.org/pypi';
+  private foundOn: Map<string, Registry> = new Map();
+
+  /**
+   * @param registries - Index to use instead of PyPI, and extra indexes
+   */
+  constructor(private registries: PipRegistrySettings = {}) {}
 
   /**
-   * Installs a Python package to the target directory.
+   * Downloads a Python package and installs it to the target directory.
    * @param packageName - Name of the package
    * @param version - Version of the package
    * @param targetDir - Directory to install the package
    */
   async install(packageName: string, version: string, targetDir: string): Promise<void> {
-    await this.getPackageInfo(packageName, version);
-    const wheelUrl = await this.getWheelUrl(packageName, version);
-    
-    const response = await fetch(wheelUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to download package: ${response.statusText}`);
+    const wheelPath = await this.downloadPackage(packageName, version);
+    try {
+      await this.installFromFile(wheelPath, packageName, version, targetDir);
+    } finally {
+      await fs.remove(wheelPath);
+    }
+  }
+
+  /**
+   * Installs a Python package from a local wheel or sdist without touching the network.
+   * Wheels are unpacked into `site-packages`; source distributions cannot be built
+   * here, so they are unpacked into `sdist/<name>-<version>` for a later `pip install`.
+   * @param packagePath - Path to the wheel or sdist archive
+   * @param packageName - Name of the package
+   * @param version - Version of the package
+   * @param targetDir - Directory to install the package
+   */
+  async installFromFile(packagePath: string, packageName: string, version: string, targetDir: string): Promise<void> {
+    const format = await ArchiveUtils.detectFormat(packagePath);
+
+    if (format === 'zip') {
+      await ArchiveUtils.extract(packagePath, path.join(targetDir, 'site-packages'));
+      return;
     }
 
-    const wheelPath = path.join(targetDir, `${packageName}-${version}.whl`);
-    const buffer = await response.buffer();
-    await fs.writeFile(wheelPath, buffer);
+    if (format === 'gzip') {
+      const sdistDir = path.join(targetDir, 'sdist', `${packageName}-${version}`);
+      await fs.remove(sdistDir);
+      await ArchiveUtils.extract(packagePath, sdistDir, 1);
+      return;
+    }
 
-    await fs.ensureDir(path.join(targetDir, 'site-packages'));
-    await fs.copy(wheelPath, path.join(targetDir, 'site-packages', path.basename(wheelPath)));
+    throw new Error(`Cached file for ${packageName}@${version} is neither a wheel nor an sdist: ${packagePath}`);
   }
 
   /**
@@ -41,13 +88,10 @@ export class PipManager implements PackageManagerInterface {
    * @returns Package information object
    */
   async getPackageInfo(packageName: string, version: string): Promise<PackageInfo> {
-    const response = await fetch(`${this.pypiUrl}/${packageName}/${version}/json`);
-    if (!response.ok) {
-      throw new Error(`Package not found: ${packageName}@${version}`);
-    }
-
-    const data = await response.json() as any;
-    const info = data.info;
+    const { data, index } = await this.fetchRelease(packageName, version);
+    const info = await this.readInfo(data, index);
+    const distribution = this.selectDistribution(data);
+    const sha256 = distribution?.digests?.sha256;
     
     return {
       name: info.name,
@@ -57,7 +101,10 @@ export class PipManager implements PackageManagerInterface {
       homepage: info.home_page,
       repository: info.project_urls?.Source || info.project_urls?.Repository,
       license: info.license,
-      dependencies: this.parseDependencies(info.requires_dist)
+      dependencies: this.parseDependencies(info.requires_dist),
+      integrity: sha256 ? IntegrityUtils.fromHex('sha256', sha256) : undefined,
+      size: distribution?.size,
+      registry: index.url
     };
   }
 
@@ -65,22 +112,75 @@ export class PipManager implements PackageManagerInterface {
    * Downloads a Python package wheel to a temporary location.
    * @param packageName - Name of the package
    * @param version - Version of the package
+   * @param options - Temporary directory and interrupted downloads to resume
    * @returns Path to the downloaded wheel file
    */
-  async downloadPackage(packageName: string, version: string): Promise<string> {
-    const wheelUrl = await this.getWheelUrl(packageName, version);
-    const response = await fetch(wheelUrl);
-    
-    if (!response.ok) {
-      throw new Error(`Failed to download package: ${response.statusText}`);
+  async downloadPackage(packageName: string, version: string, options: DownloadOptions = {}): Promise<string> {
+    const { url, index } = await this.getWheelUrl(packageName, version);
+    const tempDir = options.tempDir || path.join(process.cwd(), 'temp');
+    const headers = { ...options.headers, ...RegistryUtils.getHeaders(index, url) };
+    return NetworkUtils.downloadToFile(url, path.join(tempDir, `${packageName}-${version}.whl`), { ...options, headers });
+  }
+
+  /**
+   * Downloads the extra wheels and source archive matching a selection.
+   * Platform patterns match a wheel's platform tag (`manylinux*`, `win_amd64`, `any`);
+   * the pattern `sdist` selects the source distribution.
+   * @param packageName - Name of the package
+   * @param version - Version of the package
+   * @param selection - Platforms to download
+   * @param options - Temporary directory and interrupted downloads to resume
+   * @returns Downloaded artifacts
+   */
+  async downloadArtifacts(packageName: string, version: string, selection: ArtifactSelection, options: DownloadOptions = {}): Promise<DownloadedArtifact[]> {
+    const patterns = selection.platforms || [];
+    if (patterns.length === 0) {
+      return [];
     }
 
-    const buffer = await response.buffer();
-    const tempPath = path.join(process.cwd(), 'temp', `${packageName}-${version}.whl`);
-    await fs.ensureDir(path.dirname(tempPath));
-    await fs.writeFile(tempPath, buffer);
-    
-    return tempPath;
+    const { data, index } = await this.fetchRelease(packageName, version);
+    const artifacts: DownloadedArtifact[] = [];
+
+    for (const file of data.urls || []) {
+      const isWheel = file.packagetype === 'bdist_wheel';
+      const platform = isWheel ? this.getWheelPlatform(file.filename) : undefined;
+      const selected = isWheel
+        ? patterns.some(pattern => this.matchesPattern(platform!, pattern))
+        : file.packagetype === 'sdist' && patterns.includes('sdist');
+      if (!selected) continue;
+
+      const tempDir = options.tempDir || path.join(process.cwd(), 'temp');
+      const headers = { ...options.headers, ...RegistryUtils.getHeaders(index, file.url) };
+      const tempPath = await NetworkUtils.downloadToFile(file.url, path.join(tempDir, 'artifacts', file.filename), { ...options, headers });
+
+      artifacts.push({
+        type: isWheel ? 'wheel' : 'sdist',
+        filename: file.filename,
+        platform,
+        integrity: file.digests?.sha256 ? IntegrityUtils.fromHex('sha256', file.digests.sha256) : undefined,
+        path: tempPath
+      });
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * Installs the cached wheel that best fits the current platform, falling back
+   * to a pure-Python wheel and then to the primary distribution.
+   * @param packagePath - Path to the primary distribution
+   * @param artifacts - Cached extra artifacts
+   * @param packageName - Name of the package
+   * @param version - Version of the package
+   * @param targetDir - Directory to install the package
+   */
+  async installArtifacts(packagePath: string, artifacts: CachedArtifact[], packageName: string, version: string, targetDir: string): Promise<void> {
+    const wheels = artifacts.filter(artifact => artifact.type === 'wheel' && artifact.platform);
+    const native = this.getNativePlatformPatterns();
+    const wheel = wheels.find(artifact => native.some(pattern => this.matchesPattern(artifact.platform!, pattern))) ||
+      wheels.find(artifact => artifact.platform === 'any');
+
+    await this.installFromFile(wheel ? wheel.localPath : packagePath, packageName, version, targetDir);
   }
 
   /**
@@ -90,13 +190,13 @@ export class PipManager implements PackageManagerInterface {
    * @returns Package documentation as string
    */
   async getDocumentation(packageName: string, version: string): Promise<string> {
-    const response = await fetch(`${this.pypiUrl}/${packageName}/${version}/json`);
-    if (!response.ok) {
+    let info: any;
+    try {
+      const { data, index } = await this.fetchRelease(packageName, version);
+      info = await this.readInfo(data, index);
+    } catch (error) {
       return '';
     }
-
-    const data = await response.json() as any;
-    const info = data.info;
     
     return info.description || info.summary || '';
   }
@@ -111,49 +211,275 @@ export class PipManager implements PackageManagerInterface {
     return [];
   }
 
+  /**
+   * Gets the index a package is fetched from: the one it was last found on,
+   * else the first index.
+   * @param packageName - Name of the package
+   * @returns Index URL
+   */
+  getRegistryUrl(packageName: string): string {
+    return (this.foundOn.get(this.normalizeName(packageName)) || this.registries.index || PYPI).url;
+  }
+
   /**
    * Lists all available versions of a package.
    * @param packageName - Name of the package
    * @returns Array of version strings
    */
   async listVersions(packageName: string): Promise<string[]> {
-    const response = await fetch(`${this.pypiUrl}/${packageName}/json`);
-    if (!response.ok) {
-      throw new Error(`Package not found: ${packageName}`);
-    }
-
-    const data = await response.json() as any;
-    return Object.keys(data.releases).sort((a, b) => {
-      return a.localeCompare(b, undefined, { numeric: true });
-    });
+    const { data } = await this.fetchRelease(packageName);
+    return VersionSchemeFactory.getScheme(this.name).sort(Object.keys(data.releases));
   }
 
   /**
    * Gets the wheel URL for a package version.
    * @param packageName - Name of the package
    * @param version - Version of the package
-   * @returns Wheel download URL
+   * @returns Wheel download URL and the index that lists it
+   */
+  private async getWheelUrl(packageName: string, version: string): Promise<{ url: string; index: Registry }> {
+    const { data, index } = await this.fetchRelease(packageName, version);
+    const distribution = this.selectDistribution(data);
+    if (distribution) {
+      return { url: distribution.url, index };
+    }
+
+    throw new Error(`No suitable distribution found for ${packageName}@${version}`);
+  }
+
+  /**
+   * Fetches a package, or one of its versions, from the first index that has
+   * it: the configured index (or PyPI), then the extra indexes in order. Only
+   * a missing package or version moves on to the next index; other errors,
+   * such as rejected credentials, are thrown.
+   * @param packageName - Name of the package
+   * @param version - Version of the package, or undefined for all versions
+   * @returns Metadata in the JSON API's shape and the index it came from
+   */
+  private async fetchRelease(packageName: string, version?: string): Promise<{ data: any; index: Registry }> {
+    const indexes = [this.registries.index || PYPI, ...(this.registries.extraIndexes || [])];
+    const notFoundMessage = version ? `Package not found: ${packageName}@${version}` : `Package not found: ${packageName}`;
+    let lastError: Error | undefined;
+
+    for (const index of indexes) {
+      const jsonApi = index.url.endsWith('/pypi');
+      const response = jsonApi
+        ? await fetch(`${index.url}/${packageName}/${version ? `${version}/json` : 'json'}`, { headers: RegistryUtils.getHeaders(index) })
+        : await fetch(`${index.url}/${this.normalizeName(packageName)}/`, { headers: { ...RegistryUtils.getHeaders(index), Accept: SIMPLE_ACCEPT } });
+      if (!response.ok) {
+        lastError = NetworkUtils.httpError(response, notFoundMessage);
+        if (response.status !== 404) {
+          throw lastError;
+        }
+        continue;
+      }
+
+      const data = jsonApi ? await response.json() : this.fromSimpleFiles(packageName, version, await this.parseSimplePage(response));
+      if (data) {
+        this.foundOn.set(this.normalizeName(packageName), index);
+        return { data, index };
+      }
+      lastError = new HttpError(404, notFoundMessage, response.url);
+    }
+
+    throw lastError!;
+  }
+
+  /**
+   * Reads a project page of the simple API, in PEP 691 JSON or PEP 503 HTML.
+   * @param response - Response for the project page
+   * @returns Files on the page, with absolute URLs
+   */
+  private async parseSimplePage(response: Response): Promise<SimpleFile[]> {
+    const body = await response.text();
+
+    if ((response.headers.get('content-type') || '').includes('application/vnd.pypi.simple.v1+json')) {
+      const page = JSON.parse(body);
+      return (page.files || []).map((file: any) => ({
+        filename: file.filename,
+        url: new URL(file.url, response.url).toString(),
+        hashes: file.hashes || {},
+        size: file.size,
+        coreMetadata: !!(file['core-metadata'] || file['dist-info-metadata'])
+      }));
+    }
+
+    const unescape = (value: string) => value.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'");
+    const files: SimpleFile[] = [];
+    for (const [, attributes, text] of body.matchAll(/<a\s([^>]*)>([^<]*)<\/a>/gi)) {
+      const attrs: Record<string, string> = {};
+      for (const [, name, doubleQuoted, singleQuoted] of attributes.matchAll(/([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'))?/g)) {
+        attrs[name.toLowerCase()] = unescape(doubleQuoted ?? singleQuoted ?? '');
+      }
+      if (!attrs.href) continue;
+
+      const [href, fragment] = attrs.href.split('#');
+      const hash = fragment?.match(/^(\w+)=([0-9a-f]+)$/i);
+      files.push({
+        filename: unescape(text.trim()),
+        url: new URL(href, response.url).toString(),
+        hashes: hash ? { [hash[1]]: hash[2] } : {},
+        coreMetadata: 'data-core-metadata' in attrs || 'data-dist-info-metadata' in attrs
+      });
+    }
+    return files;
+  }
+
+  /**
+   * Turns the files of a simple API project page into the JSON API's shape.
+   * `info` only has the name and version; readInfo() adds the rest from the
+   * distribution's metadata file.
+   * @param packageName - Name of the package
+   * @param version - Version to describe, or undefined for all versions
+   * @param files - Files on the project page
+   * @returns Metadata, or undefined if the page has no files for the version
+   */
+  private fromSimpleFiles(packageName: string, version: string | undefined, files: SimpleFile[]): any {
+    const releases: Record<string, any[]> = {};
+    for (const file of files) {
+      const fileVersion = this.getFileVersion(file.filename);
+      if (!fileVersion) continue;
+      (releases[fileVersion] = releases[fileVersion] || []).push({
+        filename: file.filename,
+        url: file.url,
+        packagetype: file.filename.endsWith('.whl') ? 'bdist_wheel' : 'sdist',
+        digests: file.hashes,
+        size: file.size,
+        metadataUrl: file.coreMetadata ? `${file.url.split('#')[0]}.metadata` : undefined
+      });
+    }
+
+    if (!version) {
+      return Object.keys(releases).length > 0 ? { info: { name: packageName }, releases } : undefined;
+    }
+    if (!releases[version]) {
+      return undefined;
+    }
+    return { info: { name: packageName, version }, urls: releases[version] };
+  }
+
+  /**
+   * Gets a release's `info`, reading the name, summary, license and
+   * requirements from the distribution's metadata file when the release came
+   * from a simple index that serves one.
+   * @param data - Release metadata in the JSON API's shape
+   * @param index - Index the release came from
+   * @returns Release info
    */
-  private async getWheelUrl(packageName: string, version: string): Promise<string> {
-    const response = await fetch(`${this.pypiUrl}/${packageName}/${version}/json`);
+  private async readInfo(data: any, index: Registry): Promise<any> {
+    const metadataUrl = this.selectDistribution(data)?.metadataUrl;
+    if (!metadataUrl) {
+      return data.info;
+    }
+
+    const response = await fetch(metadataUrl, { headers: RegistryUtils.getHeaders(index, metadataUrl) });
     if (!response.ok) {
-      throw new Error(`Package not found: ${packageName}@${version}`);
+      throw NetworkUtils.httpError(response, `Metadata not found: ${metadataUrl}`);
     }
 
-    const data = await response.json() as any;
-    const urls = data.urls || [];
-    
-    const wheelUrl = urls.find((url: any) => url.packagetype === 'bdist_wheel');
-    if (wheelUrl) {
-      return wheelUrl.url;
+    const content = await response.text();
+    const separator = content.search(/\r?\n\r?\n/);
+    const headers = separator >= 0 ? content.slice(0, separator) : content;
+    const fields: Record<string, string[]> = {};
+    let last: string | undefined;
+    for (const line of headers.split(/\r?\n/)) {
+      const field = line.match(/^([\w-]+):\s?(.*)$/);
+      if (field) {
+        last = field[1].toLowerCase();
+        (fields[last] = fields[last] || []).push(field[2]);
+      } else if (last && /^\s/.test(line)) {
+        // Continuation of a folded header, such as a multi-line Description
+        fields[last][fields[last].length - 1] += `\n${line.trim()}`;
+      }
     }
+    const projectUrls = Object.fromEntries((fields['project-url'] || []).map(entry => entry.split(/,\s*/, 2)));
+
+    return {
+      ...data.info,
+      name: fields.name?.[0] || data.info.name,
+      version: fields.version?.[0] || data.info.version,
+      summary: fields.summary?.[0],
+      home_page: fields['home-page']?.[0],
+      license: fields.license?.[0],
+      project_urls: projectUrls,
+      requires_dist: fields['requires-dist'],
+      description: separator >= 0 ? content.slice(separator).trim() : fields.description?.[0]
+    };
+  }
 
-    const sourceUrl = urls.find((url: any) => url.packagetype === 'sdist');
-    if (sourceUrl) {
-      return sourceUrl.url;
+  /**
+   * Reads the version from a distribution filename: a wheel's second part
+   * (`name-version-python-abi-platform.whl`) or what follows an sdist's last dash.
+   * @param filename - Distribution filename
+   * @returns Version, or undefined for other kinds of file
+   */
+  private getFileVersion(filename: string): string | undefined {
+    if (filename.endsWith('.whl')) {
+      return filename.split('-')[1];
     }
+    const sdist = filename.match(/^.+-([^-]+)\.(?:tar\.gz|tar\.bz2|tgz|zip)$/);
+    return sdist?.[1];
+  }
 
-    throw new Error(`No suitable distribution found for ${packageName}@${version}`);
+  /**
+   * Normalizes a project name for the simple API (PEP 503).
+   * @param packageName - Name of the package
+   * @returns Lowercase name with runs of `-`, `_` and `.` replaced by `-`
+   */
+  private normalizeName(packageName: string): string {
+    return packageName.toLowerCase().replace(/[-_.]+/g, '-');
+  }
+
+  /**
+   * Picks the distribution file to cache from a PyPI release, preferring wheels.
+   * @param data - PyPI release JSON
+   * @returns Distribution entry or undefined if none is usable
+   */
+  private selectDistribution(data: any): any {
+    const urls = data.urls || [];
+    return urls.find((url: any) => url.packagetype === 'bdist_wheel') ||
+      urls.find((url: any) => url.packagetype === 'sdist');
+  }
+
+  /**
+   * Extracts the platform tag from a wheel filename
+   * (`name-version(-build)?-python-abi-platform.whl`).
+   * @param filename - Wheel filename
+   * @returns Platform tag
+   */
+  private getWheelPlatform(filename: string): string {
+    return filename.replace(/\.whl$/, '').split('-').pop() || 'any';
+  }
+
+  /**
+   * Matches a platform tag against a glob-style pattern. Compressed tag sets
+   * (`manylinux1_x86_64.manylinux2010_x86_64`) match if any tag does.
+   * @param platform - Wheel platform tag
+   * @param pattern - Pattern such as `manylinux*`
+   * @returns True if the pattern matches
+   */
+  private matchesPattern(platform: string, pattern: string): boolean {
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return platform.split('.').some(tag => regex.test(tag));
+  }
+
+  /**
+   * Platform tag patterns the running interpreter could install.
+   * @returns Patterns for the current OS and architecture
+   */
+  private getNativePlatformPatterns(): string[] {
+    const arch = process.arch === 'x64' ? 'x86_64' : process.arch === 'arm64' ? 'aarch64' : process.arch;
+
+    switch (process.platform) {
+      case 'linux':
+        return [`manylinux*_${arch}`, `musllinux*_${arch}`, `linux_${arch}`];
+      case 'win32':
+        return [process.arch === 'arm64' ? 'win_arm64' : process.arch === 'x64' ? 'win_amd64' : 'win32'];
+      case 'darwin':
+        return [`macosx_*_${process.arch === 'arm64' ? 'arm64' : 'x86_64'}`, 'macosx_*_universal2'];
+      default:
+        return [];
+    }
   }
 
   /**
@@ -168,7 +494,7 @@ export class PipManager implements PackageManagerInterface {
 
     const deps: Record<string, string> = {};
     for (const req of requiresDist) {
-      const match = req.match(/^([a-zA-Z0-9_-]+)(.*)$/);
+      const match = req.match(/^([a-zA-Z0-9._-]+)(.*)$/);
       if (match) {
         const name = match[1];
         const version = match[2] || '*';
@@ -0,0 +1,103 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ZembilPlugin } from '../types';
+import { PackageManagerFactory } from './index';
+
+const PLUGIN_PREFIX = 'zembil-plugin-';
+
+/**
+ * Loads plugins that add package managers. A plugin is a CommonJS module
+ * (or one with a default export) exporting `{ managers: ManagerRegistration[] }`.
+ */
+export class PluginLoader {
+  private static loaded: Set<string> = new Set();
+
+  /**
+   * Loads the plugins named in the configuration and every
+   * `zembil-plugin-*` package (scoped ones included) in the `node_modules`
+   * of the search directories. Each module is only loaded once per process;
+   * a plugin that fails to load is skipped with a warning.
+   * @param plugins - Module names or paths from the configuration
+   * @param searchDirs - Directories whose `node_modules` are searched; the
+   * first one is where relative plugin paths start
+   * @returns Names of the package managers registered by this call
+   */
+  static load(plugins: string[], searchDirs: string[]): string[] {
+    const modules = new Set<string>();
+    for (const plugin of plugins) {
+      try {
+        modules.add(this.resolve(plugin, searchDirs));
+      } catch (error) {
+        console.warn(`Failed to find plugin ${plugin}:`, error);
+      }
+    }
+    for (const dir of searchDirs) {
+      for (const pluginDir of this.discover(path.join(dir, 'node_modules'))) {
+        try {
+          modules.add(require.resolve(pluginDir));
+        } catch (error) {
+          console.warn(`Failed to find plugin ${pluginDir}:`, error);
+        }
+      }
+    }
+
+    const registered: string[] = [];
+    for (const modulePath of modules) {
+      if (this.loaded.has(modulePath)) continue;
+      this.loaded.add(modulePath);
+
+      try {
+        const exported = require(modulePath);
+        const plugin: ZembilPlugin = exported?.default || exported;
+        if (!Array.isArray(plugin?.managers)) {
+          throw new Error('Plugin does not export a managers array');
+        }
+        for (const registration of plugin.managers) {
+          PackageManagerFactory.register(registration);
+          registered.push(registration.name);
+        }
+      } catch (error) {
+        console.warn(`Failed to load plugin ${modulePath}:`, error);
+      }
+    }
+    return registered;
+  }
+
+  /**
+   * Finds plugin packages in a `node_modules` directory.
+   * @param nodeModules - Directory to search
+   * @returns Paths of the plugin packages
+   */
+  private static discover(nodeModules: string): string[] {
+    if (!fs.existsSync(nodeModules)) {
+      return [];
+    }
+
+    const found: string[] = [];
+    for (const entry of fs.readdirSync(nodeModules)) {
+      if (entry.startsWith(PLUGIN_PREFIX)) {
+        found.push(path.join(nodeModules, entry));
+      } else if (entry.startsWith('@')) {
+        for (const scoped of fs.readdirSync(path.join(nodeModules, entry))) {
+          if (scoped.startsWith(PLUGIN_PREFIX)) {
+            found.push(path.join(nodeModules, entry, scoped));
+          }
+        }
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Resolves a plugin named in the configuration to a module path.
+   * @param plugin - Module name or path
+   * @param searchDirs - Directories to resolve from
+   * @returns Absolute path of the module's entry point
+   */
+  private static resolve(plugin: string, searchDirs: string[]): string {
+    if (plugin.startsWith('.') || path.isAbsolute(plugin)) {
+      return require.resolve(path.resolve(searchDirs[0] || process.cwd(), plugin));
+    }
+    return require.resolve(plugin, { paths: searchDirs });
+  }
+}
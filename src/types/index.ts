@@ -9,6 +9,11 @@ export interface PackageInfo {
   dependencies?: Record<string, string>;
   devDependencies?: Record<string, string>;
   peerDependencies?: Record<string, string>;
+  integrity?: string; // upstream hash in SRI format, e.g. sha512-<base64>
+  size?: number; // approximate download size in bytes, when the registry reports it
+  features?: Record<string, string[]>; // optional features and what they enable (cargo)
+  yanked?: boolean; // withdrawn by its publisher; still installable when pinned
+  registry?: string; // URL of the registry or repository the package was fetched from
 }
 
 export interface CachedPackage extends PackageInfo {
@@ -19,17 +24,165 @@ export interface CachedPackage extends PackageInfo {
   localPath: string;
   documentationPath?: string;
   examplesPath?: string;
+  lastAccessedAt?: Date;
+  hitCount?: number;
+  pinned?: boolean;
+}
+
+export interface ArtifactInfo {
+  type: string; // e.g. wheel, sdist, sources, javadoc
+  filename: string;
+  platform?: string; // wheel platform tag, e.g. manylinux_2_17_x86_64
+  classifier?: string; // Maven classifier, e.g. sources
+  integrity?: string;
+}
+
+export interface DownloadedArtifact extends ArtifactInfo {
+  path: string;
+}
+
+export interface CachedArtifact extends ArtifactInfo {
+  id: string;
+  packageId: string;
+  size: number;
+  checksum: string;
+  localPath: string;
+}
+
+export interface ArtifactSelection {
+  platforms?: string[]; // wheel platform tag patterns (manylinux*, win*, any); "sdist" selects the source archive
+  classifiers?: string[]; // Maven classifiers (sources, javadoc)
+  files?: string[]; // Go module files kept next to the zip (info, mod)
+}
+
+export interface DependencyOptions {
+  includeDev?: boolean; // dev dependencies of the root package only
+  includePeer?: boolean;
+  maxDepth?: number; // unlimited when omitted
+}
+
+export interface DependencyNode {
+  name: string;
+  version: string; // resolved version, or the requested spec if resolution failed
+  manager: PackageManager;
+  requested: string;
+  size?: number;
+  dependencies: DependencyNode[];
+  circular?: boolean; // already an ancestor; not expanded again
+  deduped?: boolean; // already expanded elsewhere in the tree
+  error?: string;
+}
+
+export interface LockfileEntry {
+  name: string;
+  version: string; // exact version, or the declared spec when `unpinned`
+  manager: PackageManager;
+  dev?: boolean;
+  unpinned?: boolean;
+}
+
+export interface LockfileFormat {
+  name: string; // e.g. package-lock.json
+  matches(filename: string): boolean;
+  parse(content: string, filePath: string): Promise<LockfileEntry[]>;
+}
+
+export interface ImportOptions {
+  includeDev?: boolean; // defaults to true
+  priority?: number;
+}
+
+export interface ImportResult {
+  format: string;
+  queued: LockfileEntry[];
+  skipped: { entry: LockfileEntry; reason: string }[];
+}
+
+export interface QueueAddOptions {
+  artifacts?: ArtifactSelection;
+  withDeps?: DependencyOptions;
 }
 
 export interface QueueItem {
   id: string;
   packageName: string;
-  version: string;
+  version: string; // concrete version, or the requested spec while `unresolved`
   manager: PackageManager;
+  requested?: string; // version, range, dist-tag or `latest:<n>` as given when queueing
+  unresolved?: boolean; // queued offline; the spec is resolved before downloading
   priority: number;
   queuedAt: Date;
   status: QueueStatus;
   error?: string;
+  artifacts?: ArtifactSelection;
+  attempts?: number;
+  lastAttemptAt?: Date;
+  nextRetryAt?: Date; // pending items are not picked up before this time
+  failureKind?: FailureKind;
+  partials?: PartialDownload[]; // interrupted downloads, resumed on the next sync
+  leaseOwner?: string; // process downloading the item
+  leaseExpiresAt?: Date; // the item returns to pending if the owner stops renewing the lease
+}
+
+/**
+ * A download that stopped before the end. The bytes received so far are kept
+ * on disk and the rest is requested with `Range`, guarded by `If-Range`.
+ */
+export interface PartialDownload {
+  url: string;
+  path: string;
+  offset: number; // bytes already on disk
+  etag?: string; // validator from the first response; `Last-Modified` if there was no ETag
+  total?: number; // full size in bytes, if the server reported it
+}
+
+export interface DownloadOptions {
+  tempDir?: string; // where partial files are kept, defaults to ./temp
+  partials?: PartialDownload[]; // downloads to resume
+  onPartial?: (partial: PartialDownload) => void | Promise<void>; // called when a download starts or stops
+  onData?: (bytes: number) => void | Promise<void>; // called after each chunk; throwing stops the download and keeps the partial file
+  signal?: AbortSignal; // aborting stops the download without retrying and keeps the partial file
+  headers?: Record<string, string>; // extra request headers, such as registry credentials
+}
+
+export interface Registry {
+  url: string;
+  id?: string; // Maven server id, to use its credentials from settings.xml
+  token?: string; // sent as a bearer token
+  username?: string; // sent with the password as basic auth
+  password?: string;
+}
+
+export interface NpmRegistrySettings {
+  registry?: Registry; // replaces registry.npmjs.org
+  scopes?: Record<string, Registry>; // keyed by scope, e.g. @corp
+}
+
+export interface PipRegistrySettings {
+  index?: Registry; // JSON API root, replaces https://pypi.org/pypi
+  extraIndexes?: Registry[]; // tried in order when the index does not have a package
+}
+
+export interface MavenRegistrySettings {
+  mirror?: Registry; // replaces Maven Central
+  repositories?: Registry[]; // tried in order when Maven Central (or the mirror) does not have an artifact
+}
+
+export interface RegistrySettings {
+  npm?: NpmRegistrySettings;
+  pip?: PipRegistrySettings;
+  maven?: MavenRegistrySettings;
+}
+
+export interface DataBudget {
+  session?: number; // bytes per sync
+  daily?: number; // bytes per calendar day, across syncs and processes
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelay: number; // in milliseconds, doubled after each failed attempt
+  maxDelay: number; // in milliseconds
 }
 
 export interface CacheConfig {
@@ -40,27 +193,171 @@ export interface CacheConfig {
   enableExamples: boolean;
   syncInterval: number; // in minutes
   offlineMode: boolean;
+  evictionPolicy: EvictionPolicy;
+  concurrency: number; // parallel downloads during sync
+  registryConcurrency: Record<string, number>; // per-registry caps keyed by host (e.g. npm.corp.com), or by manager for each of its hosts; default: concurrency
+  retry: RetryPolicy;
+  rateLimit: number; // bytes per second across all downloads, 0 for no limit
+  dataBudget: DataBudget;
+  registries: RegistrySettings; // completed from .npmrc, pip.conf and settings.xml when loaded
+  plugins: string[]; // plugin modules to load besides node_modules/zembil-plugin-*; relative paths start at the cache directory
+}
+
+export interface ProcessOptions {
+  concurrency?: number; // defaults to 1
+  registryConcurrency?: Record<string, number>; // keyed by registry host or manager
+  retry?: RetryPolicy;
+  force?: boolean; // download packages that are already cached again, replacing the cached copy
+  rateLimit?: number; // bytes per second across all downloads
+  dataBudget?: DataBudget;
+  signal?: AbortSignal; // aborting stops the sync; downloads in progress keep their partial files and go back to pending
 }
 
 export interface SyncResult {
   success: boolean;
   downloaded: number;
+  skipped: number; // already cached and intact
   failed: number;
   errors: string[];
   totalSize: number;
+  bytesUsed: number; // bytes received from registries, including partial downloads
+  deferred: number; // items left pending because they did not fit in the data budget
+  budgetReached?: 'session' | 'daily';
+  stopped?: 'paused' | 'interrupted'; // why the sync ended before the queue was done
+  evicted?: string[];
 }
 
-export type PackageManager = 'npm' | 'pip' | 'maven' | 'composer' | 'cargo' | 'go';
-export type QueueStatus = 'pending' | 'downloading' | 'completed' | 'failed' | 'cancelled';
+export interface DownloadProgress {
+  item: QueueItem;
+  received: number; // bytes of the current file on disk, including a resumed part
+  total?: number; // size of the current file, if the server reported it
+  bytesPerSecond: number; // average since this download started
+  eta?: number; // seconds left, when the total is known
+}
+
+export interface DownloadFailure {
+  item: QueueItem;
+  error: Error;
+  willRetry: boolean; // false when the item is marked failed
+}
+
+export type SkipReason = 'cached' | 'budget' | 'already-queued' | 'paused' | 'cancelled' | 'interrupted';
+
+/**
+ * Events emitted by Queue and Zembil while a sync runs.
+ */
+export interface SyncEvents {
+  'sync:start': (event: { items: number }) => void;
+  'download:start': (event: { item: QueueItem; size?: number }) => void;
+  'download:progress': (event: DownloadProgress) => void;
+  'download:complete': (event: { item: QueueItem; bytes: number }) => void;
+  'download:skip': (event: { item: QueueItem; reason: SkipReason }) => void;
+  'download:error': (event: DownloadFailure) => void;
+  'sync:complete': (result: SyncResult) => void;
+}
+
+export interface DaemonOptions {
+  checkInterval?: number; // in milliseconds between connectivity checks, defaults to 30 seconds
+  isConnected?: () => Promise<boolean>; // defaults to NetworkUtils.isConnected
+}
+
+/**
+ * What the background daemon is doing, as written to `daemon.json` in the cache directory.
+ */
+export interface DaemonStatus {
+  running: boolean;
+  pid?: number;
+  state: DaemonState;
+  online?: boolean;
+  startedAt?: Date;
+  heartbeatAt?: Date; // rewritten at least every 30 seconds while the daemon runs
+  lastCheckAt?: Date;
+  lastSyncAt?: Date;
+  nextSyncAt?: Date; // the next sync on schedule; a sync also starts as soon as the network returns
+  syncs?: number;
+  lastResult?: { downloaded: number; skipped: number; failed: number; bytesUsed?: number };
+  lastError?: string;
+}
+
+export interface VerifyIssue {
+  type: VerifyIssueType;
+  path: string;
+  name?: string;
+  version?: string;
+  manager?: PackageManager;
+  expected?: string;
+  actual?: string;
+}
+
+export interface VerifyReport {
+  checked: number;
+  valid: number;
+  issues: VerifyIssue[];
+  repaired?: string[];
+}
+
+export interface SearchOptions {
+  manager?: PackageManager;
+  license?: string;
+  limit?: number;
+}
+
+export interface SearchResult {
+  package: CachedPackage;
+  rank: number;
+  snippet: string;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: { version: number; description: string; appliedAt: Date }[];
+  pending: { version: number; description: string }[];
+}
+
+export type PackageManager = 'npm' | 'pip' | 'maven' | 'composer' | 'cargo' | 'go' | (string & {}); // plugins register other names
+export type VerifyIssueType = 'checksum-mismatch' | 'integrity-mismatch' | 'missing-file' | 'orphaned-file';
+export type VerifyRepairAction = 'requeue' | 'quarantine';
+export type EvictionPolicy = 'lru' | 'lfu' | 'oldest';
+export type FailureKind = 'permanent' | 'transient';
+export type QueueStatus = 'pending' | 'downloading' | 'completed' | 'failed' | 'paused' | 'cancelled';
+export type DaemonState = 'waiting' | 'offline' | 'syncing' | 'stopped';
 
 export interface PackageManagerInterface {
   name: PackageManager;
+  defaultArtifacts?: ArtifactSelection; // downloaded for queue items that do not select artifacts
   install(packageName: string, version: string, targetDir: string): Promise<void>;
+  installFromFile(packagePath: string, packageName: string, version: string, targetDir: string): Promise<void>;
   getPackageInfo(packageName: string, version: string): Promise<PackageInfo>;
-  downloadPackage(packageName: string, version: string): Promise<string>;
+  downloadPackage(packageName: string, version: string, options?: DownloadOptions): Promise<string>;
   getDocumentation(packageName: string, version: string): Promise<string>;
   getExamples(packageName: string, version: string): Promise<string[]>;
   listVersions(packageName: string): Promise<string[]>;
+  getRegistryUrl?(packageName: string): string; // registry a package is fetched from, for per-registry caps
+  getDistTags?(packageName: string): Promise<Record<string, string>>;
+  downloadArtifacts?(packageName: string, version: string, selection: ArtifactSelection, options?: DownloadOptions): Promise<DownloadedArtifact[]>;
+  installArtifacts?(packagePath: string, artifacts: CachedArtifact[], packageName: string, version: string, targetDir: string): Promise<void>;
+}
+
+export interface ManagerRegistration {
+  name: PackageManager; // value of --manager
+  create(registries: RegistrySettings): PackageManagerInterface; // called on first use and when the registries change; its installFromFile is the installer behind `zembil install`
+  description?: string; // CLI hint listed by `zembil managers`
+  installHint?: string; // CLI hint printed after `zembil install`, e.g. how to build against the installed files
+  versionScheme?: VersionScheme; // defaults to semver
+}
+
+export interface ZembilPlugin {
+  managers: ManagerRegistration[];
+}
+
+export interface VersionScheme {
+  compare(a: string, b: string): number;
+  satisfies(version: string, range: string): boolean;
+  isPrerelease(version: string): boolean;
+  sort(versions: string[]): string[];
+  maxSatisfying(versions: string[], range: string): string | null;
+  latest(versions: string[]): string | null;
 }
 
 export interface CacheInterface {
@@ -74,10 +371,24 @@ export interface CacheInterface {
 }
 
 export interface QueueInterface {
-  add(packageName: string, version: string, manager: PackageManager, priority?: number): Promise<string>;
+  add(packageName: string, version: string, manager: PackageManager, priority?: number, options?: QueueAddOptions): Promise<string>;
   remove(id: string): Promise<boolean>;
   list(): Promise<QueueItem[]>;
-  process(): Promise<SyncResult>;
+  process(options?: ProcessOptions): Promise<SyncResult>;
+  retry(id?: string): Promise<number>;
   clear(): Promise<void>;
-  getStatus(): Promise<{ pending: number; downloading: number; completed: number; failed: number }>;
+  cancel(id: string): Promise<boolean>;
+  pause(id?: string): Promise<boolean>;
+  resume(id?: string): Promise<boolean>;
+  isPaused(): Promise<boolean>;
+  getStatus(): Promise<QueueCounts>;
+}
+
+export interface QueueCounts {
+  pending: number;
+  downloading: number;
+  completed: number;
+  failed: number;
+  paused: number;
+  cancelled: number;
 }
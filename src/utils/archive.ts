@@ -0,0 +1,59 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as tar from 'tar';
+
+export type ArchiveFormat = 'zip' | 'gzip' | 'unknown';
+
+/**
+ * Helpers for unpacking cached artifacts without touching the network.
+ * Cached files do not keep their original extension, so the format is
+ * detected from the file's magic bytes instead.
+ */
+export class ArchiveUtils {
+  /**
+   * Detects the archive format of a file from its leading bytes.
+   * @param filePath - Path to the archive
+   * @returns Detected archive format
+   */
+  static async detectFormat(filePath: string): Promise<ArchiveFormat> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const header = Buffer.alloc(4);
+      const { bytesRead } = await fs.read(handle, header, 0, 4, 0);
+
+      if (bytesRead >= 4 && header[0] === 0x50 && header[1] === 0x4b && header[2] === 0x03 && header[3] === 0x04) {
+        return 'zip';
+      }
+      if (bytesRead >= 2 && header[0] === 0x1f && header[1] === 0x8b) {
+        return 'gzip';
+      }
+      return 'unknown';
+    } finally {
+      await fs.close(handle);
+    }
+  }
+
+  /**
+   * Extracts a zip or gzipped tar archive into a directory.
+   * @param filePath - Path to the archive
+   * @param targetDir - Directory to extract into
+   * @param strip - Number of leading path components to strip (tar only)
+   */
+  static async extract(filePath: string, targetDir: string, strip: number = 0): Promise<void> {
+    const format = await this.detectFormat(filePath);
+    await fs.ensureDir(targetDir);
+
+    switch (format) {
+      case 'gzip':
+        await tar.extract({ file: filePath, cwd: targetDir, strip });
+        break;
+      case 'zip': {
+        const extract = require('extract-zip');
+        await extract(filePath, { dir: path.resolve(targetDir) });
+        break;
+      }
+      default:
+        throw new Error(`Unsupported archive format: ${filePath}`);
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { DataBudget } from '../types';
+
+export interface MeterOptions {
+  rateLimit?: number; // bytes per second, 0 or undefined for no limit
+  budget?: DataBudget;
+  usedToday?: number; // bytes counted against the daily budget before this sync
+}
+
+/**
+ * A download admitted by a DataMeter.
+ */
+export interface MeteredDownload {
+  // Counts and throttles a received chunk; rejects with EBUDGET if the chunk goes over the budget
+  consume(bytes: number): Promise<void>;
+  // Releases what is left of the download's reservation
+  done(): void;
+}
+
+/**
+ * Spreads downloads over time so that together they stay under a rate.
+ */
+export class Throttle {
+  private next: number = 0;
+
+  /**
+   * @param bytesPerSecond - Rate limit, 0 for no limit
+   */
+  constructor(private bytesPerSecond: number) {}
+
+  /**
+   * Waits until the given number of bytes may be passed on. Each call takes
+   * the next free slot, so concurrent downloads share the rate.
+   * @param bytes - Bytes received
+   */
+  async consume(bytes: number): Promise<void> {
+    if (!(this.bytesPerSecond > 0)) {
+      return;
+    }
+    const now = Date.now();
+    const start = Math.max(now, this.next);
+    this.next = start + bytes * 1000 / this.bytesPerSecond;
+    if (start > now) {
+      await new Promise(resolve => setTimeout(resolve, start - now));
+    }
+  }
+}
+
+/**
+ * Counts the bytes a sync downloads, throttles them and holds them to the
+ * session and daily data budgets. Downloads are admitted in the order they
+ * start, and each one reserves its expected size, so the items started first
+ * (the most important ones) get the budget before the ones behind them.
+ */
+export class DataMeter {
+  bytesUsed: number = 0;
+  limitReached?: 'session' | 'daily';
+  private throttle: Throttle;
+  private budget: DataBudget;
+  private usedToday: number;
+  private reserved = new Set<{ bytes: number }>();
+
+  constructor(options: MeterOptions = {}) {
+    this.throttle = new Throttle(options.rateLimit || 0);
+    this.budget = options.budget || {};
+    this.usedToday = options.usedToday || 0;
+  }
+
+  /**
+   * Bytes left before a budget is reached, Infinity when there is no budget.
+   */
+  remaining(): number {
+    const session = this.budget.session !== undefined ? this.budget.session - this.bytesUsed : Infinity;
+    const daily = this.budget.daily !== undefined ? this.budget.daily - this.usedToday - this.bytesUsed : Infinity;
+    return Math.min(session, daily);
+  }
+
+  /**
+   * Admits a download if it fits in what is left of the budget once the
+   * downloads already running have received what they expect.
+   * @param label - What is downloaded, for the error message
+   * @param size - Expected size in bytes, if known
+   * @returns Handle to count the download's bytes with
+   */
+  admit(label: string, size?: number): MeteredDownload {
+    const available = this.remaining() - Array.from(this.reserved).reduce((sum, entry) => sum + entry.bytes, 0);
+    if (this.remaining() <= 0) {
+      this.markLimitReached();
+      throw this.budgetError(`Data budget used up, ${label} is left for a later sync`);
+    }
+    if (available <= 0 || (size !== undefined && size > available)) {
+      throw this.budgetError(`${label} does not fit in the remaining data budget`);
+    }
+
+    const reservation = { bytes: size || 0 };
+    this.reserved.add(reservation);
+    return {
+      consume: async (bytes: number) => {
+        this.bytesUsed += bytes;
+        reservation.bytes = Math.max(0, reservation.bytes - bytes);
+        // A download that ends exactly on the budget is kept
+        if (this.remaining() < 0) {
+          this.markLimitReached();
+          throw this.budgetError(`Data budget used up while downloading ${label}`);
+        }
+        await this.throttle.consume(bytes);
+      },
+      done: () => {
+        this.reserved.delete(reservation);
+      }
+    };
+  }
+
+  /**
+   * Tells whether an error means a download was stopped or skipped by the budget.
+   * @param error - Error thrown by a download
+   */
+  static isBudgetError(error: unknown): boolean {
+    return (error as { code?: string } | null)?.code === 'EBUDGET';
+  }
+
+  private markLimitReached(): void {
+    const session = this.budget.session !== undefined ? this.budget.session - this.bytesUsed : Infinity;
+    this.limitReached = session <= 0 ? 'session' : 'daily';
+  }
+
+  private budgetError(message: string): Error {
+    return Object.assign(new Error(message), { code: 'EBUDGET' });
+  }
+}
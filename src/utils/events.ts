@@ -0,0 +1,28 @@
+import { EventEmitter } from 'events';
+
+/**
+ * EventEmitter with listener types checked against an event map, e.g. SyncEvents.
+ * Only the owning class emits; everyone else subscribes.
+ */
+export class TypedEmitter<Events extends { [E in keyof Events]: (...args: any[]) => void }> {
+  private emitter = new EventEmitter();
+
+  on<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  once<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  off<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  protected emit<E extends keyof Events & string>(event: E, ...args: Parameters<Events[E]>): boolean {
+    return this.emitter.emit(event, ...args);
+  }
+}
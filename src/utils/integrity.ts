@@ -0,0 +1,57 @@
+import * as fs from 'fs-extra';
+import * as crypto from 'crypto';
+
+const SUPPORTED_ALGORITHMS = ['sha512', 'sha384', 'sha256', 'sha1'];
+
+/**
+ * Helpers for upstream integrity data, stored in Subresource Integrity
+ * format (`<algorithm>-<base64 digest>`) regardless of which registry it came from.
+ */
+export class IntegrityUtils {
+  /**
+   * Converts a hex digest, as published by PyPI and Maven, to an integrity string.
+   * @param algorithm - Hash algorithm (e.g. sha256, sha1)
+   * @param hex - Hex-encoded digest
+   * @returns Integrity string
+   */
+  static fromHex(algorithm: string, hex: string): string {
+    return `${algorithm}-${Buffer.from(hex.trim(), 'hex').toString('base64')}`;
+  }
+
+  /**
+   * Hashes a file and compares it with an integrity string.
+   * When several hashes are listed, the strongest supported one is used.
+   * @param filePath - Path to the file
+   * @param integrity - Integrity string
+   * @returns True if the file matches, false if it does not, null if no hash could be checked
+   */
+  static async verify(filePath: string, integrity: string): Promise<boolean | null> {
+    const entries = integrity
+      .split(/\s+/)
+      .map(entry => {
+        const separator = entry.indexOf('-');
+        return { algorithm: entry.slice(0, separator), digest: entry.slice(separator + 1) };
+      })
+      .filter(entry => SUPPORTED_ALGORITHMS.includes(entry.algorithm))
+      .sort((a, b) => SUPPORTED_ALGORITHMS.indexOf(a.algorithm) - SUPPORTED_ALGORITHMS.indexOf(b.algorithm));
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    const { algorithm, digest } = entries[0];
+    return await this.digest(filePath, algorithm, 'base64') === digest;
+  }
+
+  /**
+   * Hashes a file.
+   * @param filePath - Path to the file
+   * @param algorithm - Hash algorithm (e.g. sha256)
+   * @param encoding - Encoding of the digest
+   * @returns Digest of the file's content
+   */
+  static async digest(filePath: string, algorithm: string, encoding: 'hex' | 'base64' = 'hex'): Promise<string> {
+    const content = await fs.readFile(filePath);
+    return crypto.createHash(algorithm).update(content).digest(encoding);
+  }
+}
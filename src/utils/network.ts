@@ -1,4 +1,24 @@
-import fetch from 'node-fetch';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import fetch, { Response } from 'node-fetch';
+import { DownloadOptions, PartialDownload } from '../types';
+
+// ETRUNCATED: the body ended early; EINTEGRITY: the finished file failed verification and is fetched again
+const TRANSIENT_ERROR_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'ENETUNREACH', 'EHOSTUNREACH',
+  'ERR_STREAM_PREMATURE_CLOSE', 'ETRUNCATED', 'EINTEGRITY'
+];
+
+/**
+ * A registry answered with a non-2xx status.
+ */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly url?: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
 
 export class NetworkUtils {
   private static isOnline: boolean | null = null;
@@ -70,6 +90,15 @@ export class NetworkUtils {
     }
   }
 
+  /**
+   * Downloads a URL, retrying transient failures (timeouts, connection errors,
+   * 408/429/5xx) with exponential backoff. Permanent failures such as a 404 are
+   * thrown straight away.
+   * @param url - URL to download
+   * @param maxRetries - Maximum number of attempts
+   * @param retryDelay - Delay before the second attempt, doubled after each failure
+   * @returns Response body
+   */
   static async downloadWithRetry(
     url: string, 
     maxRetries: number = 3, 
@@ -78,70 +107,198 @@ export class NetworkUtils {
     let lastError: Error | null = null;
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 30000);
-      
-      const response = await fetch(url, { signal: controller.signal });
-      
-      clearTimeout(timeoutId);
+
+      try {
+        const response = await fetch(url, { signal: controller.signal });
         
         if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+          throw this.httpError(response, `HTTP ${response.status}: ${response.statusText}`);
         }
         
         return await response.buffer();
       } catch (error) {
         lastError = error as Error;
+
+        if (!this.isTransientError(error)) {
+          throw error;
+        }
         
         if (attempt < maxRetries) {
           console.warn(`Download attempt ${attempt} failed, retrying in ${retryDelay}ms...`);
           await this.sleep(retryDelay);
           retryDelay *= 2; // Exponential backoff
         }
+      } finally {
+        clearTimeout(timeoutId);
       }
     }
     
-    throw new Error(`Failed to download after ${maxRetries} attempts: ${lastError?.message}`);
+    throw Object.assign(new Error(`Failed to download after ${maxRetries} attempts: ${lastError?.message}`), { cause: lastError });
   }
 
-  static async downloadWithProgress(
+  /**
+   * Streams a URL to a file, resuming where an earlier attempt stopped.
+   * Bytes are written to `<filePath>.part`; a later attempt, in this run or a
+   * later sync, asks only for the rest with `Range`, guarded by `If-Range` so
+   * that a file which changed on the server is fetched again from the start.
+   * Transient failures are retried in place like `downloadWithRetry`, and the
+   * connection is dropped after 30 seconds without data. An `onData` callback
+   * that throws, or aborting `signal`, stops the download for good, keeping
+   * the partial file.
+   * @param url - URL to download
+   * @param filePath - Where to put the finished file
+   * @param options - Downloads to resume, extra request headers, and callbacks that record their progress
+   * @param maxRetries - Maximum number of attempts
+   * @param retryDelay - Delay before the second attempt, doubled after each failure
+   * @returns Path to the finished file
+   */
+  static async downloadToFile(
     url: string,
-    onProgress?: (downloaded: number, total: number) => void
-  ): Promise<Buffer> {
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
+    filePath: string,
+    options: DownloadOptions = {},
+    maxRetries: number = 3,
+    retryDelay: number = 1000
+  ): Promise<string> {
+    let partial = options.partials?.find(candidate => candidate.url === url);
+    const partPath = partial?.path || `${filePath}.part`;
+    await fs.ensureDir(path.dirname(partPath));
+    let lastError: Error | null = null;
 
-    const total = parseInt(response.headers.get('content-length') || '0');
-    const chunks: Buffer[] = [];
-    let downloaded = 0;
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      const offset = partial?.etag && await fs.pathExists(partPath) ? (await fs.stat(partPath)).size : 0;
+      const controller = new AbortController();
+      let timeoutId = setTimeout(() => controller.abort(), 30000);
+      let stopped: unknown;
+      const onAbort = () => controller.abort();
+      options.signal?.addEventListener('abort', onAbort);
+      if (options.signal?.aborted) {
+        controller.abort();
+      }
 
-    const reader = (response.body as any)?.getReader();
-    if (!reader) {
-      throw new Error('Failed to get response reader');
-    }
+      try {
+        const headers: Record<string, string> = offset > 0 ? { ...options.headers, Range: `bytes=${offset}-`, 'If-Range': partial!.etag! } : { ...options.headers };
+        const response = await fetch(url, { headers, signal: controller.signal });
 
-    try {
-      while (true) { // eslint-disable-line no-constant-condition
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-        
-        chunks.push(Buffer.from(value));
-        downloaded += value.length;
-        
-        if (onProgress && total > 0) {
-          onProgress(downloaded, total);
+        if (response.status === 416) {
+          // The part on disk does not fit the file any more; start over
+          await fs.remove(partPath);
+          partial = undefined;
+          throw Object.assign(new Error(`Range not satisfiable for ${url}`), { code: 'ETRUNCATED' });
         }
+        if (!response.ok) {
+          throw this.httpError(response, `HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        // Without a 206 the server sent the whole file, because it ignored the range or the file changed
+        const resumed = offset > 0 && response.status === 206;
+        const length = parseInt(response.headers.get('content-length') || '', 10);
+        const total = resumed
+          ? parseInt((response.headers.get('content-range') || '').split('/')[1], 10)
+          : length;
+        const current: PartialDownload = {
+          url,
+          path: partPath,
+          offset: resumed ? offset : 0,
+          etag: response.headers.get('etag') || response.headers.get('last-modified') || undefined,
+          total: Number.isNaN(total) ? undefined : total
+        };
+        partial = current;
+        await options.onPartial?.(current);
+
+        await pipeline(
+          response.body,
+          async function* (source: AsyncIterable<string | Buffer>) {
+            for await (const chunk of source) {
+              clearTimeout(timeoutId);
+              try {
+                // Time spent throttled does not count as idle
+                await options.onData?.(chunk.length);
+              } catch (error) {
+                stopped = error;
+                throw error;
+              }
+              timeoutId = setTimeout(() => controller.abort(), 30000);
+              current.offset += chunk.length;
+              yield chunk;
+            }
+          },
+          fs.createWriteStream(partPath, { flags: resumed ? 'a' : 'w' })
+        );
+
+        if (current.total !== undefined && current.offset !== current.total) {
+          throw Object.assign(new Error(`Download of ${url} ended after ${current.offset} of ${current.total} bytes`), { code: 'ETRUNCATED' });
+        }
+
+        await fs.move(partPath, filePath, { overwrite: true });
+        return filePath;
+      } catch (error) {
+        lastError = error as Error;
+        const aborted = error === stopped || options.signal?.aborted;
+
+        if (!aborted && !this.isTransientError(error)) {
+          await fs.remove(partPath);
+          throw error;
+        }
+        if (partial && await fs.pathExists(partPath)) {
+          partial.offset = (await fs.stat(partPath)).size;
+          await options.onPartial?.(partial);
+        }
+        if (aborted) {
+          throw error;
+        }
+
+        if (attempt < maxRetries) {
+          console.warn(`Download attempt ${attempt} failed, retrying in ${retryDelay}ms...`);
+          await this.sleep(retryDelay);
+          retryDelay *= 2; // Exponential backoff
+        }
+      } finally {
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', onAbort);
       }
-    } finally {
-      reader.releaseLock();
     }
 
-    return Buffer.concat(chunks);
+    throw Object.assign(new Error(`Failed to download after ${maxRetries} attempts: ${lastError?.message}`), { cause: lastError });
+  }
+
+  /**
+   * Builds the error for a failed response.
+   * @param response - Response with a non-2xx status
+   * @param notFoundMessage - Message to use for a 404, e.g. `Package not found: lodash@1.0.0`
+   * @returns Error carrying the HTTP status
+   */
+  static httpError(response: Response, notFoundMessage: string): HttpError {
+    const message = response.status === 404
+      ? notFoundMessage
+      : `HTTP ${response.status} ${response.statusText} from ${response.url}`;
+    return new HttpError(response.status, message, response.url);
+  }
+
+  /**
+   * Tells whether a failure is worth retrying later. Timeouts, connection
+   * errors, 408, 429 and 5xx responses are transient; anything else, such as a
+   * 404 or invalid coordinates, is permanent.
+   * @param error - Error thrown by a download or registry lookup
+   * @returns True if the failure is transient
+   */
+  static isTransientError(error: unknown): boolean {
+    if (error instanceof HttpError) {
+      return error.status === 408 || error.status === 429 || error.status >= 500;
+    }
+
+    const err = error as { name?: string; code?: string; cause?: unknown } | null;
+    if (!err) {
+      return false;
+    }
+    if (err.name === 'FetchError' || err.name === 'AbortError') {
+      return true;
+    }
+    if (err.code && TRANSIENT_ERROR_CODES.includes(err.code)) {
+      return true;
+    }
+    return err.cause !== undefined && this.isTransientError(err.cause);
   }
 
   private static sleep(ms: number): Promise<void> {
@@ -0,0 +1,100 @@
+/**
+ * Dependencies declared in a POM, grouped the way `PackageInfo` stores them.
+ */
+export interface PomDependencies {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+const NESTED_SECTIONS = ['parent', 'dependencies', 'dependencyManagement', 'build', 'profiles', 'reporting', 'pluginRepositories', 'repositories'];
+
+/**
+ * Lightweight helpers for reading Maven POM files without a full XML parser.
+ */
+export class PomUtils {
+  /**
+   * Reads a top-level project field (`groupId`, `artifactId`, `version`),
+   * falling back to the parent POM's value for `groupId` and `version`.
+   * @param pomContent - POM XML content
+   * @param field - Field name
+   * @returns Field value or undefined if it is not declared
+   */
+  static getProjectField(pomContent: string, field: string): string | undefined {
+    const topLevel = NESTED_SECTIONS.reduce(
+      (content, section) => content.replace(new RegExp(`<${section}>.*?</${section}>`, 'gs'), ''),
+      pomContent
+    );
+
+    const value = this.getTag(topLevel, field);
+    if (value || field === 'artifactId') {
+      return value;
+    }
+
+    const parent = pomContent.match(/<parent>(.*?)<\/parent>/s);
+    return parent ? this.getTag(parent[1], field) : undefined;
+  }
+
+  /**
+   * Extracts declared dependencies from a POM. Compile and runtime dependencies
+   * become `dependencies`, test scope `devDependencies` and provided scope
+   * `peerDependencies`. Versions come from the declaration or the POM's own
+   * `dependencyManagement`; optional dependencies and versions managed by a
+   * parent POM are skipped.
+   * @param pomContent - POM XML content
+   * @param version - Version of the project, for `${project.version}`
+   * @returns Dependency maps keyed by `groupId:artifactId`
+   */
+  static parseDependencies(pomContent: string, version: string): PomDependencies {
+    const properties: Record<string, string> = { 'project.version': version, 'pom.version': version };
+    const groupId = this.getProjectField(pomContent, 'groupId');
+    if (groupId) {
+      properties['project.groupId'] = groupId;
+    }
+
+    const propertiesMatch = pomContent.match(/<properties>(.*?)<\/properties>/s);
+    if (propertiesMatch) {
+      for (const [, key, value] of propertiesMatch[1].matchAll(/<([\w.-]+)>([^<]*)<\/\1>/g)) {
+        properties[key] = value.trim();
+      }
+    }
+    const resolve = (value?: string) => value?.replace(/\$\{([^}]+)\}/g, (match, key) => properties[key] ?? match);
+
+    const managed: Record<string, string> = {};
+    const management = pomContent.match(/<dependencyManagement>(.*?)<\/dependencyManagement>/s);
+    for (const dependency of management?.[1].match(/<dependency>.*?<\/dependency>/gs) || []) {
+      const managedVersion = resolve(this.getTag(dependency, 'version'));
+      if (managedVersion) {
+        managed[`${resolve(this.getTag(dependency, 'groupId'))}:${resolve(this.getTag(dependency, 'artifactId'))}`] = managedVersion;
+      }
+    }
+
+    const groups: PomDependencies = {};
+    const declared = pomContent
+      .replace(/<dependencyManagement>.*?<\/dependencyManagement>/gs, '')
+      .match(/<dependency>.*?<\/dependency>/gs) || [];
+
+    for (const dependency of declared) {
+      const coordinates = `${resolve(this.getTag(dependency, 'groupId'))}:${resolve(this.getTag(dependency, 'artifactId'))}`;
+      const depVersion = resolve(this.getTag(dependency, 'version')) || managed[coordinates];
+      if (coordinates.includes('undefined') || !depVersion || depVersion.includes('${') || this.getTag(dependency, 'optional') === 'true') {
+        continue;
+      }
+
+      const scope = this.getTag(dependency, 'scope') || 'compile';
+      const group = scope === 'test' ? 'devDependencies'
+        : scope === 'provided' ? 'peerDependencies'
+        : scope === 'compile' || scope === 'runtime' ? 'dependencies'
+        : undefined;
+      if (group) {
+        groups[group] = { ...groups[group], [coordinates]: depVersion };
+      }
+    }
+
+    return groups;
+  }
+
+  private static getTag(xml: string, tag: string): string | undefined {
+    return xml.match(new RegExp(`<${tag}>\\s*(.*?)\\s*</${tag}>`, 's'))?.[1];
+  }
+}
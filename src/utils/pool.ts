@@ -0,0 +1,51 @@
+export interface PoolOptions<T> {
+  concurrency: number;
+  // Items with the same group (e.g. registry) share the group's limit
+  groupOf?: (item: T) => string;
+  groupLimit?: (group: string) => number;
+}
+
+/**
+ * Runs async tasks with a bounded number of workers.
+ */
+export class PoolUtils {
+  /**
+   * Runs a task for every item, at most `concurrency` at a time and at most
+   * `groupLimit(group)` at a time per group. Items start in the given order,
+   * except that an item whose group is full lets later items from other groups go first.
+   * The task is expected to handle its own errors; a rejection stops the pool.
+   * @param items - Items to process
+   * @param options - Worker and per-group limits
+   * @param task - Task to run for each item
+   */
+  static async run<T>(items: T[], options: PoolOptions<T>, task: (item: T) => Promise<void>): Promise<void> {
+    const concurrency = Math.max(1, options.concurrency);
+    const groupOf = options.groupOf || (() => '');
+    const groupLimit = (group: string) => Math.max(1, options.groupLimit ? options.groupLimit(group) : concurrency);
+
+    const waiting = [...items];
+    const running = new Set<Promise<void>>();
+    const active = new Map<string, number>();
+
+    while (waiting.length > 0 || running.size > 0) {
+      const index = running.size < concurrency
+        ? waiting.findIndex(item => (active.get(groupOf(item)) || 0) < groupLimit(groupOf(item)))
+        : -1;
+
+      if (index === -1) {
+        await Promise.race(running);
+        continue;
+      }
+
+      const [item] = waiting.splice(index, 1);
+      const group = groupOf(item);
+      active.set(group, (active.get(group) || 0) + 1);
+
+      const worker: Promise<void> = task(item).finally(() => {
+        active.set(group, active.get(group)! - 1);
+        running.delete(worker);
+      });
+      running.add(worker);
+    }
+  }
+}
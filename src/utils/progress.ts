@@ -0,0 +1,145 @@
+export interface ProgressBar {
+  label: string;
+  received: number;
+  total?: number;
+  bytesPerSecond: number;
+  eta?: number; // in seconds
+}
+
+export interface ProgressStream {
+  write(text: string): boolean;
+  isTTY?: boolean;
+  columns?: number;
+}
+
+const BAR_WIDTH = 20;
+const REDRAW_INTERVAL = 100;
+
+/**
+ * Formats a byte count for display, e.g. `1.5 MB`.
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Formats a number of seconds for display, e.g. `4m05s`.
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.ceil(seconds);
+  if (total < 60) {
+    return `${total}s`;
+  }
+  if (total < 3600) {
+    return `${Math.floor(total / 60)}m${String(total % 60).padStart(2, '0')}s`;
+  }
+  return `${Math.floor(total / 3600)}h${String(Math.floor(total % 3600 / 60)).padStart(2, '0')}m`;
+}
+
+/**
+ * Draws a live progress bar per download below a log of finished items.
+ * Bars are redrawn at most every 100 ms; on a stream that is not a terminal
+ * only the log lines are written.
+ */
+export class ProgressBars {
+  private bars = new Map<string, ProgressBar>();
+  private drawnLines: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private stream: ProgressStream = process.stdout) {}
+
+  /**
+   * Adds or updates the bar for a download.
+   * @param key - Download the bar belongs to
+   * @param bar - Current progress
+   */
+  update(key: string, bar: ProgressBar): void {
+    this.bars.set(key, bar);
+    this.scheduleDraw();
+  }
+
+  /**
+   * Removes the bar for a download.
+   * @param key - Download the bar belongs to
+   */
+  remove(key: string): void {
+    this.bars.delete(key);
+    this.scheduleDraw();
+  }
+
+  /**
+   * Writes a line above the bars.
+   * @param line - Text to write
+   */
+  log(line: string): void {
+    this.clear();
+    this.stream.write(`${line}\n`);
+    this.draw();
+  }
+
+  /**
+   * Removes all bars and stops redrawing.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.bars.clear();
+    this.clear();
+  }
+
+  /**
+   * Renders one bar as a line of text.
+   * @param bar - Progress to render
+   * @returns Line without a trailing newline
+   */
+  static render(bar: ProgressBar): string {
+    const speed = `${formatBytes(Math.round(bar.bytesPerSecond))}/s`;
+    if (bar.total === undefined || bar.total === 0) {
+      return `${bar.label}  ${formatBytes(bar.received)}  ${speed}`;
+    }
+
+    const ratio = Math.min(1, bar.received / bar.total);
+    const filled = Math.round(ratio * BAR_WIDTH);
+    const eta = bar.eta !== undefined && bar.bytesPerSecond > 0 ? `  ETA ${formatDuration(bar.eta)}` : '';
+    return `${bar.label}  [${'█'.repeat(filled)}${'░'.repeat(BAR_WIDTH - filled)}] ${String(Math.floor(ratio * 100)).padStart(3)}%` +
+      `  ${formatBytes(bar.received)}/${formatBytes(bar.total)}  ${speed}${eta}`;
+  }
+
+  private scheduleDraw(): void {
+    if (this.timer || !this.stream.isTTY) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.clear();
+      this.draw();
+    }, REDRAW_INTERVAL);
+  }
+
+  private draw(): void {
+    if (!this.stream.isTTY || this.bars.size === 0) {
+      return;
+    }
+    const width = this.stream.columns || 80;
+    const lines = Array.from(this.bars.values()).map(bar => ProgressBars.render(bar).slice(0, width - 1));
+    this.stream.write(`${lines.join('\n')}\n`);
+    this.drawnLines = lines.length;
+  }
+
+  private clear(): void {
+    if (this.drawnLines > 0) {
+      // Move up over the bars and erase everything below
+      this.stream.write(`\x1b[${this.drawnLines}A\x1b[0J`);
+      this.drawnLines = 0;
+    }
+  }
+}
@@ -0,0 +1,362 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { MavenRegistrySettings, NpmRegistrySettings, PipRegistrySettings, Registry, RegistrySettings } from '../types';
+
+/**
+ * Where registry settings are read from besides the Zembil configuration.
+ */
+export interface RegistrySources {
+  home?: string; // for ~/.npmrc, ~/.config/pip/pip.conf and ~/.m2/settings.xml
+  cwd?: string; // for the project's .npmrc
+  env?: Record<string, string | undefined>;
+}
+
+const NPM_REGISTRY_URL = 'https://registry.npmjs.org';
+
+type Credentials = Pick<Registry, 'token' | 'username' | 'password'>;
+
+/**
+ * Settings read from an `.npmrc` file.
+ */
+export interface NpmrcSettings {
+  registry?: string;
+  scopes: Record<string, string>;
+  auth: Record<string, Credentials>; // keyed by registry URL without the protocol, e.g. //npm.corp.com/
+}
+
+/**
+ * Settings read from a `pip.conf` file.
+ */
+export interface PipConfSettings {
+  indexUrl?: string;
+  extraIndexUrls: string[];
+}
+
+/**
+ * Settings read from a Maven `settings.xml` file.
+ */
+export interface MavenSettings {
+  servers: Record<string, Credentials>; // keyed by server id
+  mirrors: { id?: string; url: string; mirrorOf: string }[];
+}
+
+/**
+ * Reads registry locations and credentials the way npm, pip and Maven are
+ * configured, and turns registry credentials into request headers.
+ */
+export class RegistryUtils {
+  /**
+   * Completes the configured registries with the settings of the package
+   * managers themselves. The Zembil configuration wins, then environment
+   * variables (`NPM_CONFIG_REGISTRY`, `PIP_INDEX_URL`, `PIP_EXTRA_INDEX_URL`),
+   * then the project's `.npmrc`, then the user's files. `${VAR}` in the
+   * configuration and in `.npmrc` is replaced with the environment variable.
+   * Registries without credentials take them from `.npmrc` (by URL) or
+   * `settings.xml` (by server id).
+   * @param settings - Registries from the Zembil configuration
+   * @param sources - Home and project directory, and environment
+   * @returns Registries to use, with only the sections that configure something
+   */
+  static async load(settings: RegistrySettings = {}, sources: RegistrySources = {}): Promise<RegistrySettings> {
+    const home = sources.home || os.homedir();
+    const cwd = sources.cwd || process.cwd();
+    const env = sources.env || process.env;
+    const expand = (registry: Registry | undefined) => registry && this.expandRegistry(registry, env);
+
+    const npmrc = [path.join(home, '.npmrc'), path.join(cwd, '.npmrc')];
+    const npm = await this.loadNpm({
+      registry: expand(settings.npm?.registry),
+      scopes: settings.npm?.scopes && Object.fromEntries(Object.entries(settings.npm.scopes).map(([scope, registry]) => [scope, expand(registry)!]))
+    }, npmrc, env);
+
+    const pipConf = [path.join(home, '.pip', 'pip.conf'), path.join(home, '.config', 'pip', 'pip.conf'), env.PIP_CONFIG_FILE];
+    const pip = await this.loadPip({
+      index: expand(settings.pip?.index),
+      extraIndexes: settings.pip?.extraIndexes?.map(registry => expand(registry)!)
+    }, pipConf, env);
+
+    const maven = await this.loadMaven({
+      mirror: expand(settings.maven?.mirror),
+      repositories: settings.maven?.repositories?.map(registry => expand(registry)!)
+    }, path.join(home, '.m2', 'settings.xml'), env);
+
+    const registries: RegistrySettings = {};
+    if (npm.registry || Object.keys(npm.scopes || {}).length > 0) registries.npm = npm;
+    if (pip.index || (pip.extraIndexes || []).length > 0) registries.pip = pip;
+    if (maven.mirror || (maven.repositories || []).length > 0) registries.maven = maven;
+    return registries;
+  }
+
+  /**
+   * Builds the `Authorization` header for a registry. Credentials are only
+   * sent to the registry's own origin, so files served from elsewhere (a CDN
+   * or another host) are fetched without them.
+   * @param registry - Registry with optional credentials
+   * @param url - URL being requested, when it is not under the registry URL
+   * @returns Headers to send
+   */
+  static getHeaders(registry: Registry | undefined, url?: string): Record<string, string> {
+    if (!registry || (url && this.getOrigin(url) !== this.getOrigin(registry.url))) {
+      return {};
+    }
+    if (registry.token) {
+      return { Authorization: `Bearer ${registry.token}` };
+    }
+    if (registry.username !== undefined && registry.password !== undefined) {
+      return { Authorization: `Basic ${Buffer.from(`${registry.username}:${registry.password}`).toString('base64')}` };
+    }
+    return {};
+  }
+
+  /**
+   * Parses an `.npmrc` file: `registry`, `@scope:registry` and per-registry
+   * `_authToken`, `_auth` or `username` and `_password` entries.
+   * @param content - File content
+   * @param env - Environment for `${VAR}` references
+   * @returns Registry settings in the file
+   */
+  static parseNpmrc(content: string, env: Record<string, string | undefined> = process.env): NpmrcSettings {
+    const settings: NpmrcSettings = { scopes: {}, auth: {} };
+
+    for (const [key, rawValue] of Object.entries(this.parseIni(content)[''] || {})) {
+      const value = this.expand(rawValue, env);
+      const auth = key.match(/^(\/\/.+\/):(_authToken|_auth|username|_password)$/);
+      if (auth) {
+        const credentials = settings.auth[auth[1]] = settings.auth[auth[1]] || {};
+        if (auth[2] === '_authToken') {
+          credentials.token = value;
+        } else if (auth[2] === '_auth') {
+          const decoded = Buffer.from(value, 'base64').toString();
+          const colon = decoded.indexOf(':');
+          credentials.username = decoded.slice(0, colon);
+          credentials.password = decoded.slice(colon + 1);
+        } else if (auth[2] === 'username') {
+          credentials.username = value;
+        } else {
+          credentials.password = Buffer.from(value, 'base64').toString();
+        }
+        continue;
+      }
+
+      const scope = key.match(/^(@[^:]+):registry$/);
+      if (scope) {
+        settings.scopes[scope[1]] = value;
+      } else if (key === 'registry') {
+        settings.registry = value;
+      }
+    }
+
+    return settings;
+  }
+
+  /**
+   * Parses a `pip.conf` file, reading `index-url` and `extra-index-url` from
+   * the `[global]` section and then the `[install]` section.
+   * @param content - File content
+   * @returns Index settings in the file
+   */
+  static parsePipConf(content: string): PipConfSettings {
+    const sections = this.parseIni(content);
+    const values = { ...sections.global, ...sections.install };
+    return {
+      indexUrl: values['index-url'],
+      extraIndexUrls: (values['extra-index-url'] || '').split(/\s+/).filter(url => url !== '')
+    };
+  }
+
+  /**
+   * Parses the servers and mirrors of a Maven `settings.xml` file.
+   * @param content - File content
+   * @param env - Environment for `${env.VAR}` references
+   * @returns Servers and mirrors in the file
+   */
+  static parseMavenSettings(content: string, env: Record<string, string | undefined> = process.env): MavenSettings {
+    const settings: MavenSettings = { servers: {}, mirrors: [] };
+    const getTag = (xml: string, tag: string) => {
+      const match = xml.match(new RegExp(`<${tag}>\\s*(.*?)\\s*</${tag}>`, 's'));
+      return match ? match[1].replace(/\$\{env\.(\w+)\}/g, (_, name) => env[name] || '') : undefined;
+    };
+
+    for (const [, server] of content.matchAll(/<server>(.*?)<\/server>/gs)) {
+      const id = getTag(server, 'id');
+      if (id) {
+        settings.servers[id] = { username: getTag(server, 'username'), password: getTag(server, 'password') };
+      }
+    }
+    for (const [, mirror] of content.matchAll(/<mirror>(.*?)<\/mirror>/gs)) {
+      const url = getTag(mirror, 'url');
+      if (url) {
+        settings.mirrors.push({ id: getTag(mirror, 'id'), url, mirrorOf: getTag(mirror, 'mirrorOf') || '' });
+      }
+    }
+
+    return settings;
+  }
+
+  private static async loadNpm(settings: NpmRegistrySettings, files: string[], env: Record<string, string | undefined>): Promise<NpmRegistrySettings> {
+    const merged: NpmrcSettings = { scopes: {}, auth: {} };
+    for (const file of files) {
+      const content = await this.readFile(file);
+      if (content === undefined) continue;
+      const npmrc = this.parseNpmrc(content, env);
+      merged.registry = npmrc.registry || merged.registry;
+      Object.assign(merged.scopes, npmrc.scopes);
+      Object.assign(merged.auth, npmrc.auth);
+    }
+
+    const withAuth = (registry: Registry): Registry => {
+      if (registry.token || registry.username) {
+        return registry;
+      }
+      // The longest matching prefix wins, as in npm
+      const key = Object.keys(merged.auth)
+        .filter(prefix => registry.url.replace(/^https?:/, '').replace(/\/?$/, '/').startsWith(prefix))
+        .sort((a, b) => b.length - a.length)[0];
+      return key ? { ...registry, ...merged.auth[key] } : registry;
+    };
+
+    const registryUrl = env.NPM_CONFIG_REGISTRY || env.npm_config_registry || merged.registry;
+    // registry.npmjs.org goes through withAuth too, as private packages there need its `_authToken`
+    const base = settings.registry || { url: registryUrl || NPM_REGISTRY_URL };
+    const registry = withAuth({ ...base, url: base.url.replace(/\/$/, '') });
+    const configured = settings.registry || registryUrl || registry.token || registry.username;
+    const scopes: Record<string, Registry> = {};
+    for (const [scope, url] of Object.entries(merged.scopes)) {
+      scopes[scope] = withAuth({ url: url.replace(/\/$/, '') });
+    }
+    for (const [scope, scoped] of Object.entries(settings.scopes || {})) {
+      scopes[scope] = withAuth({ ...scoped, url: scoped.url.replace(/\/$/, '') });
+    }
+
+    return {
+      registry: configured ? registry : undefined,
+      scopes: Object.keys(scopes).length > 0 ? scopes : undefined
+    };
+  }
+
+  private static async loadPip(settings: PipRegistrySettings, files: (string | undefined)[], env: Record<string, string | undefined>): Promise<PipRegistrySettings> {
+    let indexUrl: string | undefined;
+    let extraIndexUrls: string[] = [];
+    for (const file of files) {
+      const content = file && await this.readFile(file);
+      if (!content) continue;
+      const pipConf = this.parsePipConf(content);
+      indexUrl = pipConf.indexUrl || indexUrl;
+      extraIndexUrls = pipConf.extraIndexUrls.length > 0 ? pipConf.extraIndexUrls : extraIndexUrls;
+    }
+    indexUrl = env.PIP_INDEX_URL || indexUrl;
+    extraIndexUrls = env.PIP_EXTRA_INDEX_URL ? env.PIP_EXTRA_INDEX_URL.split(/\s+/).filter(url => url !== '') : extraIndexUrls;
+
+    return {
+      index: settings.index || (indexUrl ? this.fromPipUrl(indexUrl) : undefined),
+      extraIndexes: settings.extraIndexes || (extraIndexUrls.length > 0 ? extraIndexUrls.map(url => this.fromPipUrl(url)) : undefined)
+    };
+  }
+
+  private static async loadMaven(settings: MavenRegistrySettings, file: string, env: Record<string, string | undefined>): Promise<MavenRegistrySettings> {
+    const content = await this.readFile(file);
+    const mavenSettings = content ? this.parseMavenSettings(content, env) : { servers: {}, mirrors: [] };
+
+    const withAuth = (registry: Registry): Registry => {
+      const server = registry.id ? mavenSettings.servers[registry.id] : undefined;
+      return server && !registry.token && !registry.username ? { ...registry, ...server } : registry;
+    };
+
+    // A mirror of `*` or of `central` (but not `!central`) stands in for Maven Central
+    const centralMirror = mavenSettings.mirrors.find(mirror =>
+      mirror.mirrorOf.split(',').some(target => target.trim() === '*' || target.trim() === 'central') &&
+      !mirror.mirrorOf.split(',').some(target => target.trim() === '!central')
+    );
+    const mirror = settings.mirror || (centralMirror ? { url: centralMirror.url, id: centralMirror.id } : undefined);
+
+    return {
+      mirror: mirror && withAuth({ ...mirror, url: mirror.url.replace(/\/$/, '') }),
+      repositories: settings.repositories?.map(repository => withAuth({ ...repository, url: repository.url.replace(/\/$/, '') }))
+    };
+  }
+
+  /**
+   * Turns a pip index URL into a registry: credentials in the URL become
+   * basic auth, and the rest of the URL is kept as it is.
+   * @param url - Index URL from pip's configuration
+   * @returns Registry for the index
+   */
+  private static fromPipUrl(url: string): Registry {
+    const parsed = new URL(url);
+    const registry: Registry = { url: '' };
+    if (parsed.username) {
+      registry.username = decodeURIComponent(parsed.username);
+      registry.password = decodeURIComponent(parsed.password);
+      parsed.username = '';
+      parsed.password = '';
+    }
+    registry.url = parsed.toString().replace(/\/$/, '');
+    return registry;
+  }
+
+  private static expandRegistry(registry: Registry, env: Record<string, string | undefined>): Registry {
+    const expanded: Registry = { ...registry, url: this.expand(registry.url, env) };
+    for (const field of ['token', 'username', 'password'] as const) {
+      if (registry[field] !== undefined) {
+        expanded[field] = this.expand(registry[field]!, env);
+      }
+    }
+    return expanded;
+  }
+
+  private static expand(value: string, env: Record<string, string | undefined>): string {
+    return value.replace(/\$\{(\w+)\}/g, (_, name) => env[name] || '');
+  }
+
+  /**
+   * Parses an INI file into sections of key/value pairs. Keys before the
+   * first section go in the section named ''; indented lines continue the
+   * previous value, as in pip's configuration.
+   * @param content - File content
+   * @returns Values by section and key
+   */
+  private static parseIni(content: string): Record<string, Record<string, string>> {
+    const sections: Record<string, Record<string, string>> = { '': {} };
+    let section = '';
+    let lastKey: string | undefined;
+
+    for (const line of content.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (trimmed === '' || trimmed.startsWith('#') || trimmed.startsWith(';')) continue;
+
+      const header = trimmed.match(/^\[(.+)\]$/);
+      if (header) {
+        section = header[1].trim();
+        sections[section] = sections[section] || {};
+        lastKey = undefined;
+      } else if (/^\s/.test(line) && lastKey) {
+        sections[section][lastKey] += `\n${trimmed}`;
+      } else {
+        // npmrc keys contain colons, so only `=` separates key and value
+        const index = trimmed.indexOf('=');
+        if (index <= 0) continue;
+        lastKey = trimmed.slice(0, index).trim();
+        sections[section][lastKey] = trimmed.slice(index + 1).trim().replace(/^"(.*)"$/, '$1');
+      }
+    }
+
+    return sections;
+  }
+
+  private static getOrigin(url: string): string {
+    try {
+      return new URL(url).origin;
+    } catch (error) {
+      return url;
+    }
+  }
+
+  private static async readFile(filePath: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
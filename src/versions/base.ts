@@ -0,0 +1,46 @@
+import { VersionScheme } from '../types';
+
+/**
+ * Shared sorting and selection logic for version schemes.
+ * Subclasses only need to define ordering, range matching and prereleases.
+ */
+export abstract class BaseVersionScheme implements VersionScheme {
+  abstract compare(a: string, b: string): number;
+  abstract satisfies(version: string, range: string): boolean;
+  abstract isPrerelease(version: string): boolean;
+
+  /**
+   * Sorts versions in ascending order.
+   * @param versions - Versions to sort
+   * @returns New array sorted from oldest to newest
+   */
+  sort(versions: string[]): string[] {
+    return [...versions].sort((a, b) => this.compare(a, b));
+  }
+
+  /**
+   * Finds the highest version matching a range.
+   * @param versions - Candidate versions
+   * @param range - Range expression in the scheme's syntax
+   * @returns Highest matching version or null if none match
+   */
+  maxSatisfying(versions: string[], range: string): string | null {
+    const matching = versions.filter(version => this.satisfies(version, range));
+    return matching.length > 0 ? this.sort(matching)[matching.length - 1] : null;
+  }
+
+  /**
+   * Finds the newest stable version, falling back to the newest prerelease.
+   * @param versions - Candidate versions
+   * @returns Newest version or null if the list is empty
+   */
+  latest(versions: string[]): string | null {
+    if (versions.length === 0) {
+      return null;
+    }
+
+    const sorted = this.sort(versions);
+    const stable = sorted.filter(version => !this.isPrerelease(version));
+    return stable.length > 0 ? stable[stable.length - 1] : sorted[sorted.length - 1];
+  }
+}
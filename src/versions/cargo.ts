@@ -0,0 +1,21 @@
+import { SemverScheme } from './semver';
+
+/**
+ * Cargo version requirements on top of semver ordering: a bare version is a
+ * caret requirement (`1.2` means `^1.2`) and comparators are separated by
+ * commas (`>=1.2, <1.5`).
+ */
+export class CargoScheme extends SemverScheme {
+  /**
+   * Converts a Cargo requirement to an npm-style range.
+   * @param range - Cargo version requirement
+   * @returns npm-style range
+   */
+  protected normalizeRange(range: string): string {
+    return range
+      .split(',')
+      .map(part => part.trim())
+      .map(part => (/^\d/.test(part) ? `^${part}` : part))
+      .join(' ');
+  }
+}
@@ -0,0 +1,42 @@
+import { SemverScheme } from './semver';
+
+/**
+ * Composer version constraints on top of semver ordering: `,` or a space
+ * means and, `|` or `||` means or, `@stable`-style flags are ignored and a
+ * two-part tilde allows minor updates (`~1.2` means `>=1.2.0 <2.0.0`).
+ */
+export class ComposerScheme extends SemverScheme {
+  /**
+   * Converts a Composer constraint to an npm-style range.
+   * @param range - Composer version constraint
+   * @returns npm-style range
+   */
+  protected normalizeRange(range: string): string {
+    return range
+      .split(/\s*\|\|?\s*/)
+      .map(alternative => this.normalizeAlternative(alternative))
+      .join(' || ');
+  }
+
+  private normalizeAlternative(alternative: string): string {
+    const constraint = alternative
+      .replace(/@[a-z]+/gi, '')
+      .replace(/([<>=^~]+)\s+/g, '$1')
+      .replace(/(^|[\s,<>=^~])v(?=\d)/g, '$1')
+      .trim();
+
+    // Hyphen ranges mean the same as in npm
+    if (/\s-\s/.test(constraint)) {
+      return constraint;
+    }
+
+    const parts = constraint
+      .split(/\s*,\s*|\s+/)
+      .filter(part => part !== '' && !part.startsWith('!=')) // npm ranges cannot exclude a version
+      .map(part => {
+        const tilde = part.match(/^~(\d+)\.(\d+)$/);
+        return tilde ? `>=${tilde[1]}.${tilde[2]}.0 <${parseInt(tilde[1], 10) + 1}.0.0` : part;
+      });
+    return parts.length > 0 ? parts.join(' ') : '*';
+  }
+}
@@ -0,0 +1,53 @@
+import { VersionScheme } from '../types';
+import { SemverScheme } from './semver';
+import { Pep440Scheme } from './pep440';
+import { MavenScheme } from './maven';
+import { CargoScheme } from './cargo';
+import { ComposerScheme } from './composer';
+
+/**
+ * Picks the version ordering and range syntax used by each package manager's ecosystem.
+ */
+export class VersionSchemeFactory {
+  private static schemes: Map<string, VersionScheme> = new Map();
+
+  static getScheme(manager: string): VersionScheme {
+    if (this.schemes.has(manager)) {
+      return this.schemes.get(manager)!;
+    }
+
+    let scheme: VersionScheme;
+
+    switch (manager) {
+      case 'pip':
+        scheme = new Pep440Scheme();
+        break;
+      case 'maven':
+        scheme = new MavenScheme();
+        break;
+      case 'cargo':
+        scheme = new CargoScheme();
+        break;
+      case 'composer':
+        scheme = new ComposerScheme();
+        break;
+      default:
+        scheme = new SemverScheme();
+        break;
+    }
+
+    this.schemes.set(manager, scheme);
+    return scheme;
+  }
+
+  /**
+   * Sets the version scheme of a package manager from a plugin.
+   * @param manager - Name of the manager
+   * @param scheme - Version ordering and range syntax of its ecosystem
+   */
+  static register(manager: string, scheme: VersionScheme): void {
+    this.schemes.set(manager, scheme);
+  }
+}
+
+export { SemverScheme, Pep440Scheme, MavenScheme, CargoScheme, ComposerScheme };
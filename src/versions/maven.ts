@@ -0,0 +1,213 @@
+import { BaseVersionScheme } from './base';
+
+type Item = IntItem | StringItem | ListItem;
+
+const QUALIFIERS = ['alpha', 'beta', 'milestone', 'rc', 'snapshot', '', 'sp'];
+const ALIASES: Record<string, string> = { ga: '', final: '', release: '', cr: 'rc' };
+const RELEASE_INDEX = String(QUALIFIERS.indexOf(''));
+
+class IntItem {
+  constructor(readonly value: bigint) {}
+
+  isNull(): boolean {
+    return this.value === BigInt(0);
+  }
+
+  compareTo(item: Item | null): number {
+    if (item === null) return this.isNull() ? 0 : 1;
+    if (item instanceof IntItem) return this.value === item.value ? 0 : this.value < item.value ? -1 : 1;
+    return 1; // 1.1 > 1-sp and 1.1 > 1-1
+  }
+}
+
+class StringItem {
+  readonly value: string;
+
+  constructor(value: string, followedByDigit: boolean) {
+    if (followedByDigit && value.length === 1) {
+      value = { a: 'alpha', b: 'beta', m: 'milestone' }[value] || value;
+    }
+    this.value = ALIASES[value] ?? value;
+  }
+
+  static comparable(qualifier: string): string {
+    const index = QUALIFIERS.indexOf(qualifier);
+    return index === -1 ? `${QUALIFIERS.length}-${qualifier}` : String(index);
+  }
+
+  isNull(): boolean {
+    return StringItem.comparable(this.value) === RELEASE_INDEX;
+  }
+
+  compareTo(item: Item | null): number {
+    const mine = StringItem.comparable(this.value);
+    if (item === null) return compareStrings(mine, RELEASE_INDEX);
+    if (item instanceof StringItem) return compareStrings(mine, StringItem.comparable(item.value));
+    return -1; // 1.any < 1.1 and 1-any < 1-1
+  }
+}
+
+class ListItem {
+  readonly items: Item[] = [];
+
+  isNull(): boolean {
+    return this.items.length === 0;
+  }
+
+  /**
+   * Drops trailing null items so `1.0`, `1.0.0` and `1-ga` compare equal to `1`.
+   */
+  normalize(): void {
+    for (let i = this.items.length - 1; i >= 0; i--) {
+      const item = this.items[i];
+      if (item.isNull()) {
+        this.items.splice(i, 1);
+      } else if (!(item instanceof ListItem)) {
+        break;
+      }
+    }
+  }
+
+  compareTo(item: Item | null): number {
+    if (item === null) {
+      return this.items.length === 0 ? 0 : this.items[0].compareTo(null);
+    }
+    if (item instanceof IntItem) return -1;
+    if (item instanceof StringItem) return 1;
+
+    const length = Math.max(this.items.length, item.items.length);
+    for (let i = 0; i < length; i++) {
+      const left = this.items[i] ?? null;
+      const right = item.items[i] ?? null;
+      const result = left === null ? (right === null ? 0 : -right.compareTo(left)) : left.compareTo(right);
+      if (result !== 0) return result;
+    }
+    return 0;
+  }
+}
+
+function compareStrings(a: string, b: string): number {
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+/**
+ * Maven version ordering, ported from Maven's `ComparableVersion`, and Maven
+ * version ranges (`[1.0,2.0)`, `(,1.5]`, `[1.2]`, unions like `[1,2),[3,4)`).
+ */
+export class MavenScheme extends BaseVersionScheme {
+  /**
+   * Compares two versions.
+   * @param a - First version
+   * @param b - Second version
+   * @returns Negative if a < b, positive if a > b, zero if equal
+   */
+  compare(a: string, b: string): number {
+    return this.parse(a).compareTo(this.parse(b));
+  }
+
+  /**
+   * Checks whether a version matches a range. A bare version is treated as an exact match.
+   * @param version - Version to check
+   * @param range - Maven version range
+   * @returns True if the version is in one of the range's intervals
+   */
+  satisfies(version: string, range: string): boolean {
+    const spec = range.trim();
+    if (!/^[[(]/.test(spec)) {
+      return this.compare(version, spec) === 0;
+    }
+
+    const intervals = spec.match(/[[(][^\])]*[\])]/g) || [];
+    return intervals.some(interval => this.inInterval(version, interval));
+  }
+
+  /**
+   * Checks whether a version carries a pre-release qualifier.
+   * @param version - Version to check
+   * @returns True for alpha, beta, milestone, rc and snapshot versions
+   */
+  isPrerelease(version: string): boolean {
+    return /(^|[.-])(alpha|beta|milestone|rc|cr|snapshot)|(^|[.-])[abm]\d/i.test(version);
+  }
+
+  /**
+   * Checks a single `[low,high)` interval.
+   */
+  private inInterval(version: string, interval: string): boolean {
+    const lowerInclusive = interval.startsWith('[');
+    const upperInclusive = interval.endsWith(']');
+    const body = interval.slice(1, -1);
+
+    if (!body.includes(',')) {
+      return this.compare(version, body.trim()) === 0;
+    }
+
+    const [lower, upper] = body.split(',').map(part => part.trim());
+    if (lower) {
+      const cmp = this.compare(version, lower);
+      if (cmp < 0 || (cmp === 0 && !lowerInclusive)) return false;
+    }
+    if (upper) {
+      const cmp = this.compare(version, upper);
+      if (cmp > 0 || (cmp === 0 && !upperInclusive)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Splits a version into Maven's nested item list.
+   * @param version - Version string
+   * @returns Parsed item list
+   */
+  private parse(version: string): ListItem {
+    const text = version.trim().toLowerCase();
+    const root = new ListItem();
+    const stack: ListItem[] = [root];
+    let list = root;
+    let isDigit = false;
+    let start = 0;
+
+    const parseItem = (digit: boolean, buffer: string): Item =>
+      digit ? new IntItem(BigInt(buffer)) : new StringItem(buffer, false);
+    const pushList = () => {
+      const child = new ListItem();
+      list.items.push(child);
+      list = child;
+      stack.push(child);
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+
+      if (c === '.' || c === '-') {
+        list.items.push(i === start ? new IntItem(BigInt(0)) : parseItem(isDigit, text.slice(start, i)));
+        start = i + 1;
+        if (c === '-') pushList();
+      } else if (c >= '0' && c <= '9') {
+        if (!isDigit && i > start) {
+          // 1.0.0.X1 < 1.0.0-X2: a qualifier directly followed by digits starts a sub-list
+          list.items.push(new StringItem(text.slice(start, i), true));
+          start = i;
+          pushList();
+        }
+        isDigit = true;
+      } else {
+        if (isDigit && i > start) {
+          list.items.push(parseItem(true, text.slice(start, i)));
+          start = i;
+          pushList();
+        }
+        isDigit = false;
+      }
+    }
+
+    if (text.length > start) {
+      list.items.push(parseItem(isDigit, text.slice(start)));
+    }
+
+    while (stack.length > 0) {
+      stack.pop()!.normalize();
+    }
+    return root;
+  }
+}
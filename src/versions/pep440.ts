@@ -0,0 +1,253 @@
+import { BaseVersionScheme } from './base';
+
+interface Pep440Version {
+  epoch: number;
+  release: number[];
+  pre?: [number, number]; // [phase, number], phase 0 = a, 1 = b, 2 = rc
+  post?: number;
+  dev?: number;
+  local?: (string | number)[];
+}
+
+const VERSION_PATTERN = new RegExp(
+  '^v?' +
+  '(?:(\\d+)!)?' +
+  '(\\d+(?:\\.\\d+)*)' +
+  '(?:[-_.]?(a|b|c|rc|alpha|beta|pre|preview)[-_.]?(\\d+)?)?' +
+  '(?:-(\\d+)|[-_.]?(post|rev|r)[-_.]?(\\d+)?)?' +
+  '(?:[-_.]?(dev)[-_.]?(\\d+)?)?' +
+  '(?:\\+([a-z0-9]+(?:[-_.][a-z0-9]+)*))?$',
+  'i'
+);
+
+const PRE_PHASES: Record<string, number> = { a: 0, alpha: 0, b: 1, beta: 1, c: 2, rc: 2, pre: 2, preview: 2 };
+
+/**
+ * PEP 440 version ordering and specifiers (`>=2,<3`, `~=1.4.2`, `==1.*`),
+ * including epochs, pre-, post- and dev-releases and local versions.
+ */
+export class Pep440Scheme extends BaseVersionScheme {
+  /**
+   * Compares two versions.
+   * @param a - First version
+   * @param b - Second version
+   * @returns Negative if a < b, positive if a > b, zero if equal
+   */
+  compare(a: string, b: string): number {
+    const left = this.parse(a);
+    const right = this.parse(b);
+
+    if (left && right) {
+      return this.compareParsed(left, right);
+    }
+    if (left || right) {
+      return left ? 1 : -1;
+    }
+    return a.localeCompare(b, undefined, { numeric: true });
+  }
+
+  /**
+   * Checks whether a version matches a comma-separated specifier set.
+   * Pre-releases only match when a clause names a pre-release itself.
+   * @param version - Version to check
+   * @param range - PEP 440 specifier set
+   * @returns True if every clause matches
+   */
+  satisfies(version: string, range: string): boolean {
+    const parsed = this.parse(version);
+    if (!parsed) {
+      return version === range.trim();
+    }
+
+    const clauses = range.split(',').map(clause => clause.trim()).filter(Boolean);
+    if (clauses.length === 0) {
+      return true;
+    }
+
+    const allowsPrerelease = clauses.some(clause => {
+      const target = this.parse(clause.replace(/^(===|~=|==|!=|<=|>=|<|>)/, '').replace(/\.\*$/, '').trim());
+      return !!target && this.isPre(target);
+    });
+    if (this.isPre(parsed) && !allowsPrerelease) {
+      return false;
+    }
+
+    return clauses.every(clause => this.matchesClause(parsed, version, clause));
+  }
+
+  /**
+   * Checks whether a version is a pre- or dev-release.
+   * @param version - Version to check
+   * @returns True for versions such as `2.0rc1` or `1.0.dev3`
+   */
+  isPrerelease(version: string): boolean {
+    const parsed = this.parse(version);
+    return !!parsed && this.isPre(parsed);
+  }
+
+  /**
+   * Checks a single specifier clause.
+   * @param version - Parsed version
+   * @param raw - Original version string
+   * @param clause - Specifier clause such as `>=2.0`
+   * @returns True if the clause matches
+   */
+  private matchesClause(version: Pep440Version, raw: string, clause: string): boolean {
+    const match = clause.match(/^(===|~=|==|!=|<=|>=|<|>)?\s*(.+)$/);
+    if (!match) {
+      return false;
+    }
+
+    const operator = match[1] || '==';
+    const targetText = match[2].trim();
+
+    if (operator === '===') {
+      return raw.trim().toLowerCase() === targetText.toLowerCase();
+    }
+
+    if ((operator === '==' || operator === '!=') && targetText.endsWith('.*')) {
+      const prefix = this.parse(targetText.slice(0, -2));
+      if (!prefix) return false;
+      const matches = this.matchesPrefix(version, prefix);
+      return operator === '==' ? matches : !matches;
+    }
+
+    const target = this.parse(targetText);
+    if (!target) {
+      return false;
+    }
+
+    // Local labels are ignored unless the specifier has one
+    const candidate = target.local ? version : { ...version, local: undefined };
+    const cmp = this.compareParsed(candidate, target);
+
+    switch (operator) {
+      case '==':
+        return cmp === 0;
+      case '!=':
+        return cmp !== 0;
+      case '<=':
+        return cmp <= 0;
+      case '>=':
+        return cmp >= 0;
+      case '<':
+        // <V excludes pre-releases of V itself
+        return cmp < 0 && (this.isPre(target) || !this.isPre(version) || !this.sameRelease(version, target));
+      case '>':
+        // >V excludes post-releases of V itself
+        return cmp > 0 && (target.post !== undefined || version.post === undefined || !this.sameRelease(version, target));
+      case '~=': {
+        if (target.release.length < 2) return false;
+        const prefix: Pep440Version = { epoch: target.epoch, release: target.release.slice(0, -1) };
+        return cmp >= 0 && this.matchesPrefix(version, prefix);
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Checks whether a version's release segment starts with a prefix (`==1.4.*`).
+   */
+  private matchesPrefix(version: Pep440Version, prefix: Pep440Version): boolean {
+    if (version.epoch !== prefix.epoch) return false;
+    return prefix.release.every((part, index) => (version.release[index] || 0) === part);
+  }
+
+  /**
+   * Checks whether two versions share epoch and release segment.
+   */
+  private sameRelease(a: Pep440Version, b: Pep440Version): boolean {
+    return a.epoch === b.epoch && this.compareRelease(a.release, b.release) === 0;
+  }
+
+  private isPre(version: Pep440Version): boolean {
+    return version.pre !== undefined || version.dev !== undefined;
+  }
+
+  /**
+   * Orders two parsed versions following the PEP 440 sort rules.
+   */
+  private compareParsed(a: Pep440Version, b: Pep440Version): number {
+    return (a.epoch - b.epoch) ||
+      this.compareRelease(a.release, b.release) ||
+      this.compareKeys(this.preKey(a), this.preKey(b)) ||
+      this.compareKeys([a.post ?? -Infinity], [b.post ?? -Infinity]) ||
+      this.compareKeys([a.dev ?? Infinity], [b.dev ?? Infinity]) ||
+      this.compareLocal(a.local, b.local);
+  }
+
+  /**
+   * A dev-release of a final version sorts before its pre-releases,
+   * and a final version sorts after all of them.
+   */
+  private preKey(version: Pep440Version): number[] {
+    if (version.pre) return version.pre;
+    if (version.post === undefined && version.dev !== undefined) return [-Infinity];
+    return [Infinity];
+  }
+
+  private compareRelease(a: number[], b: number[]): number {
+    const length = Math.max(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+      const diff = (a[i] || 0) - (b[i] || 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+
+  private compareKeys(a: number[], b: number[]): number {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      const left = a[i] ?? 0;
+      const right = b[i] ?? 0;
+      if (left !== right) return left < right ? -1 : 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Local versions sort after the public version; numeric segments beat alphanumeric ones.
+   */
+  private compareLocal(a?: (string | number)[], b?: (string | number)[]): number {
+    if (!a || !b) {
+      return a ? 1 : b ? -1 : 0;
+    }
+
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      const left = a[i];
+      const right = b[i];
+      if (left === undefined) return -1;
+      if (right === undefined) return 1;
+      if (typeof left !== typeof right) return typeof left === 'number' ? 1 : -1;
+      if (left !== right) return left < right ? -1 : 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Parses and normalizes a PEP 440 version string.
+   * @param version - Version string
+   * @returns Parsed version or null if it is not valid PEP 440
+   */
+  private parse(version: string): Pep440Version | null {
+    const match = version.trim().match(VERSION_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    const [, epoch, release, prePhase, preNumber, implicitPost, postLabel, postNumber, devLabel, devNumber, local] = match;
+
+    return {
+      epoch: epoch ? parseInt(epoch, 10) : 0,
+      release: release.split('.').map(part => parseInt(part, 10)),
+      pre: prePhase ? [PRE_PHASES[prePhase.toLowerCase()], parseInt(preNumber || '0', 10)] : undefined,
+      post: implicitPost !== undefined
+        ? parseInt(implicitPost, 10)
+        : postLabel ? parseInt(postNumber || '0', 10) : undefined,
+      dev: devLabel ? parseInt(devNumber || '0', 10) : undefined,
+      local: local
+        ? local.toLowerCase().split(/[-_.]/).map(part => (/^\d+$/.test(part) ? parseInt(part, 10) : part))
+        : undefined
+    };
+  }
+}
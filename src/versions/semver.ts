@@ -0,0 +1,70 @@
+import * as semver from 'semver';
+import { BaseVersionScheme } from './base';
+
+/**
+ * Semantic Versioning 2.0 ordering and npm-style ranges (`^4.17`, `~1.2.3`, `>=2 <3`).
+ * Versions that are not valid semver sort numerically after all valid ones.
+ */
+export class SemverScheme extends BaseVersionScheme {
+  /**
+   * Compares two versions.
+   * @param a - First version
+   * @param b - Second version
+   * @returns Negative if a < b, positive if a > b, zero if equal
+   */
+  compare(a: string, b: string): number {
+    const left = this.parse(a);
+    const right = this.parse(b);
+
+    if (left && right) {
+      return semver.compare(left, right);
+    }
+    if (left || right) {
+      return left ? -1 : 1;
+    }
+    return a.localeCompare(b, undefined, { numeric: true });
+  }
+
+  /**
+   * Checks whether a version matches a range. Prereleases only match ranges
+   * that mention a prerelease of the same major.minor.patch.
+   * @param version - Version to check
+   * @param range - npm-style range
+   * @returns True if the version is in the range
+   */
+  satisfies(version: string, range: string): boolean {
+    const parsed = this.parse(version);
+    if (!parsed) {
+      return version === range;
+    }
+    return semver.satisfies(parsed, this.normalizeRange(range), { loose: true });
+  }
+
+  /**
+   * Checks whether a version is a prerelease.
+   * @param version - Version to check
+   * @returns True for versions such as `2.0.0-beta.1`
+   */
+  isPrerelease(version: string): boolean {
+    const parsed = this.parse(version);
+    return !!parsed && parsed.prerelease.length > 0;
+  }
+
+  /**
+   * Parses a version, accepting a leading `v` and loose formatting.
+   * @param version - Version string
+   * @returns Parsed version or null if it is not semver
+   */
+  protected parse(version: string): semver.SemVer | null {
+    return semver.parse(version.trim().replace(/^v(?=\d)/, ''), { loose: true });
+  }
+
+  /**
+   * Hook for schemes that accept a different range syntax on top of semver.
+   * @param range - Range expression
+   * @returns npm-style range
+   */
+  protected normalizeRange(range: string): string {
+    return range;
+  }
+}
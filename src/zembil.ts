@@ -1,10 +1,13 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import { Cache } from './core/cache';
-import { Queue } from './core/queue';
+import { DEFAULT_RETRY_POLICY, Queue } from './core/queue';
 import { Database } from './core/database';
 import { PackageManagerFactory } from './managers';
-import { CacheConfig, SyncResult, CachedPackage } from './types';
+import { PluginLoader } from './managers/plugins';
+import { VersionSchemeFactory } from './versions';
+import { RegistryUtils } from './utils/registries';
+import { CacheConfig, DataBudget, SyncEvents, SyncResult, CachedArtifact, CachedPackage, EvictionPolicy, ManagerRegistration, PackageManager, ProcessOptions, MigrationStatus, SearchOptions, SearchResult, VerifyReport, VerifyRepairAction } from './types';
 
 /**
  * Main Zembil class that orchestrates offline package caching.
@@ -45,29 +48,147 @@ export class Zembil {
     await this.db.initialize();
 
     await this.loadConfig();
+    PackageManagerFactory.configure(await RegistryUtils.load(this.config.registries));
+    PluginLoader.load(this.config.plugins, [this.cacheDir, process.cwd()]);
+  }
+
+  /**
+   * Adds a package manager for this process, like a plugin would.
+   * @param registration - Name, factory and CLI hints of the manager
+   */
+  registerManager(registration: ManagerRegistration): void {
+    PackageManagerFactory.register(registration);
   }
 
   /**
    * Synchronizes queued packages by downloading and caching them.
+   * @param options - Overrides for the configured concurrency, rate limit and data budget,
+   * and a signal that stops the sync
    * @returns Sync result with download statistics
    */
-  async sync(): Promise<SyncResult> {
-    return await this._queue.process();
+  async sync(options: ProcessOptions = {}): Promise<SyncResult> {
+    const result = await this._queue.process({
+      concurrency: options.concurrency ?? this.config.concurrency,
+      registryConcurrency: { ...this.config.registryConcurrency, ...options.registryConcurrency },
+      retry: options.retry ?? this.config.retry,
+      force: options.force,
+      rateLimit: options.rateLimit ?? this.config.rateLimit,
+      dataBudget: { ...this.config.dataBudget, ...options.dataBudget },
+      signal: options.signal
+    });
+    const evicted = await this.enforceMaxSize();
+    if (evicted.length > 0) {
+      result.evicted = evicted.map(pkg => `${pkg.name}@${pkg.version}`);
+    }
+    return result;
+  }
+
+  /**
+   * Subscribes to progress events of syncs run through this instance or its queue.
+   * @param event - Event name, e.g. `download:progress`
+   * @param listener - Listener for the event
+   */
+  on<E extends keyof SyncEvents & string>(event: E, listener: SyncEvents[E]): this {
+    this._queue.on(event, listener);
+    return this;
   }
 
   /**
-   * Installs a package from the local cache.
+   * Removes a listener added with on().
+   * @param event - Event name
+   * @param listener - Listener to remove
+   */
+  off<E extends keyof SyncEvents & string>(event: E, listener: SyncEvents[E]): this {
+    this._queue.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Evicts unpinned packages when the cache is larger than the configured maximum size.
+   * @returns Packages that were evicted
+   */
+  async enforceMaxSize(): Promise<CachedPackage[]> {
+    if (await this._cache.getSize() <= this.config.maxSize) {
+      return [];
+    }
+    return await this._cache.evict(this.config.maxSize, this.config.evictionPolicy);
+  }
+
+  /**
+   * Verifies the integrity of the cache and optionally repairs broken entries.
+   * Corrupt or missing entries can be re-queued for download or moved to quarantine.
+   * @param repair - Optional repair action for broken entries
+   * @returns Verification report, listing repaired entries when a repair action was given
+   */
+  async verifyCache(repair?: VerifyRepairAction): Promise<VerifyReport> {
+    const report = await this._cache.verify();
+    if (!repair) {
+      return report;
+    }
+
+    const repaired: string[] = [];
+    for (const issue of report.issues) {
+      if (issue.type === 'orphaned-file' || !issue.name || !issue.version || !issue.manager) continue;
+
+      if (repair === 'quarantine') {
+        await this._cache.quarantine(issue.name, issue.version);
+      } else {
+        await this._cache.remove(issue.name, issue.version);
+        const queued = await this._queue.list();
+        for (const item of queued) {
+          if (item.packageName === issue.name && item.version === issue.version && item.manager === issue.manager) {
+            await this._queue.remove(item.id);
+          }
+        }
+        await this._queue.add(issue.name, issue.version, issue.manager);
+      }
+      repaired.push(`${issue.name}@${issue.version}`);
+    }
+
+    return { ...report, repaired };
+  }
+
+  /**
+   * Installs a package from the local cache without network access.
+   * The cached artifact is checked against its stored checksum before it is unpacked.
    * @param packageName - Name of the package to install
    * @param targetDir - Directory to install the package
+   * @param version - Optional version (uses latest if not specified)
+   * @returns The cached package that was installed
    */
-  async install(packageName: string, targetDir: string): Promise<void> {
-    const cached = await this.findCachedPackage(packageName);
+  async install(packageName: string, targetDir: string, version?: string): Promise<CachedPackage> {
+    const spec = version ? `${packageName}@${version}` : packageName;
+    const cached = await this.findCachedPackage(packageName, version);
     if (!cached) {
-      throw new Error(`Package ${packageName} not found in cache. Run 'zembil sync' first.`);
+      throw new Error(`Package ${spec} not found in cache. Run 'zembil sync' first.`);
+    }
+
+    const label = `${cached.name}@${cached.version}`;
+    if (!await fs.pathExists(cached.localPath)) {
+      throw new Error(`Cached file for ${label} is missing (${cached.localPath}). Queue it again and run 'zembil sync'.`);
+    }
+    if (!await this._cache.verifyChecksum(cached)) {
+      throw new Error(`Checksum mismatch for ${label}. The cached file is corrupt; queue it again and run 'zembil sync'.`);
+    }
+
+    const artifacts: CachedArtifact[] = [];
+    for (const artifact of await this._cache.getArtifacts(cached.name, cached.version)) {
+      if (await this._cache.verifyChecksum(artifact)) {
+        artifacts.push(artifact);
+      } else {
+        console.warn(`Skipping corrupt or missing artifact ${artifact.filename} for ${label}`);
+      }
     }
 
     const manager = PackageManagerFactory.getManager(cached.manager);
-    await manager.install(cached.name, cached.version, targetDir);
+    await fs.ensureDir(targetDir);
+    if (artifacts.length > 0 && manager.installArtifacts) {
+      await manager.installArtifacts(cached.localPath, artifacts, cached.name, cached.version, targetDir);
+    } else {
+      await manager.installFromFile(cached.localPath, cached.name, cached.version, targetDir);
+    }
+    await this._cache.recordAccess(cached.name, cached.version);
+    return cached;
   }
 
   /**
@@ -83,7 +204,9 @@ export class Zembil {
     }
 
     try {
-      return await fs.readFile(cached.documentationPath, 'utf8');
+      const docs = await fs.readFile(cached.documentationPath, 'utf8');
+      await this._cache.recordAccess(cached.name, cached.version);
+      return docs;
     } catch (error) {
       return null;
     }
@@ -110,12 +233,23 @@ export class Zembil {
         examples.push(content);
       }
       
+      await this._cache.recordAccess(cached.name, cached.version);
       return examples;
     } catch (error) {
       return [];
     }
   }
 
+  /**
+   * Searches cached packages, documentation and examples. Works offline.
+   * @param query - Free-text search query
+   * @param options - Optional manager/license filters and result limit
+   * @returns Ranked search results
+   */
+  async search(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    return await this.db.searchPackages(query, options);
+  }
+
   /**
    * Gets cache statistics and information.
    * @returns Cache statistics including package count, size, and date range
@@ -129,6 +263,15 @@ export class Zembil {
     return await this.db.getStats();
   }
 
+  /**
+   * Gets the schema migration status of the cache database.
+   * Does not require initialize(), so pending migrations can be inspected before they run.
+   * @returns Migration status
+   */
+  async getMigrationStatus(): Promise<MigrationStatus> {
+    return await this.db.getMigrationStatus();
+  }
+
   /**
    * Gets the cache directory path.
    * @returns Cache directory path
@@ -154,14 +297,20 @@ export class Zembil {
   }
 
   /**
-   * Finds a cached package by name and optional version.
+   * Finds a cached package by name and optional version or range.
+   * An exact version is looked up directly; otherwise the version is treated as a
+   * range in the package manager's own syntax (`^4.17`, `>=2,<3`, `[1.0,2.0)`)
+   * and the highest matching cached version wins.
    * @param packageName - Name of the package
-   * @param version - Optional version (uses latest if not specified)
+   * @param version - Optional version or range (uses latest stable if not specified)
    * @returns Cached package or null if not found
    */
-  private async findCachedPackage(packageName: string, version?: string): Promise<CachedPackage | null> {
+  async findCachedPackage(packageName: string, version?: string): Promise<CachedPackage | null> {
     if (version) {
-      return await this._cache.get(packageName, version);
+      const exact = await this._cache.get(packageName, version);
+      if (exact) {
+        return exact;
+      }
     }
 
     const packages = await this._cache.list();
@@ -171,7 +320,13 @@ export class Zembil {
       return null;
     }
 
-    return matching.sort((a, b) => b.version.localeCompare(a.version))[0];
+    const scheme = VersionSchemeFactory.getScheme(matching[0].manager);
+    const versions = matching.map(pkg => pkg.version);
+    const selected = version && version !== 'latest'
+      ? scheme.maxSatisfying(versions, version)
+      : scheme.latest(versions);
+
+    return matching.find(pkg => pkg.version === selected) || null;
   }
 
   /**
@@ -186,7 +341,15 @@ export class Zembil {
       enableDocumentation: true,
       enableExamples: true,
       syncInterval: 60, // 1 hour
-      offlineMode: false
+      offlineMode: false,
+      evictionPolicy: 'lru',
+      concurrency: 4,
+      registryConcurrency: {},
+      retry: { ...DEFAULT_RETRY_POLICY },
+      rateLimit: 0,
+      dataBudget: {},
+      plugins: [],
+      registries: {}
     };
   }
 
@@ -224,6 +387,39 @@ export class Zembil {
     await this.saveConfig();
   }
 
+  /**
+   * Sets the policy used to evict packages when the cache exceeds its maximum size.
+   * @param policy - Eviction policy
+   */
+  async setEvictionPolicy(policy: EvictionPolicy): Promise<void> {
+    this.config.evictionPolicy = policy;
+    await this.saveConfig();
+  }
+
+  /**
+   * Sets how many packages are downloaded in parallel during sync.
+   * @param concurrency - Number of parallel downloads
+   * @param registryConcurrency - Optional caps per registry, keyed by host, or by package manager for each of its hosts
+   */
+  async setConcurrency(concurrency: number, registryConcurrency?: Record<string, number>): Promise<void> {
+    this.config.concurrency = concurrency;
+    if (registryConcurrency) {
+      this.config.registryConcurrency = registryConcurrency;
+    }
+    await this.saveConfig();
+  }
+
+  /**
+   * Sets how much bandwidth and data a sync may use, for metered connections.
+   * @param rateLimit - Bytes per second across all downloads, 0 for no limit
+   * @param dataBudget - Bytes allowed per sync and per day; leave a field out for no limit
+   */
+  async setDataLimits(rateLimit: number, dataBudget: DataBudget = {}): Promise<void> {
+    this.config.rateLimit = rateLimit;
+    this.config.dataBudget = dataBudget;
+    await this.saveConfig();
+  }
+
   /**
    * Sets the offline mode.
    * @param enabled - Whether to enable offline mode